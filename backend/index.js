@@ -10,6 +10,16 @@ const crypto = require('crypto');
 
 const User = require('./models/User');
 const Transaction = require('./models/Transaction');
+const Income = require('./models/Income');
+const RecurringTransaction = require('./models/RecurringTransaction');
+const Notification = require('./models/Notification');
+const Goal = require('./models/Goal');
+const Dependent = require('./models/Dependent');
+const CategoryRule = require('./models/CategoryRule');
+const FxRate = require('./models/FxRate');
+const Household = require('./models/Household');
+const AuditLog = require('./models/AuditLog');
+const { defineJob, startJobs, listJobs } = require('./lib/jobs');
 
 const app = express();
 
@@ -23,14 +33,16 @@ const {
     COOKIE_DOMAIN = "",
     FRONTEND_URL = 'http://localhost:3000', // set to https://spewn-app.vercel.app in Render env
     DEV_FRONTEND_URL = 'http://localhost:3000',
-    NODE_ENV = 'development'
+    NODE_ENV = 'development',
+    ADMIN_EMAILS = '' // comma-separated; these accounts can use /api/admin/*
 } = process.env;
 
 if (NODE_ENV === 'production') {
     app.set('trust proxy', 1);
 }
 
-app.use(express.json());
+// bank statement imports post up to IMPORT_MAX_ROWS rows at once
+app.use(express.json({ limit: '1mb' }));
 app.use(cookieParser());
 const allowedOrigins = [FRONTEND_URL, DEV_FRONTEND_URL].filter(Boolean);
 console.log('allowedOrigins:', allowedOrigins);
@@ -51,7 +63,7 @@ const corsOptions = {
         return callback(null, false);
     },
     credentials: true,
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
     allowedHeaders: ['Content-Type', 'Authorization', 'Accept', 'X-Requested-With'],
     optionsSuccessStatus: 204 // older browsers sometimes choke on 200
 };
@@ -89,7 +101,8 @@ async function connectDB() {
     }
 }
 
-connectDB();
+// `node index.js` serves the API; the tests require this file for its helpers and start nothing
+if (require.main === module) connectDB().then(() => startJobs());
 
 // helpers
 function signToken(payload) {
@@ -155,6 +168,57 @@ async function authMiddleware(req, res, next) {
     }
 }
 
+const adminEmails = ADMIN_EMAILS.split(',').map(e => e.trim().toLowerCase()).filter(Boolean);
+
+// use after authMiddleware
+function adminMiddleware(req, res, next) {
+    if (!adminEmails.includes(String(req.user.email || '').toLowerCase())) {
+        return res.status(403).json({ message: 'Forbidden' });
+    }
+    next();
+}
+
+// The role a user acts with: their role in their household, or owner of their own budget when they
+// are not in one. The household owner is always 'owner'.
+function roleOf(household, userId) {
+    if (!household) return 'owner';
+    if (String(household.ownerId) === String(userId)) return 'owner';
+    const member = household.members.find(m => String(m.userId) === String(userId));
+    return (member && member.role !== 'owner' && member.role) || 'editor';
+}
+
+// The permissions a role grants, e.g. ['read', 'spend'] for a contributor
+function permissionsOf(role) {
+    return Object.keys(Household.PERMISSIONS).filter(p => Household.PERMISSIONS[p].includes(role));
+}
+
+// use after authMiddleware: lets the request through when the user's role grants `permission`
+// (a key of Household.PERMISSIONS, or a function of the request returning one) and sets req.role.
+// req.user stays the signed-in member; req.budgetOwner is the household owner (the user outside a
+// household), whose buckets and budget period the shared-bucket and household routes go by.
+function authorize(permission) {
+    return async (req, res, next) => {
+        try {
+            const household = await Household.findOne({ 'members.userId': req.user._id }).select('ownerId members').lean();
+            req.role = roleOf(household, req.user._id);
+            const needed = typeof permission === 'function' ? permission(req) : permission;
+            if (!Household.PERMISSIONS[needed].includes(req.role)) {
+                const error = `Your role (${req.role}) cannot do this`;
+                // profile and auth clients read `message`, the rest of the API `error`
+                return res.status(403).json({ error, message: error, code: 'FORBIDDEN_ROLE' });
+            }
+            req.budgetOwner = req.user;
+            if (household && String(household.ownerId) !== String(req.user._id)) {
+                req.budgetOwner = (await User.findById(household.ownerId)) || req.user;
+            }
+            return next();
+        } catch (err) {
+            console.error('authorize error:', err);
+            return res.status(500).json({ error: 'Server error' });
+        }
+    };
+}
+
 function validateMonthFormat(month) {
     if (!month || typeof month !== 'string') return false;
     const m = month.match(/^(\d{4})-(\d{2})$/);
@@ -163,32 +227,826 @@ function validateMonthFormat(month) {
     return mm >= 1 && mm <= 12;
 }
 
+// The budget period (YYYY-MM key) `date` falls in. A period runs from `startDay` of its month to the
+// day before `startDay` of the next (25 -> "Oct 25 - Nov 24" is "2025-10"); startDay 1 is the calendar month.
+// startDay is capped at 28, so shifting back startDay - 1 days always lands in the period's month.
+function periodKeyOf(date, startDay = 1) {
+    return new Date(new Date(date).getTime() - (startDay - 1) * DAY_MS).toISOString().slice(0, 7);
+}
+
+function currentMonthKey(startDay = 1, now = new Date()) {
+    return periodKeyOf(now, startDay);
+}
+
+// "2025-01" -> "2024-12"
+function previousMonthKey(month) {
+    const [y, m] = month.split('-').map(Number);
+    return new Date(Date.UTC(y, m - 2, 1)).toISOString().slice(0, 7);
+}
+
+const ROLLOVER_POLICIES = ['carry', 'sweep', 'reset'];
+
+// Map / mongoose subdocument / plain object -> plain object
+function toPlain(value) {
+    if (!value) return {};
+    if (value instanceof Map) return Object.fromEntries(value);
+    if (typeof value.toObject === 'function') return value.toObject();
+    return { ...value };
+}
+
+// Whole-unit allocation per bucket. Shares are rounded by largest remainder, so they add up to the
+// rounded income (when the splits make 100%) instead of drifting a unit or two from it.
 function computeDistribution(salary, splits, extraIncome = 0) {
     const total = Number(salary || 0) + Number(extraIncome || 0);
+    const keys = Object.keys(splits || {});
+    const exact = keys.map(k => (total * Number(splits[k] || 0)) / 100);
+    const out = {};
+    keys.forEach((k, i) => { out[k] = Math.floor(exact[i]); });
+    let left = Math.round(exact.reduce((a, v) => a + v, 0)) - keys.reduce((a, k) => a + out[k], 0);
+    keys.map((k, i) => ({ k, rest: exact[i] - out[k] }))
+        .sort((a, b) => b.rest - a.rest)
+        .forEach(({ k }) => {
+            if (left <= 0) return;
+            out[k] += 1;
+            left -= 1;
+        });
+    return out;
+}
+
+const BUCKET_COLOR_RE = /^#[0-9a-f]{6}$/i;
+const DEFAULT_BUCKET_COLOR = '#06b6a4';
+
+// 'Kids Education' -> 'kids_education' (bucket keys are what transactions store)
+function toBucketKey(value) {
+    return String(value || '').trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+// Buckets for a bare key -> percentage map, reusing the default buckets' name/color/icon where the key matches.
+function bucketsFromSplits(splits) {
+    return Object.keys(splits || {}).map(key => {
+        const known = User.DEFAULT_BUCKETS.find(b => b.key === key);
+        const meta = known || { key, name: key.replace(/_/g, ' '), color: DEFAULT_BUCKET_COLOR, icon: '' };
+        return { ...meta, percentage: Number(splits[key] || 0) };
+    });
+}
+
+function splitsFromBuckets(buckets) {
+    return Object.fromEntries(buckets.map(b => [b.key, Number(b.percentage || 0)]));
+}
+
+// The user's buckets in display order. Accounts that predate custom buckets only have `splits`.
+function bucketsFor(user) {
+    const saved = (user && user.buckets) || [];
+    if (!saved.length) return bucketsFromSplits(toPlain(user && user.splits));
+    return saved.map(b => ({
+        key: b.key, name: b.name, color: b.color || DEFAULT_BUCKET_COLOR, icon: b.icon || '', percentage: Number(b.percentage || 0)
+    }));
+}
+
+// Validates the buckets payload of PUT /api/profile. Keys are kept when sent (renaming a bucket must not
+// orphan its transactions) and derived from the name for new buckets. Returns { error } or { buckets }.
+function parseBuckets(input) {
+    if (!Array.isArray(input) || input.length === 0) return { error: 'buckets must be a non-empty array' };
+    const buckets = [];
+    const seen = new Set();
+    for (const raw of input) {
+        const name = raw && typeof raw.name === 'string' ? raw.name.trim() : '';
+        if (!name || name.length > 40) return { error: 'Each bucket needs a name of at most 40 characters' };
+        const key = toBucketKey(raw.key || name);
+        if (!key) return { error: `Bucket "${name}" needs letters or numbers in its name` };
+        if (seen.has(key)) return { error: `Duplicate bucket "${name}"` };
+        seen.add(key);
+        const percentage = Number(raw.percentage);
+        if (!Number.isFinite(percentage) || percentage < 0) return { error: `Invalid percentage for "${name}"` };
+        if (raw.color && !BUCKET_COLOR_RE.test(raw.color)) return { error: `Invalid color for "${name}"` };
+        buckets.push({
+            key,
+            name,
+            color: raw.color || DEFAULT_BUCKET_COLOR,
+            icon: typeof raw.icon === 'string' ? raw.icon.trim().slice(0, 8) : '',
+            percentage
+        });
+    }
+    return { buckets };
+}
+
+// Validates the optional detail fields of a transaction payload (date/occurredAt, notes, paymentMethod).
+// Returns { error } or { fields } holding only the keys that were provided.
+function parseTxnDetails(body) {
+    const { notes, paymentMethod } = body;
+    const date = typeof body.occurredAt !== 'undefined' ? body.occurredAt : body.date;
+    const fields = {};
+
+    if (typeof date !== 'undefined' && date !== null && date !== '') {
+        const when = new Date(date);
+        if (Number.isNaN(when.getTime())) return { error: 'Invalid date' };
+        fields.occurredAt = when;
+    }
+    if (typeof notes !== 'undefined') {
+        fields.notes = String(notes || '').trim();
+    }
+    if (typeof paymentMethod !== 'undefined') {
+        if (paymentMethod && !Transaction.PAYMENT_METHODS.includes(paymentMethod)) {
+            return { error: `paymentMethod must be one of ${Transaction.PAYMENT_METHODS.join(', ')}` };
+        }
+        fields.paymentMethod = paymentMethod || null;
+    }
+    if (typeof body.goalId !== 'undefined') {
+        if (body.goalId && !mongoose.Types.ObjectId.isValid(body.goalId)) return { error: 'Invalid goalId' };
+        fields.goalId = body.goalId || null;
+    }
+    if (typeof body.dependentId !== 'undefined') {
+        if (body.dependentId && !mongoose.Types.ObjectId.isValid(body.dependentId)) return { error: 'Invalid dependentId' };
+        fields.dependentId = body.dependentId || null;
+    }
+    return { fields };
+}
+
+// [start, end) of a YYYY-MM period in UTC: the calendar month (same convention as
+// toISOString().slice(0, 7)), or from `startDay` to `startDay` of the next month
+function monthRange(month, startDay = 1) {
+    const [y, m] = month.split('-').map(Number);
+    return { start: new Date(Date.UTC(y, m - 1, startDay)), end: new Date(Date.UTC(y, m, startDay)) };
+}
+
+function parseCycleStartDay(value) {
+    const day = Number(value);
+    if (!Number.isInteger(day) || day < 1 || day > 28) return { error: 'cycleStartDay must be a whole number between 1 and 28' };
+    return { cycleStartDay: day };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAY_INTERVAL_DAYS = { weekly: 7, biweekly: 14 };
+
+// Paydays (UTC midnight) in the period `month`: monthly pay lands on its first day, semi-monthly 14 days
+// later and on its last day, weekly / bi-weekly every 7 / 14 days counted from the anchor payday
+// (in both directions).
+function payDatesInMonth(frequency, anchorDate, month, startDay = 1) {
+    const { start, end } = monthRange(month, startDay);
+    if (frequency === 'semimonthly') return [new Date(start.getTime() + 14 * DAY_MS), new Date(end.getTime() - DAY_MS)];
+    const interval = PAY_INTERVAL_DAYS[frequency];
+    if (!interval) return [start];
+
+    const anchor = anchorDate ? new Date(anchorDate) : start;
+    const first = Date.UTC(anchor.getUTCFullYear(), anchor.getUTCMonth(), anchor.getUTCDate());
+    const step = interval * DAY_MS;
+    const dates = [];
+    for (let t = first + Math.ceil((start.getTime() - first) / step) * step; t < end.getTime(); t += step) {
+        dates.push(new Date(t));
+    }
+    return dates;
+}
+
+// Distributes `month` under a pay schedule: every payday is split across the buckets on its own
+// and the month's allocation is the sum of its paychecks plus the split of any extra income.
+function distributeForMonth({ salary, frequency, anchorDate, splits, extraIncome = 0, month, startDay = 1 }) {
+    const perPaycheck = Number(salary || 0);
+    const payEvents = payDatesInMonth(frequency, anchorDate, month, startDay).map(date => ({
+        date, amount: perPaycheck, distribution: computeDistribution(perPaycheck, splits, 0)
+    }));
+    const distribution = computeDistribution(0, splits, extraIncome);
+    payEvents.forEach(e => {
+        Object.keys(e.distribution).forEach(k => { distribution[k] += e.distribution[k]; });
+    });
+    return { monthlyPay: perPaycheck * payEvents.length, payEvents, distribution };
+}
+
+// salaryFrequency / payAnchorDate from a request body, falling back to the user's saved schedule.
+// Returns { error } or { frequency, anchorDate }.
+function parsePaySchedule(body, user) {
+    const frequency = typeof body.salaryFrequency !== 'undefined' ? body.salaryFrequency : (user.salaryFrequency || 'monthly');
+    if (!User.SALARY_FREQUENCIES.includes(frequency)) {
+        return { error: `salaryFrequency must be one of ${User.SALARY_FREQUENCIES.join(', ')}` };
+    }
+    let anchorDate = user.payAnchorDate || null;
+    if (body.payAnchorDate) {
+        anchorDate = new Date(body.payAnchorDate);
+        if (Number.isNaN(anchorDate.getTime())) return { error: 'payAnchorDate must be a valid date' };
+    }
+    if (PAY_INTERVAL_DAYS[frequency] && !anchorDate) {
+        return { error: 'payAnchorDate (any one of your paydays) is required for weekly and bi-weekly pay' };
+    }
+    return { frequency, anchorDate };
+}
+
+// Validates an income payload (POST / PUT /api/incomes). Returns { error } or { fields } holding only
+// the keys that were provided; with `required` (creation) source and amount must be present.
+function parseIncome(body, { required = false } = {}) {
+    const { source, label, amount, splits } = body;
+    const date = typeof body.receivedAt !== 'undefined' ? body.receivedAt : body.date;
+    const fields = {};
+
+    if (required || typeof source !== 'undefined') {
+        if (!Income.INCOME_SOURCES.includes(source)) {
+            return { error: `source must be one of ${Income.INCOME_SOURCES.join(', ')}` };
+        }
+        fields.source = source;
+    }
+    if (required || typeof amount !== 'undefined') {
+        const amt = Number(amount);
+        if (!amt || amt <= 0) return { error: 'Invalid amount' };
+        fields.amount = amt;
+    }
+    if (typeof label !== 'undefined') {
+        fields.label = String(label || '').trim().slice(0, 60);
+    }
+    if (typeof date !== 'undefined' && date !== null && date !== '') {
+        const when = new Date(date);
+        if (Number.isNaN(when.getTime())) return { error: 'Invalid date' };
+        fields.receivedAt = when;
+    }
+    if (typeof splits !== 'undefined') {
+        if (splits !== null) {
+            if (typeof splits !== 'object' || Array.isArray(splits)) return { error: 'splits must be an object of bucket -> percentage' };
+            const values = Object.values(splits).map(Number);
+            if (values.some(v => !Number.isFinite(v) || v < 0)) return { error: 'Invalid splits' };
+            if (values.reduce((a, b) => a + b, 0) !== 100) return { error: 'Splits must sum to 100' };
+        }
+        fields.splits = splits;
+    }
+    return { fields };
+}
+
+// Incomes received in `month`, oldest first
+async function incomesForMonth(userId, month, startDay = 1) {
+    const { start, end } = monthRange(month, startDay);
+    return Income.find({ userId, receivedAt: { $gte: start, $lt: end } }).sort({ receivedAt: 1 }).lean();
+}
+
+// Adds up several bucket -> amount maps (e.g. the distributions of a month's incomes)
+function sumByBucket(maps) {
     const out = {};
-    Object.keys(splits || {}).forEach(k => {
-        out[k] = Math.round((total * Number(splits[k] || 0)) / 100);
+    maps.forEach(m => {
+        Object.keys(m).forEach(k => { out[k] = (out[k] || 0) + Number(m[k] || 0); });
     });
     return out;
 }
 
-async function ensureMonthlyAutomation(userId) {
+// GET /api/transactions sort options; `_id` is always the tie-breaker so cursors are stable
+const TXN_SORTS = {
+    date_desc: { field: 'occurredAt', dir: -1 },
+    date_asc: { field: 'occurredAt', dir: 1 },
+    amount_desc: { field: 'amount', dir: -1 },
+    amount_asc: { field: 'amount', dir: 1 }
+};
+
+// Accepts YYYY-MM (a budget period), YYYY-MM-DD or a full timestamp. Upper bounds are exclusive,
+// so `to=2025-10` / `to=2025-10-12` include the whole period / day.
+function parseRangeBound(value, isUpper, startDay = 1) {
+    if (validateMonthFormat(value)) {
+        const { start, end } = monthRange(value, startDay);
+        return isUpper ? end : start;
+    }
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        const d = new Date(`${value}T00:00:00.000Z`);
+        if (Number.isNaN(d.getTime())) return null;
+        if (isUpper) d.setUTCDate(d.getUTCDate() + 1);
+        return d;
+    }
+    const d = new Date(value);
+    return Number.isNaN(d.getTime()) ? null : d;
+}
+
+function escapeRegex(str) {
+    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function encodeCursor(doc, field) {
+    return Buffer.from(JSON.stringify({ v: doc[field], id: String(doc._id) })).toString('base64url');
+}
+
+function decodeCursor(cursor, field) {
+    try {
+        const c = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+        if (!c || !mongoose.Types.ObjectId.isValid(c.id)) return null;
+        const v = ['occurredAt', 'createdAt'].includes(field) ? new Date(c.v) : Number(c.v);
+        return { v, id: new mongoose.Types.ObjectId(c.id) };
+    } catch {
+        return null;
+    }
+}
+
+// Builds the Mongo filter + sort for GET /api/transactions from its query params.
+// Returns { error } or { filter, sort }.
+function buildTxnQuery(userId, params, startDay = 1) {
+    const { from, to, bucket, category, minAmount, maxAmount, q } = params;
+    const filter = { userId };
+
+    if (from || to) {
+        filter.occurredAt = {};
+        if (from) {
+            const start = parseRangeBound(String(from), false, startDay);
+            if (!start) return { error: 'from must be YYYY-MM or a valid date' };
+            filter.occurredAt.$gte = start;
+        }
+        if (to) {
+            const end = parseRangeBound(String(to), true, startDay);
+            if (!end) return { error: 'to must be YYYY-MM or a valid date' };
+            filter.occurredAt.$lt = end;
+        }
+    }
+
+    // bucket/category accept a comma-separated list
+    if (bucket) filter.bucket = { $in: String(bucket).split(',').filter(Boolean) };
+    if (category) filter.category = { $in: String(category).split(',').filter(Boolean) };
+
+    if (minAmount || maxAmount) {
+        filter.amount = {};
+        if (minAmount) {
+            const min = Number(minAmount);
+            if (Number.isNaN(min)) return { error: 'minAmount must be a number' };
+            filter.amount.$gte = min;
+        }
+        if (maxAmount) {
+            const max = Number(maxAmount);
+            if (Number.isNaN(max)) return { error: 'maxAmount must be a number' };
+            filter.amount.$lte = max;
+        }
+    }
+
+    if (q && String(q).trim()) {
+        const rx = new RegExp(escapeRegex(String(q).trim()), 'i');
+        filter.$or = [{ category: rx }, { notes: rx }];
+    }
+
+    const sort = TXN_SORTS[params.sort || 'date_desc'];
+    if (!sort) return { error: `sort must be one of ${Object.keys(TXN_SORTS).join(', ')}` };
+
+    return { filter, sort };
+}
+
+// Sum of spends per bucket for the given period, straight from the Transaction ledger.
+// Bucketed by occurredAt (createdAt only for records saved before occurredAt existed).
+async function spentByBucketForMonth(userId, month, startDay = 1) {
+    const { start, end } = monthRange(month, startDay);
+    const rows = await Transaction.aggregate([
+        { $match: { userId: new mongoose.Types.ObjectId(String(userId)) } },
+        { $addFields: { when: { $ifNull: ['$occurredAt', '$createdAt'] } } },
+        { $match: { when: { $gte: start, $lt: end } } },
+        { $group: { _id: '$bucket', total: { $sum: '$amount' } } }
+    ]);
+    const out = {};
+    rows.forEach(r => { out[r._id] = r.total; });
+    return out;
+}
+
+// Allocation snapshot stored in distributionByMonth[YYYY-MM] whenever a month is distributed.
+// carriedOver holds what the rollover policies brought in from the previous month; `salary` is the
+// month's total pay and payEvents the individual paychecks it was made of.
+function buildMonthSnapshot({ salary, extraIncome = 0, splits, preset, distribution, carriedOver, salaryFrequency = 'monthly', payEvents = [] }) {
+    return {
+        salary: Number(salary || 0),
+        salaryFrequency,
+        payEvents,
+        extraIncome: Number(extraIncome || 0),
+        splits: toPlain(splits),
+        preset: preset || null,
+        distribution: toPlain(distribution),
+        carriedOver: toPlain(carriedOver),
+        updatedAt: new Date()
+    };
+}
+
+// distributionByMonth[month] from a document (Map) or a lean object. Entries written by
+// scripts/backfill-distributionByMonth.js before snapshots existed hold only the bucket amounts.
+function getMonthSnapshot(user, month) {
+    const byMonth = user.distributionByMonth;
+    const raw = byMonth instanceof Map ? byMonth.get(month) : (byMonth || {})[month];
+    if (!raw) return null;
+    if (raw.distribution) return raw;
+    return { salary: null, extraIncome: 0, splits: null, preset: null, distribution: raw, carriedOver: {} };
+}
+
+// The month's own snapshot; the current month falls back to the top-level distribution.
+function allocationForMonth(user, month) {
+    const snapshot = getMonthSnapshot(user, month);
+    if (snapshot) return toPlain(snapshot.distribution);
+    if (month === currentMonthKey(user.cycleStartDay)) return toPlain(user.distribution);
+    return {};
+}
+
+// Remaining per bucket = the month's allocation minus the ledger's spend.
+// Allocations are never mutated by transactions.
+async function computeBalances(user, month) {
+    // the salary snapshot plus whatever each income received that month distributed
+    const startDay = user.cycleStartDay || 1;
+    const incomes = await incomesForMonth(user._id, month, startDay);
+    const allocation = sumByBucket([allocationForMonth(user, month), ...incomes.map(i => toPlain(i.distribution))]);
+
+    const snapshot = getMonthSnapshot(user, month);
+    const carriedOver = snapshot ? toPlain(snapshot.carriedOver) : {};
+
+    const spent = await spentByBucketForMonth(user._id, month, startDay);
+
+    const remaining = {};
+    new Set([...Object.keys(allocation), ...Object.keys(carriedOver), ...Object.keys(spent)]).forEach(k => {
+        remaining[k] = Number(allocation[k] || 0) + Number(carriedOver[k] || 0) - Number(spent[k] || 0);
+    });
+
+    const sumOf = obj => Object.values(obj).reduce((a, b) => a + Number(b || 0), 0);
+    return {
+        month,
+        period: monthRange(month, startDay),
+        allocation,
+        carriedOver,
+        spent,
+        remaining,
+        incomes: incomes.map(({ _id, source, label, amount, receivedAt }) => ({ _id, source, label, amount, receivedAt })),
+        totals: {
+            allocated: sumOf(allocation),
+            income: incomes.reduce((a, i) => a + i.amount, 0),
+            carriedOver: sumOf(carriedOver),
+            spent: sumOf(spent),
+            remaining: sumOf(allocation) + sumOf(carriedOver) - sumOf(spent)
+        }
+    };
+}
+
+// Unspent balances of `fromMonth` that move into the following month, per the user's
+// rollover policies. Overspent buckets carry nothing; 'sweep' acts as 'reset' without a savings bucket.
+async function computeRollover(user, fromMonth) {
+    const policies = toPlain(user.rolloverPolicies);
+    const hasSavings = bucketsFor(user).some(b => b.key === 'savings');
+    const { remaining } = await computeBalances(user, fromMonth);
+    const carried = {};
+    Object.keys(remaining).forEach(bucket => {
+        const left = Number(remaining[bucket] || 0);
+        if (left <= 0) return;
+        const policy = policies[bucket] || 'reset';
+        if (policy === 'carry') carried[bucket] = (carried[bucket] || 0) + left;
+        if (policy === 'sweep' && hasSavings) carried.savings = (carried.savings || 0) + left;
+    });
+    return carried;
+}
+
+// ----- Payday automation -----
+
+// "2024-12" -> "2025-01"
+function nextMonthKey(month) {
+    const [y, m] = month.split('-').map(Number);
+    return new Date(Date.UTC(y, m, 1)).toISOString().slice(0, 7);
+}
+
+// The date automation opens the cycle for the period `month`: its first day, the day N that falls
+// inside it (clamped in short months), or the last working day before it starts (a salary paid
+// ahead of the period it's meant for).
+function paydayForMonth(payday, month, startDay = 1) {
+    const { rule = 'first', day = 1 } = payday || {};
+    const { start } = monthRange(month, startDay);
+    if (rule === 'day') {
+        const n = Math.min(Math.max(Number(day) || 1, 1), 31);
+        const y = start.getUTCFullYear();
+        const m = start.getUTCMonth() + (n < startDay ? 1 : 0);
+        const lastDay = new Date(Date.UTC(y, m + 1, 0)).getUTCDate();
+        return new Date(Date.UTC(y, m, Math.min(n, lastDay)));
+    }
+    if (rule === 'last_working_day') {
+        const d = new Date(start.getTime() - DAY_MS);
+        while (d.getUTCDay() === 0 || d.getUTCDay() === 6) d.setUTCDate(d.getUTCDate() - 1);
+        return d;
+    }
+    return start;
+}
+
+// The latest period whose payday has passed, or null when not even the current one's has
+function dueAutomationMonth(payday, startDay = 1, now = new Date()) {
+    const current = currentMonthKey(startDay, now);
+    const next = nextMonthKey(current);
+    if (paydayForMonth(payday, next, startDay) <= now) return next;
+    if (paydayForMonth(payday, current, startDay) <= now) return current;
+    return null;
+}
+
+// The next cycle automation will open and when: a payday that has already passed but wasn't
+// processed yet runs on the job's next hourly check, reported here as "now".
+function nextAutomationRun(payday, lastAutomatedMonth, startDay = 1, now = new Date()) {
+    const due = dueAutomationMonth(payday, startDay, now);
+    if (due && (lastAutomatedMonth || '') < due) return { month: due, runAt: now };
+    let month = due ? nextMonthKey(due) : currentMonthKey(startDay, now);
+    if (lastAutomatedMonth && lastAutomatedMonth >= month) month = nextMonthKey(lastAutomatedMonth);
+    return { month, runAt: paydayForMonth(payday, month, startDay) };
+}
+
+function parsePayday(input) {
+    if (!input || typeof input !== 'object') return { error: 'payday must be an object with a rule' };
+    if (!User.PAYDAY_RULES.includes(input.rule)) {
+        return { error: `payday.rule must be one of ${User.PAYDAY_RULES.join(', ')}` };
+    }
+    const day = Number(input.day ?? 1);
+    if (input.rule === 'day' && !(Number.isInteger(day) && day >= 1 && day <= 31)) {
+        return { error: 'payday.day must be a whole number between 1 and 31' };
+    }
+    return { payday: { rule: input.rule, day: input.rule === 'day' ? day : 1 } };
+}
+
+// A cycle opened before its period starts (a last-working-day payday) can't take the rollover yet since
+// the previous period is still running; its snapshot is marked rolloverPending and the carried amounts are
+// filled in here on the first run after the previous period has closed. Returns true when it saved.
+async function applyPendingRollover(user, now = new Date()) {
+    const month = user.lastAutomatedMonth;
+    const snapshot = month && getMonthSnapshot(user, month);
+    if (!snapshot || !snapshot.rolloverPending) return false;
+    if (monthRange(month, user.cycleStartDay || 1).start > now) return false;
+
+    const carriedOver = await computeRollover(user, previousMonthKey(month));
+    user.distributionByMonth.set(month, { ...snapshot, carriedOver, rolloverPending: false, updatedAt: now });
+    await user.save();
+    await recordAudit(null, {
+        userId: user._id, action: 'distribution.update', route: 'job monthly-automation',
+        before: { carriedOver: {} }, after: { carriedOver }, meta: { month, rollover: true }
+    });
+    return true;
+}
+
+// On payday: archive the running cycle into salaryHistory, lock the new month and open it with the
+// current salary and splits, the same as a manual "start new cycle" from the profile.
+async function ensureMonthlyAutomation(userId, now = new Date()) {
     const user = await User.findById(userId);
     if (!user) return;
     if (!user.automate) return;
 
-    const currentMonth = new Date().toISOString().slice(0, 7);
-    if (user.lastAutomatedMonth === currentMonth) return;
+    await applyPendingRollover(user, now);
 
-    const splits = user.splits || {};
-    const salary = Number(user.salary || 0);
-    const distributed = computeDistribution(salary, splits, 0);
+    const startDay = user.cycleStartDay || 1;
+    const month = dueAutomationMonth(user.payday, startDay, now);
+    if (!month || (user.lastAutomatedMonth || '') >= month) return;
 
-    user.distribution = distributed;
-    user.lastAutomatedMonth = currentMonth;
+    const before = user.toObject();
+    // a cycle the user already started by hand for this month is left as it is
+    if (user.salaryLockedMonth !== month) {
+        const splits = toPlain(user.splits);
+        const { monthlyPay, payEvents, distribution: distributed } = distributeForMonth({
+            salary: user.salary, frequency: user.salaryFrequency, anchorDate: user.payAnchorDate, splits, month, startDay
+        });
+
+        user.salaryHistory.push({
+            salary: user.salary ?? 0,
+            salaryFrequency: user.salaryFrequency || 'monthly',
+            startMonth: user.startMonth || '',
+            extraIncome: 0,
+            splits,
+            automate: true,
+            activeTracking: Boolean(user.activeTracking),
+            createdAt: now
+        });
+        user.startMonth = month;
+        user.salaryLockedMonth = month;
+        user.activeTracking = true;
+        user.distribution = distributed;
+        if (!getMonthSnapshot(user, month)) {
+            // opening a new month: apply rollover policies to what the previous month left over, or
+            // leave that to applyPendingRollover when the previous month hasn't ended yet
+            const early = monthRange(month, startDay).start > now;
+            const carriedOver = early ? {} : await computeRollover(user, previousMonthKey(month));
+            const snapshot = buildMonthSnapshot({
+                salary: monthlyPay, splits, preset: user.preset, distribution: distributed, carriedOver,
+                salaryFrequency: user.salaryFrequency, payEvents
+            });
+            if (early) snapshot.rolloverPending = true;
+            user.distributionByMonth.set(month, snapshot);
+        }
+    }
+    user.lastAutomatedMonth = month;
+    user.lastAutomationAt = now;
+    user.lastAutomationError = '';
     await user.save();
+    await recordAudit(null, {
+        userId: user._id, action: 'cycle.open', route: 'job monthly-automation',
+        ...auditDiff(before, user, AUDITED_PROFILE_FIELDS),
+        meta: { month, payday: user.payday ? user.payday.rule : 'first' }
+    });
+    return month;
+}
+
+// Opens the new cycle for every automated user whose payday has come. Candidates are everyone not yet
+// automated up to next month (a last-working-day payday opens it early); ensureMonthlyAutomation
+// decides per user. One user's failure is recorded on that user and doesn't stop the rest.
+async function runMonthlyAutomation(now = new Date()) {
+    const currentMonth = currentMonthKey(1, now);
+    const pending = await User.find({
+        automate: true, lastAutomatedMonth: { $not: { $gte: nextMonthKey(currentMonth) } }
+    }).select('_id').lean();
+    let opened = 0;
+    let failed = 0;
+    for (const { _id } of pending) {
+        try {
+            if (await ensureMonthlyAutomation(_id, now)) opened++;
+        } catch (err) {
+            console.error('monthly automation failed for', String(_id), err);
+            await User.updateOne({ _id }, { $set: { lastAutomationError: String(err.message || err) } });
+            failed++;
+        }
+    }
+    return { month: currentMonth, pending: pending.length, opened, failed };
+}
+
+// ----- Budget alerts -----
+
+// Validates PUT /api/profile's bucketAlerts: { [bucket]: { warnAt: 1-100 | null, blockOverspend } }
+function parseBucketAlerts(input, buckets) {
+    if (!input || typeof input !== 'object') return { error: 'bucketAlerts must be an object of bucket -> alert' };
+    const known = new Set(buckets.map(b => b.key));
+    const out = {};
+    for (const [bucket, alert] of Object.entries(input)) {
+        if (!known.has(bucket)) return { error: `Unknown bucket "${bucket}"` };
+        const warnAt = alert && alert.warnAt != null && alert.warnAt !== '' ? Number(alert.warnAt) : null;
+        if (warnAt !== null && !(warnAt >= 1 && warnAt <= 100)) {
+            return { error: 'bucketAlerts warnAt must be a percentage between 1 and 100' };
+        }
+        out[bucket] = { warnAt, blockOverspend: Boolean(alert && alert.blockOverspend) };
+    }
+    return { bucketAlerts: out };
+}
+
+// Rejects a spend (or an edit to one) that takes a bucket with blockOverspend below zero, or deeper
+// below it. `previous` is the transaction's state before an edit. Returns an error message or null.
+async function checkOverspendBlock(user, { bucket, amount, occurredAt }, previous = null) {
+    const alert = toPlain(user.bucketAlerts)[bucket];
+    if (!alert || !alert.blockOverspend) return null;
+
+    const startDay = user.cycleStartDay || 1;
+    const month = periodKeyOf(occurredAt || new Date(), startDay);
+    const { remaining } = await computeBalances(user, month);
+    const before = Number(remaining[bucket] || 0);
+    let after = before - amount;
+    if (previous && previous.bucket === bucket && periodKeyOf(previous.occurredAt || previous.createdAt, startDay) === month) {
+        after += previous.amount;
+    }
+    if (after >= 0 || after >= before) return null;
+    const name = bucketName(user, bucket);
+    return before > 0
+        ? `${name} has ${before} left and is set to block spends that take it below zero`
+        : `${name} is already over budget and is set to block further spends`;
+}
+
+function bucketName(user, key) {
+    const b = bucketsFor(user).find(x => x.key === key);
+    return b ? b.name : key;
+}
+
+// Records the notifications a transaction in `bucket` triggers for its period: one when spend reaches
+// the bucket's warnAt percentage and one when the bucket goes negative. Each fires once per period;
+// returns the ones created by this call.
+async function evaluateBucketAlerts(user, txn) {
+    const startDay = user.cycleStartDay || 1;
+    const month = periodKeyOf(txn.occurredAt || txn.createdAt || new Date(), startDay);
+    const { allocation, carriedOver, spent, remaining } = await computeBalances(user, month);
+
+    const bucket = txn.bucket;
+    const budget = Number(allocation[bucket] || 0) + Number(carriedOver[bucket] || 0);
+    const spentAmt = Number(spent[bucket] || 0);
+    const percentSpent = budget > 0 ? Math.round((spentAmt / budget) * 100) : (spentAmt > 0 ? 100 : 0);
+    const alert = toPlain(user.bucketAlerts)[bucket] || {};
+    const name = bucketName(user, bucket);
+
+    const candidates = [];
+    if (alert.warnAt && percentSpent >= alert.warnAt) {
+        candidates.push({ type: 'threshold', threshold: alert.warnAt, message: `${percentSpent}% of ${name} spent` });
+    }
+    if (Number(remaining[bucket] || 0) < 0) {
+        candidates.push({ type: 'overspent', message: `${name} is over budget by ${Math.abs(remaining[bucket])}` });
+    }
+
+    const created = [];
+    for (const c of candidates) {
+        try {
+            created.push(await Notification.create({
+                userId: user._id, bucket, month, percentSpent, transactionId: txn._id, ...c
+            }));
+        } catch (err) {
+            // already notified for this bucket and period (unique index)
+            if (err.code !== 11000) throw err;
+        }
+    }
+    return created;
+}
+
+// ----- Recurring transactions -----
+
+// The occurrence after `date`: weekly adds 7 days, monthly / yearly keep `anchorDay` (the template's
+// original day of month, clamped in shorter months so a 31st rent lands on Feb 28 and back on Mar 31).
+function nextOccurrence(date, cadence, anchorDay) {
+    const d = new Date(date);
+    if (cadence === 'weekly') return new Date(d.getTime() + 7 * DAY_MS);
+    const y = d.getUTCFullYear() + (cadence === 'yearly' ? 1 : 0);
+    const m = d.getUTCMonth() + (cadence === 'monthly' ? 1 : 0);
+    const daysInMonth = new Date(Date.UTC(y, m + 1, 0)).getUTCDate();
+    return new Date(Date.UTC(y, m, Math.min(anchorDay, daysInMonth), d.getUTCHours(), d.getUTCMinutes()));
+}
+
+// Occurrences of a template from its nextRunAt up to `until` (inclusive), honouring endDate.
+function occurrencesUntil(template, until, limit = 12) {
+    const anchorDay = new Date(template.startDate).getUTCDate();
+    const out = [];
+    for (let at = new Date(template.nextRunAt); at <= until && out.length < limit; at = nextOccurrence(at, template.cadence, anchorDay)) {
+        if (template.endDate && at > template.endDate) break;
+        out.push(at);
+    }
+    return out;
+}
+
+// The template's first run on or after `today`, skipping the ones before it
+function firstRunFrom(template, today) {
+    const anchorDay = new Date(template.startDate).getUTCDate();
+    let at = new Date(template.nextRunAt);
+    while (at < today) at = nextOccurrence(at, template.cadence, anchorDay);
+    return at;
+}
+
+// Validates a recurring template payload (POST / PUT /api/recurring). Returns { error } or { fields }
+// holding only the keys that were provided; with `required` (creation) amount, bucket and cadence must be present.
+function parseRecurring(body, user, { required = false } = {}) {
+    const { bucket, category, amount, cadence, startDate, endDate, paused } = body;
+    const details = parseTxnDetails({ notes: body.notes, paymentMethod: body.paymentMethod });
+    if (details.error) return details;
+    const fields = { ...details.fields };
+
+    if (required || typeof amount !== 'undefined') {
+        const amt = Number(amount);
+        if (!amt || amt <= 0) return { error: 'Invalid amount' };
+        fields.amount = amt;
+    }
+    if (required || typeof bucket !== 'undefined') {
+        if (!bucketsFor(user).some(b => b.key === bucket)) return { error: `Unknown bucket "${bucket}"` };
+        fields.bucket = bucket;
+    }
+    if (typeof category !== 'undefined') fields.category = category || undefined;
+    if (required || typeof cadence !== 'undefined') {
+        if (!RecurringTransaction.CADENCES.includes(cadence)) {
+            return { error: `cadence must be one of ${RecurringTransaction.CADENCES.join(', ')}` };
+        }
+        fields.cadence = cadence;
+    }
+    if (startDate) {
+        const when = new Date(startDate);
+        if (Number.isNaN(when.getTime())) return { error: 'Invalid startDate' };
+        fields.startDate = when;
+    }
+    if (typeof endDate !== 'undefined') {
+        const when = endDate ? new Date(endDate) : null;
+        if (when && Number.isNaN(when.getTime())) return { error: 'Invalid endDate' };
+        fields.endDate = when;
+    }
+    if (typeof paused !== 'undefined') fields.paused = Boolean(paused);
+    return { fields };
+}
+
+// Books the Transactions a template owes up to `now`, catching up missed runs. Each occurrence is
+// claimed by moving nextRunAt with a conditional update first, so two runners never book it twice.
+async function materializeRecurring(template, now = new Date()) {
+    const anchorDay = new Date(template.startDate).getUTCDate();
+    let current = template;
+    let created = 0;
+    while (current && !current.paused && current.nextRunAt <= now) {
+        const runAt = current.nextRunAt;
+        if (current.endDate && runAt > current.endDate) break;
+
+        const claimed = await RecurringTransaction.findOneAndUpdate(
+            { _id: current._id, nextRunAt: runAt, paused: false },
+            { $set: { nextRunAt: nextOccurrence(runAt, current.cadence, anchorDay), lastRunAt: runAt } },
+            { new: true }
+        );
+        if (!claimed) break;
+
+        await Transaction.create({
+            userId: claimed.userId,
+            bucket: claimed.bucket,
+            category: claimed.category,
+            amount: claimed.amount,
+            notes: claimed.notes,
+            paymentMethod: claimed.paymentMethod,
+            occurredAt: runAt,
+            recurringId: claimed._id,
+            householdId: await householdIdFor(claimed.userId, claimed.bucket)
+        });
+        created++;
+        current = claimed;
+    }
+    return created;
+}
+
+// Templates whose next run falls after their endDate have finished and are left out.
+async function runDueRecurring(now = new Date()) {
+    const due = await RecurringTransaction.find({
+        paused: false,
+        nextRunAt: { $lte: now },
+        $or: [{ endDate: null }, { $expr: { $lte: ['$nextRunAt', '$endDate'] } }]
+    });
+    let created = 0;
+    for (const template of due) {
+        try {
+            created += await materializeRecurring(template, now);
+        } catch (err) {
+            console.error('recurring run failed for', String(template._id), err);
+        }
+    }
+    return created;
 }
 
+// background jobs (lib/jobs.js); both are cheap no-ops when nothing is due, so hourly is plenty
+defineJob('monthly-automation', { intervalMs: 60 * 60 * 1000 }, runMonthlyAutomation);
+defineJob('recurring-transactions', { intervalMs: 60 * 60 * 1000 }, async () => ({ created: await runDueRecurring() }));
+
 // Cookie options helper
 function buildCookieOptions({ rememberMe = false } = {}) {
     const base = {};
@@ -274,22 +1132,17 @@ app.post('/api/auth/logout', (req, res) => {
     res.json({ ok: true });
 });
 
-// get current user (auth + automation check)
-app.get('/api/auth/me', authMiddleware, async (req, res) => {
+// get current user (monthly automation runs as a background job, see runMonthlyAutomation)
+app.get('/api/auth/me', authMiddleware, authorize('read'), async (req, res) => {
     try {
-        try {
-            await ensureMonthlyAutomation(req.user._id);
-        } catch (err) {
-            console.warn('automation check failed', err);
-        }
-
         const fresh = await User.findById(req.user._id).lean();
         if (!fresh) return res.status(401).json({ message: 'Unauthorized' });
 
         const {
-            _id, email, name, salary, splits, distribution,
-            preset, currency, subscribed, automate, activeTracking,
-            salaryHistory, salaryLockedMonth, startMonth, onboardComplete, lastAutomatedMonth
+            _id, email, name, salary, salaryFrequency, payAnchorDate, splits, distribution,
+            preset, currency, locale, subscribed, automate, activeTracking,
+            salaryHistory, salaryLockedMonth, startMonth, onboardComplete, lastAutomatedMonth,
+            rolloverPolicies, payday, cycleStartDay, bucketAlerts
         } = fresh;
 
         res.json({
@@ -297,18 +1150,29 @@ app.get('/api/auth/me', authMiddleware, async (req, res) => {
             email,
             name,
             salary,
+            salaryFrequency: salaryFrequency || 'monthly',
+            payAnchorDate: payAnchorDate || null,
             splits,
+            buckets: bucketsFor(fresh),
             distribution: distribution || null,
             preset: preset || null,
             currency,
+            locale: locale || 'en-IN',
             subscribed: Boolean(subscribed),
             automate: Boolean(automate),
+            payday: payday || { rule: 'first', day: 1 },
+            cycleStartDay: cycleStartDay || 1,
+            nextAutomation: automate ? nextAutomationRun(payday, lastAutomatedMonth, cycleStartDay || 1) : null,
             activeTracking: Boolean(activeTracking),
             salaryHistory: salaryHistory || [],
             salaryLockedMonth: salaryLockedMonth || '',
             startMonth: startMonth || '',
             onboardComplete: Boolean(onboardComplete),
-            lastAutomatedMonth: lastAutomatedMonth || ''
+            lastAutomatedMonth: lastAutomatedMonth || '',
+            rolloverPolicies: rolloverPolicies || {},
+            bucketAlerts: bucketAlerts || {},
+            role: req.role,
+            permissions: permissionsOf(req.role)
         });
     } catch (err) {
         console.error('me error', err);
@@ -342,6 +1206,7 @@ app.post('/api/auth/reset-password', async (req, res) => {
         if (!user) return res.status(400).json({ message: 'Invalid or expired token' });
         const passwordHash = await bcrypt.hash(newPassword, 10);
         await User.findByIdAndUpdate(user._id, { passwordHash, resetToken: null, resetTokenExpires: null });
+        await recordAudit(req, { userId: user._id, action: 'password.reset' });
         res.json({ ok: true, message: 'Password updated' });
     } catch (err) {
         console.error(err);
@@ -349,16 +1214,94 @@ app.post('/api/auth/reset-password', async (req, res) => {
     }
 });
 
+// display preferences anyone may change for themselves; every other profile field is the budget
+const PERSONAL_PROFILE_FIELDS = ['locale'];
+
+function profilePermission(req) {
+    const keys = Object.keys(req.body || {});
+    return keys.length && keys.every(k => PERSONAL_PROFILE_FIELDS.includes(k)) ? 'read' : 'budget';
+}
+
 // profile update (handles startNewCycle)
-app.put('/api/profile', authMiddleware, async (req, res) => {
+app.put('/api/profile', authMiddleware, authorize(profilePermission), async (req, res) => {
     try {
         let {
-            salary, salaryFrequency, splits, preset, automate, startMonth,
-            startNewCycle, extraIncome
+            salary, splits, preset, automate, startMonth,
+            startNewCycle, extraIncome, rolloverPolicies, buckets
         } = req.body;
 
         const willActivateTracking = Boolean(automate) && Boolean(startNewCycle);
-        const newSplits = splits ?? req.user.splits ?? {};
+
+        let newBuckets;
+        if (typeof buckets !== 'undefined') {
+            const parsed = parseBuckets(buckets);
+            if (parsed.error) return res.status(400).json({ message: parsed.error });
+            newBuckets = parsed.buckets;
+        } else if (splits) {
+            // older clients only send percentages: keep each existing bucket's name/color/icon
+            const existing = bucketsFor(req.user);
+            newBuckets = bucketsFromSplits(splits).map(b => ({
+                ...(existing.find(e => e.key === b.key) || b), percentage: b.percentage
+            }));
+        } else {
+            newBuckets = bucketsFor(req.user);
+        }
+        const newSplits = splitsFromBuckets(newBuckets);
+
+        // spends and recurring templates keep their bucket key, so a bucket they still use can't be removed
+        const removed = bucketsFor(req.user).filter(b => !newBuckets.some(n => n.key === b.key));
+        if (removed.length) {
+            const keys = removed.map(b => b.key);
+            const used = new Set([
+                ...await Transaction.distinct('bucket', { userId: req.user._id, bucket: { $in: keys } }),
+                ...await RecurringTransaction.distinct('bucket', { userId: req.user._id, bucket: { $in: keys } })
+            ]);
+            const inUse = removed.filter(b => used.has(b.key)).map(b => b.name);
+            if (inUse.length) {
+                return res.status(409).json({
+                    message: `Move the spends and recurring spends out of ${inUse.join(', ')} before removing ${inUse.length > 1 ? 'them' : 'it'}`,
+                    code: 'BUCKET_IN_USE'
+                });
+            }
+        }
+
+        const schedule = parsePaySchedule(req.body, req.user);
+        if (schedule.error) return res.status(400).json({ message: schedule.error });
+
+        let startDay = req.user.cycleStartDay || 1;
+        if (typeof req.body.cycleStartDay !== 'undefined') {
+            const parsed = parseCycleStartDay(req.body.cycleStartDay);
+            if (parsed.error) return res.status(400).json({ message: parsed.error });
+            startDay = parsed.cycleStartDay;
+        }
+
+        // optional settings, applied by both the new-cycle and the plain update below
+        const settings = {};
+        if (typeof req.body.payday !== 'undefined') {
+            const parsed = parsePayday(req.body.payday);
+            if (parsed.error) return res.status(400).json({ message: parsed.error });
+            settings.payday = parsed.payday;
+        }
+        if (typeof req.body.currency !== 'undefined' && req.body.currency !== homeCurrencyOf(req.user)) {
+            const currency = parseCurrencyCode(req.body.currency);
+            if (!currency) return res.status(400).json({ message: 'currency must be a 3-letter code like USD' });
+            // stored amounts are in the home currency, so it is fixed once there are spends
+            if (await Transaction.exists({ userId: req.user._id })) {
+                return res.status(409).json({ message: 'Home currency cannot change once spends are recorded' });
+            }
+            settings.currency = currency;
+        }
+        if (typeof req.body.locale !== 'undefined') {
+            const tag = String(req.body.locale || '').trim();
+            const [locale] = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/i.test(tag) ? Intl.NumberFormat.supportedLocalesOf([tag]) : [];
+            if (!locale) return res.status(400).json({ message: 'locale must be a language tag like en-IN or de-DE' });
+            settings.locale = locale;
+        }
+        if (automate && !req.user.automate) {
+            // switching automation on takes over from the next payday, not the one that already passed
+            const due = dueAutomationMonth(settings.payday || req.user.payday, startDay);
+            if (due && due > (req.user.lastAutomatedMonth || '')) settings.lastAutomatedMonth = due;
+        }
 
         // validate splits sum
         const sum = Object.values(newSplits || {}).reduce((a, b) => a + Number(b || 0), 0);
@@ -368,6 +1311,21 @@ app.put('/api/profile', authMiddleware, async (req, res) => {
             if (!validateMonthFormat(startMonth)) return res.status(400).json({ message: 'startMonth must be in YYYY-MM format' });
         }
 
+        if (typeof rolloverPolicies !== 'undefined') {
+            if (!rolloverPolicies || typeof rolloverPolicies !== 'object') {
+                return res.status(400).json({ message: 'rolloverPolicies must be an object of bucket -> policy' });
+            }
+            if (Object.values(rolloverPolicies).some(p => !ROLLOVER_POLICIES.includes(p))) {
+                return res.status(400).json({ message: `rolloverPolicies values must be one of ${ROLLOVER_POLICIES.join(', ')}` });
+            }
+        }
+
+        if (typeof req.body.bucketAlerts !== 'undefined') {
+            const parsed = parseBucketAlerts(req.body.bucketAlerts, newBuckets);
+            if (parsed.error) return res.status(400).json({ message: parsed.error });
+            settings.bucketAlerts = parsed.bucketAlerts;
+        }
+
         if (startNewCycle) {
             if (!startMonth || !validateMonthFormat(startMonth)) {
                 return res.status(400).json({ message: 'startMonth must be provided in YYYY-MM format when starting a new cycle' });
@@ -380,69 +1338,117 @@ app.put('/api/profile', authMiddleware, async (req, res) => {
             const oldStartMonth = req.user.startMonth ?? '';
             const historyEntry = {
                 salary: oldSalary,
+                salaryFrequency: req.user.salaryFrequency || 'monthly',
                 startMonth: oldStartMonth || '',
                 extraIncome: Number(extraIncome || 0),
                 createdAt: new Date()
             };
 
-            const distributed = computeDistribution(Number(salary || 0), newSplits, Number(extraIncome || 0));
+            const { monthlyPay, payEvents, distribution: distributed } = distributeForMonth({
+                salary, frequency: schedule.frequency, anchorDate: schedule.anchorDate,
+                splits: newSplits, extraIncome: Number(extraIncome || 0), month: startMonth, startDay
+            });
+            const snapshot = buildMonthSnapshot({
+                salary: monthlyPay, extraIncome, splits: newSplits, preset: preset || req.user.preset, distribution: distributed,
+                carriedOver: (getMonthSnapshot(req.user, startMonth) || {}).carriedOver,
+                salaryFrequency: schedule.frequency, payEvents
+            });
 
             const update = {
                 $push: { salaryHistory: historyEntry },
                 $set: {
+                    [`distributionByMonth.${startMonth}`]: snapshot,
                     salary: Number(salary || 0),
+                    salaryFrequency: schedule.frequency,
+                    payAnchorDate: schedule.anchorDate,
+                    cycleStartDay: startDay,
                     startMonth: startMonth || '',
                     salaryLockedMonth: startMonth || '',
                     splits: newSplits,
+                    buckets: newBuckets,
                     preset: preset || req.user.preset,
                     automate: typeof automate !== 'undefined' ? Boolean(automate) : req.user.automate,
                     activeTracking: willActivateTracking,
                     onboardComplete: true,
-                    distribution: distributed
+                    distribution: distributed,
+                    ...settings,
+                    ...(rolloverPolicies ? { rolloverPolicies } : {})
                 },
             };
 
             await User.findByIdAndUpdate(req.user._id, update, { new: true });
             const updated = await User.findById(req.user._id).lean();
+            await recordAudit(req, {
+                action: 'cycle.start',
+                ...auditDiff(req.user, updated, AUDITED_PROFILE_FIELDS),
+                meta: { month: startMonth || '', extraIncome: Number(extraIncome || 0) }
+            });
             return res.json({
                 salary: updated.salary,
+                salaryFrequency: updated.salaryFrequency || 'monthly',
+                currency: updated.currency || 'INR',
+                locale: updated.locale || 'en-IN',
+                payAnchorDate: updated.payAnchorDate || null,
                 splits: updated.splits,
+                buckets: bucketsFor(updated),
                 preset: updated.preset,
                 automate: Boolean(updated.automate),
+                payday: updated.payday || { rule: 'first', day: 1 },
+                cycleStartDay: updated.cycleStartDay || 1,
+                nextAutomation: updated.automate ? nextAutomationRun(updated.payday, updated.lastAutomatedMonth, updated.cycleStartDay || 1) : null,
                 startMonth: updated.startMonth || '',
                 subscribed: Boolean(updated.subscribed),
                 salaryHistory: updated.salaryHistory || [],
                 salaryLockedMonth: updated.salaryLockedMonth || '',
                 activeTracking: Boolean(updated.activeTracking),
-                onboardComplete: Boolean(updated.onboardComplete)
+                onboardComplete: Boolean(updated.onboardComplete),
+                rolloverPolicies: updated.rolloverPolicies || {},
+                bucketAlerts: updated.bucketAlerts || {}
             });
         }
 
         // Normal update (no new cycle)
         const updateObj = {
             salary: Number(salary || req.user.salary || 0),
-            salaryFrequency,
+            salaryFrequency: schedule.frequency,
+            payAnchorDate: schedule.anchorDate,
+            cycleStartDay: startDay,
             splits: newSplits,
+            buckets: newBuckets,
             preset: preset || req.user.preset,
             onboardComplete: true
         };
         if (typeof automate !== 'undefined') updateObj.automate = Boolean(automate);
         if (typeof startMonth !== 'undefined') updateObj.startMonth = startMonth || '';
+        if (typeof rolloverPolicies !== 'undefined') updateObj.rolloverPolicies = rolloverPolicies;
+        Object.assign(updateObj, settings);
 
         await User.findByIdAndUpdate(req.user._id, updateObj, { new: true });
         const updatedUser = await User.findById(req.user._id).lean();
+        const changes = auditDiff(req.user, updatedUser, AUDITED_PROFILE_FIELDS);
+        if (changes) await recordAudit(req, { action: 'profile.update', ...changes });
 
         res.json({
             salary: updatedUser.salary,
+            salaryFrequency: updatedUser.salaryFrequency || 'monthly',
+            currency: updatedUser.currency || 'INR',
+            locale: updatedUser.locale || 'en-IN',
+            payAnchorDate: updatedUser.payAnchorDate || null,
             splits: updatedUser.splits,
+            buckets: bucketsFor(updatedUser),
             preset: updatedUser.preset,
             automate: Boolean(updatedUser.automate),
+            payday: updatedUser.payday || { rule: 'first', day: 1 },
+            cycleStartDay: updatedUser.cycleStartDay || 1,
+            nextAutomation: updatedUser.automate ? nextAutomationRun(updatedUser.payday, updatedUser.lastAutomatedMonth, updatedUser.cycleStartDay || 1) : null,
             startMonth: updatedUser.startMonth || '',
             subscribed: Boolean(updatedUser.subscribed),
             salaryHistory: updatedUser.salaryHistory || [],
             salaryLockedMonth: updatedUser.salaryLockedMonth || '',
             activeTracking: Boolean(updatedUser.activeTracking),
-            onboardComplete: Boolean(updatedUser.onboardComplete)
+            onboardComplete: Boolean(updatedUser.onboardComplete),
+            rolloverPolicies: updatedUser.rolloverPolicies || {},
+            bucketAlerts: updatedUser.bucketAlerts || {}
         });
 
     } catch (err) {
@@ -452,91 +1458,397 @@ app.put('/api/profile', authMiddleware, async (req, res) => {
 });
 
 // simulate / distribute
-app.post('/api/simulate-distribute', authMiddleware, async (req, res) => {
+app.post('/api/simulate-distribute', authMiddleware, authorize('budget'), async (req, res) => {
     try {
         const { salary: inputSalary, splits: inputSplits, preset: splitPreset, month, extraIncome } = req.body;
         const salary = Number(inputSalary ?? req.user.salary ?? 0);
-        const splits = inputSplits || req.user.splits;
+        const splits = inputSplits || toPlain(req.user.splits);
         const preset = splitPreset || req.user.preset;
 
         const sum = Object.values(splits).reduce((a, b) => a + Number(b || 0), 0);
         if (sum !== 100) return res.status(400).json({ message: 'Splits must sum to 100' });
 
-        const targetMonth = month || req.user.startMonth || new Date().toISOString().slice(0, 7);
+        const schedule = parsePaySchedule(req.body, req.user);
+        if (schedule.error) return res.status(400).json({ message: schedule.error });
+
+        const startDay = req.user.cycleStartDay || 1;
+        const targetMonth = month || req.user.startMonth || currentMonthKey(startDay);
         if (!validateMonthFormat(targetMonth)) return res.status(400).json({ message: 'month must be in YYYY-MM format' });
 
         if (req.user.salaryLockedMonth && req.user.salaryLockedMonth === targetMonth) {
             return res.status(409).json({ message: `Salary distribution for ${targetMonth} is locked and cannot be overwritten` });
         }
 
-        const totalSalaryForMonth = salary + Number(extraIncome || 0);
-        const distributed = computeDistribution(totalSalaryForMonth, splits, 0);
+        const { monthlyPay, payEvents, distribution: distributed } = distributeForMonth({
+            salary, frequency: schedule.frequency, anchorDate: schedule.anchorDate,
+            splits, extraIncome: Number(extraIncome || 0), month: targetMonth, startDay
+        });
+        const totalSalaryForMonth = monthlyPay + Number(extraIncome || 0);
 
-        const update = { $set: { distribution: distributed } };
-        await User.findByIdAndUpdate(req.user._id, update, { new: true });
+        const snapshot = buildMonthSnapshot({
+            salary: monthlyPay, extraIncome, splits, preset, distribution: distributed,
+            carriedOver: (getMonthSnapshot(req.user, targetMonth) || {}).carriedOver,
+            salaryFrequency: schedule.frequency, payEvents
+        });
+        const update = { $set: { distribution: distributed, [`distributionByMonth.${targetMonth}`]: snapshot } };
+        const updated = await User.findByIdAndUpdate(req.user._id, update, { new: true });
+        await recordAudit(req, {
+            action: 'distribution.update',
+            ...auditDiff(req.user, updated, ['distribution']),
+            meta: { month: targetMonth, salary: totalSalaryForMonth }
+        });
 
-        res.json({ salary: totalSalaryForMonth, distribution: distributed, month: targetMonth, preset });
+        res.json({ salary: totalSalaryForMonth, distribution: distributed, month: targetMonth, preset, payEvents });
     } catch (err) {
         console.error('simulate error', err);
         res.status(500).json({ message: 'Server error' });
     }
 });
 
-// GET /api/transactions
-app.get("/api/transactions", authMiddleware, async (req, res) => {
+// preview of the next automated cycle; unsaved onboarding values (payday, cycle start day, salary,
+// schedule, splits) override the stored ones so the page can show the effect before saving
+app.post('/api/automation/preview', authMiddleware, authorize('read'), async (req, res) => {
     try {
-        const userId = req.user.id;
-        const limitParam = parseInt(req.query.limit, 10);
-        const limit = Number.isNaN(limitParam) ? 5 : limitParam;
+        let payday = req.user.payday;
+        if (typeof req.body.payday !== 'undefined') {
+            const parsed = parsePayday(req.body.payday);
+            if (parsed.error) return res.status(400).json({ message: parsed.error });
+            payday = parsed.payday;
+        }
+        let startDay = req.user.cycleStartDay || 1;
+        if (typeof req.body.cycleStartDay !== 'undefined') {
+            const parsed = parseCycleStartDay(req.body.cycleStartDay);
+            if (parsed.error) return res.status(400).json({ message: parsed.error });
+            startDay = parsed.cycleStartDay;
+        }
+        const schedule = parsePaySchedule(req.body, req.user);
+        if (schedule.error) return res.status(400).json({ message: schedule.error });
 
-        const query = { userId };
-        let txns;
-        if (limit === 0) {
-            txns = await Transaction.find(query).sort({ createdAt: -1 }).lean();
-        } else {
-            txns = await Transaction.find(query).sort({ createdAt: -1 }).limit(limit).lean();
+        const salary = Number(req.body.salary ?? req.user.salary ?? 0);
+        const splits = req.body.splits || toPlain(req.user.splits);
+        const sum = Object.values(splits).reduce((a, b) => a + Number(b || 0), 0);
+        if (sum !== 100) return res.status(400).json({ message: 'Splits must sum to 100' });
+
+        // a user switching automation on now starts from the next payday (see PUT /api/profile)
+        let lastAutomatedMonth = req.user.lastAutomatedMonth || '';
+        if (!req.user.automate) {
+            const due = dueAutomationMonth(payday, startDay);
+            if (due && due > lastAutomatedMonth) lastAutomatedMonth = due;
         }
+        const { month, runAt } = nextAutomationRun(payday, lastAutomatedMonth, startDay);
+        const { monthlyPay, payEvents, distribution } = distributeForMonth({
+            salary, frequency: schedule.frequency, anchorDate: schedule.anchorDate, splits, month, startDay
+        });
 
-        return res.json({ transactions: txns });
+        res.json({ month, runAt, salary: monthlyPay, distribution, payEvents });
     } catch (err) {
-        console.error("GET /api/transactions failed:", err);
-        return res.status(500).json({ error: "Failed to fetch transactions" });
+        console.error('automation preview error', err);
+        res.status(500).json({ message: 'Server error' });
+    }
+});
+
+// GET /api/balances?month=YYYY-MM — allocation, spent and remaining per bucket over the budget period
+app.get('/api/balances', authMiddleware, authorize('read'), async (req, res) => {
+    try {
+        const month = req.query.month || currentMonthKey(req.user.cycleStartDay);
+        if (!validateMonthFormat(month)) return res.status(400).json({ error: 'month must be in YYYY-MM format' });
+
+        const balances = await computeBalances(req.user, month);
+        return res.json(balances);
+    } catch (err) {
+        console.error("GET /api/balances failed:", err);
+        return res.status(500).json({ error: "Failed to compute balances" });
+    }
+});
+
+// GET /api/months — every period with an allocation snapshot or spends, newest first
+app.get('/api/months', authMiddleware, authorize('read'), async (req, res) => {
+    try {
+        const user = req.user;
+        const startDay = user.cycleStartDay || 1;
+        // same shift as periodKeyOf: a date belongs to the period of the month it lands in startDay - 1 days earlier
+        const periodOf = field => ({
+            $dateToString: { format: '%Y-%m', date: { $subtract: [field, (startDay - 1) * DAY_MS] } }
+        });
+        const spentRows = await Transaction.aggregate([
+            { $match: { userId: user._id } },
+            { $addFields: { when: { $ifNull: ['$occurredAt', '$createdAt'] } } },
+            { $group: { _id: periodOf('$when'), total: { $sum: '$amount' } } }
+        ]);
+        const spentByMonth = {};
+        spentRows.forEach(r => { spentByMonth[r._id] = r.total; });
+
+        const incomeRows = await Income.aggregate([
+            { $match: { userId: user._id } },
+            { $group: { _id: periodOf('$receivedAt'), total: { $sum: '$amount' } } }
+        ]);
+        const incomeByMonth = {};
+        incomeRows.forEach(r => { incomeByMonth[r._id] = r.total; });
+
+        const keys = new Set([
+            currentMonthKey(startDay), ...Object.keys(toPlain(user.distributionByMonth)),
+            ...Object.keys(spentByMonth), ...Object.keys(incomeByMonth)
+        ]);
+        const months = [...keys].filter(validateMonthFormat).sort().reverse().map(month => {
+            const snapshot = getMonthSnapshot(user, month);
+            const sumOf = obj => Object.values(obj).reduce((a, b) => a + Number(b || 0), 0);
+            const allocated = sumOf(allocationForMonth(user, month)) + Number(incomeByMonth[month] || 0);
+            const carriedOver = snapshot ? sumOf(toPlain(snapshot.carriedOver)) : 0;
+            const spent = Number(spentByMonth[month] || 0);
+            return {
+                month, period: monthRange(month, startDay), allocated, carriedOver, spent,
+                remaining: allocated + carriedOver - spent, hasSnapshot: Boolean(snapshot)
+            };
+        });
+
+        return res.json({ months, cycleStartDay: startDay });
+    } catch (err) {
+        console.error("GET /api/months failed:", err);
+        return res.status(500).json({ error: "Failed to list months" });
+    }
+});
+
+// GET /api/months/:month — the month's allocation snapshot with spend and remaining per bucket
+app.get('/api/months/:month', authMiddleware, authorize('read'), async (req, res) => {
+    try {
+        const { month } = req.params;
+        if (!validateMonthFormat(month)) return res.status(400).json({ error: 'month must be in YYYY-MM format' });
+
+        const snapshot = getMonthSnapshot(req.user, month);
+        const balances = await computeBalances(req.user, month);
+        // the current month without a snapshot yet is projected from the saved pay schedule
+        const projected = !snapshot && month === currentMonthKey(req.user.cycleStartDay)
+            ? distributeForMonth({
+                salary: req.user.salary, frequency: req.user.salaryFrequency, anchorDate: req.user.payAnchorDate,
+                splits: toPlain(req.user.splits), month, startDay: req.user.cycleStartDay || 1
+            })
+            : null;
+        return res.json({
+            ...balances,
+            salary: snapshot ? snapshot.salary : (projected ? projected.monthlyPay : null),
+            salaryFrequency: snapshot ? (snapshot.salaryFrequency || 'monthly') : (req.user.salaryFrequency || 'monthly'),
+            payEvents: snapshot ? (snapshot.payEvents || []) : (projected ? projected.payEvents : []),
+            extraIncome: snapshot ? Number(snapshot.extraIncome || 0) : 0,
+            splits: snapshot ? snapshot.splits : null,
+            preset: snapshot ? snapshot.preset : null,
+            hasSnapshot: Boolean(snapshot)
+        });
+    } catch (err) {
+        console.error("GET /api/months/:month failed:", err);
+        return res.status(500).json({ error: "Failed to load month" });
+    }
+});
+
+// GET /api/transactions
+// query: from, to (YYYY-MM budget period or date), bucket, category, minAmount, maxAmount, q (category/notes search),
+// sort (date_desc|date_asc|amount_desc|amount_asc), limit (0 = everything) and cursor (from nextCursor).
+// scope=household lists every member's spends from the household's shared buckets instead of the user's own.
+app.get("/api/transactions", authMiddleware, authorize('read'), async (req, res) => {
+    try {
+        const userId = req.user._id;
+        const limitParam = parseInt(req.query.limit, 10);
+        const limit = Number.isNaN(limitParam) ? 5 : Math.max(0, limitParam);
+
+        // the household's spends go by the owner's periods, like GET /api/household/summary
+        const shared = req.query.scope === 'household';
+        const startDay = (shared ? req.budgetOwner : req.user).cycleStartDay || 1;
+        const built = buildTxnQuery(userId, req.query, startDay);
+        if (built.error) return res.status(400).json({ error: built.error });
+        const { filter, sort: { field, dir } } = built;
+        if (shared) {
+            const household = await householdOf(userId).select('_id').lean();
+            if (!household) return res.status(404).json({ error: 'You are not in a household' });
+            delete filter.userId;
+            filter.householdId = household._id;
+        }
+
+        let pageFilter = filter;
+        if (req.query.cursor) {
+            const cursor = decodeCursor(req.query.cursor, field);
+            if (!cursor) return res.status(400).json({ error: 'Invalid cursor' });
+            const op = dir === -1 ? '$lt' : '$gt';
+            pageFilter = {
+                ...filter,
+                $and: [{ $or: [{ [field]: { [op]: cursor.v } }, { [field]: cursor.v, _id: { [op]: cursor.id } }] }]
+            };
+        }
+
+        // fetch one extra row to know whether there is a next page
+        let findQuery = Transaction.find(pageFilter).sort({ [field]: dir, _id: dir });
+        if (limit > 0) findQuery = findQuery.limit(limit + 1);
+
+        const [rows, total, sums] = await Promise.all([
+            findQuery.lean(),
+            Transaction.countDocuments(filter),
+            Transaction.aggregate([{ $match: filter }, { $group: { _id: null, total: { $sum: '$amount' } } }])
+        ]);
+
+        const hasMore = limit > 0 && rows.length > limit;
+        const txns = hasMore ? rows.slice(0, limit) : rows;
+
+        return res.json({
+            transactions: txns,
+            nextCursor: hasMore ? encodeCursor(txns[txns.length - 1], field) : null,
+            total,
+            totalAmount: sums.length ? sums[0].total : 0
+        });
+    } catch (err) {
+        console.error("GET /api/transactions failed:", err);
+        return res.status(500).json({ error: "Failed to fetch transactions" });
     }
 });
 
 // POST /api/transactions
-app.post('/api/transactions', authMiddleware, async (req, res) => {
+// Without a bucket (or category) the categorization rules fill them in from the notes, amount and
+// payment method; a missing bucket nothing matches is still a 400.
+// With a `currency` other than the home one, `amount` is in that currency and is converted with
+// `fxRate` or the rates table; the original amount is kept on the transaction.
+app.post('/api/transactions', authMiddleware, authorize('spend'), async (req, res) => {
     try {
         const user = req.user;
         if (!user) return res.status(401).json({ error: 'Unauthorized' });
 
-        const { bucket, category, amount } = req.body;
-        const amt = Number(amount || 0);
-        if (!bucket || !amt || amt <= 0) return res.status(400).json({ error: 'Invalid payload' });
+        let { bucket, category } = req.body;
+        const rawAmount = Number(req.body.amount || 0);
+        if (!rawAmount || rawAmount <= 0) return res.status(400).json({ error: 'Invalid payload' });
 
-        const txn = await Transaction.create({ userId: user._id, bucket, category, amount: amt });
+        const details = parseTxnDetails(req.body);
+        if (details.error) return res.status(400).json({ error: details.error });
 
-        const u = await User.findById(user._id);
-        if (u) {
-            const dist = (u.distribution && typeof u.distribution === 'object') ? u.distribution : null;
-            if (dist && dist[bucket] !== undefined) {
-                const prev = Number(dist[bucket] || 0);
-                const next = Math.max(0, prev - amt);
-                u.distribution = Object.assign({}, dist, { [bucket]: next });
-                await u.save();
+        const money = await resolveSpendAmount(user, {
+            amount: rawAmount, currency: req.body.currency, fxRate: req.body.fxRate, occurredAt: details.fields.occurredAt
+        });
+        if (money.error) return res.status(400).json({ error: money.error });
+        const amt = money.fields.amount;
+
+        let categorizedBy = null;
+        if (!bucket || !category) {
+            const suggestion = suggestCategory({
+                description: details.fields.notes, amount: amt, paymentMethod: details.fields.paymentMethod
+            }, await categorizationContext(user));
+            if (suggestion && (!bucket || suggestion.bucket === bucket)) {
+                bucket = suggestion.bucket;
+                category = category || suggestion.category || undefined;
+                categorizedBy = suggestion.source;
             }
         }
+        if (!bucket) return res.status(400).json({ error: 'Invalid payload' });
+        if (!bucketsFor(user).some(b => b.key === bucket)) return res.status(400).json({ error: `Unknown bucket "${bucket}"` });
+        if (details.fields.goalId) {
+            const goalError = await checkGoalTag(user._id, details.fields.goalId, bucket);
+            if (goalError) return res.status(400).json({ error: goalError });
+        }
+        if (details.fields.dependentId && !(await Dependent.exists({ _id: details.fields.dependentId, userId: user._id }))) {
+            return res.status(400).json({ error: 'Dependent not found' });
+        }
+        if (details.fields.dependentId && bucket !== DEPENDENTS_BUCKET) {
+            return res.status(400).json({ error: `Transfers to dependents come out of ${DEPENDENTS_BUCKET}` });
+        }
+
+        const blocked = await checkOverspendBlock(user, { bucket, amount: amt, occurredAt: details.fields.occurredAt });
+        if (blocked) return res.status(409).json({ error: blocked, code: 'OVERSPEND_BLOCKED' });
+
+        // distribution is the allocation; balances are derived from the ledger (GET /api/balances)
+        const txn = await Transaction.create({
+            userId: user._id, bucket, category, ...money.fields, ...details.fields,
+            householdId: await householdIdFor(user._id, bucket)
+        });
+        const alerts = await evaluateBucketAlerts(user, txn);
 
-        const txns = await Transaction.find({ userId: user._id }).sort({ createdAt: -1 }).limit(5).lean();
-        return res.json({ transaction: txn, transactions: txns });
+        const txns = await Transaction.find({ userId: user._id }).sort({ occurredAt: -1, createdAt: -1 }).limit(5).lean();
+        return res.json({ transaction: txn, transactions: txns, alerts, categorizedBy });
     } catch (err) {
         console.error(err);
         return res.status(500).json({ error: 'Server error' });
     }
 });
 
+// PUT/PATCH /api/transactions/:id — edit amount, currency, fxRate, bucket, category, date, notes or payment method.
+// Bucket balances follow automatically since they are computed from the ledger. `amount` is in the
+// spend's own currency; changing the currency or date without an fxRate looks the rate up again.
+async function updateTransaction(req, res) {
+    try {
+        const { id } = req.params;
+        const userId = req.user.id;
+
+        if (!mongoose.Types.ObjectId.isValid(id)) {
+            return res.status(400).json({ error: "Invalid transaction ID" });
+        }
+
+        const txn = await Transaction.findOne({ _id: id, userId });
+        if (!txn) {
+            return res.status(404).json({ error: "Transaction not found or unauthorized" });
+        }
+
+        const { bucket, category, amount, currency, fxRate } = req.body;
+        const previous = { bucket: txn.bucket, amount: txn.amount, occurredAt: txn.occurredAt, createdAt: txn.createdAt };
+        const original = txn.toObject();
+        if (typeof bucket !== 'undefined') {
+            if (!bucket) return res.status(400).json({ error: 'Invalid bucket' });
+            if (!bucketsFor(req.user).some(b => b.key === bucket)) return res.status(400).json({ error: `Unknown bucket "${bucket}"` });
+            if (bucket !== txn.bucket) txn.householdId = await householdIdFor(txn.userId, bucket);
+            txn.bucket = bucket;
+        }
+        if (typeof category !== 'undefined') {
+            txn.category = category || undefined;
+        }
+
+        const details = parseTxnDetails(req.body);
+        if (details.error) return res.status(400).json({ error: details.error });
+        // re-checked when either side of the tag changes
+        const goalId = typeof details.fields.goalId !== 'undefined' ? details.fields.goalId : txn.goalId;
+        if (goalId && (typeof details.fields.goalId !== 'undefined' || typeof bucket !== 'undefined')) {
+            const goalError = await checkGoalTag(userId, goalId, txn.bucket);
+            if (goalError) return res.status(400).json({ error: goalError });
+        }
+        if (details.fields.dependentId && !(await Dependent.exists({ _id: details.fields.dependentId, userId }))) {
+            return res.status(400).json({ error: 'Dependent not found' });
+        }
+        const dependentId = typeof details.fields.dependentId !== 'undefined' ? details.fields.dependentId : txn.dependentId;
+        if (dependentId && txn.bucket !== DEPENDENTS_BUCKET
+            && (typeof details.fields.dependentId !== 'undefined' || typeof bucket !== 'undefined')) {
+            return res.status(400).json({ error: `Transfers to dependents come out of ${DEPENDENTS_BUCKET}` });
+        }
+        const dateChanged = details.fields.occurredAt && txn.originalCurrency
+            && details.fields.occurredAt.getTime() !== (txn.occurredAt || txn.createdAt).getTime();
+        Object.assign(txn, details.fields);
+
+        if ([amount, currency, fxRate].some(v => typeof v !== 'undefined') || dateChanged) {
+            const nextCurrency = typeof currency !== 'undefined' ? currency : txn.originalCurrency;
+            const sameCurrency = (parseCurrencyCode(nextCurrency) || homeCurrencyOf(req.user)) === (txn.originalCurrency || homeCurrencyOf(req.user));
+            const money = await resolveSpendAmount(req.user, {
+                amount: typeof amount !== 'undefined' ? amount : (txn.originalAmount ?? txn.amount),
+                currency: nextCurrency,
+                // keep the rate the spend was booked at unless the currency or day changed
+                fxRate: typeof fxRate !== 'undefined' ? fxRate : (sameCurrency && !dateChanged ? txn.fxRate : undefined),
+                occurredAt: txn.occurredAt || txn.createdAt
+            });
+            if (money.error) return res.status(400).json({ error: money.error });
+            Object.assign(txn, money.fields);
+        }
+
+        const blocked = await checkOverspendBlock(req.user, {
+            bucket: txn.bucket, amount: txn.amount, occurredAt: txn.occurredAt || txn.createdAt
+        }, previous);
+        if (blocked) return res.status(409).json({ error: blocked, code: 'OVERSPEND_BLOCKED' });
+
+        await txn.save();
+        const changes = auditDiff(original, txn, AUDITED_TXN_FIELDS);
+        if (changes) await recordAudit(req, { action: 'transaction.update', targetId: txn._id, ...changes });
+        const alerts = await evaluateBucketAlerts(req.user, txn);
+
+        return res.json({ transaction: txn, alerts });
+    } catch (err) {
+        console.error("PUT /api/transactions/:id failed:", err);
+        return res.status(500).json({ error: "Server error while updating transaction" });
+    }
+}
+
+app.put("/api/transactions/:id", authMiddleware, authorize('budget'), updateTransaction);
+app.patch("/api/transactions/:id", authMiddleware, authorize('budget'), updateTransaction);
+
 // DELETE /api/transactions/:id
-app.delete("/api/transactions/:id", authMiddleware, async (req, res) => {
+app.delete("/api/transactions/:id", authMiddleware, authorize('budget'), async (req, res) => {
     try {
         const { id } = req.params;
         const userId = req.user.id;
@@ -551,6 +1863,11 @@ app.delete("/api/transactions/:id", authMiddleware, async (req, res) => {
         }
 
         await txn.deleteOne();
+        await recordAudit(req, {
+            action: 'transaction.delete',
+            targetId: txn._id,
+            before: Object.fromEntries(AUDITED_TXN_FIELDS.map(f => [f, typeof txn[f] === 'undefined' ? null : txn[f]]))
+        });
 
         return res.status(200).json({ message: "Transaction deleted successfully" });
     } catch (err) {
@@ -559,22 +1876,1573 @@ app.delete("/api/transactions/:id", authMiddleware, async (req, res) => {
     }
 });
 
-// change password
-app.post("/api/auth/change-password", authMiddleware, async (req, res) => {
+// ----- Categorization rules (user rules, then past spends, then built-in keywords) -----
+
+// Built-in keyword rules, the last resort when neither the user's rules nor their history match.
+// Rules pointing at a bucket the user doesn't have are ignored.
+const KEYWORD_RULES = [
+    { match: /\brent\b/i, bucket: 'needs', category: 'Rent' },
+    { match: /electricity|bescom|tneb|msedcl|tata power|adani/i, bucket: 'needs', category: 'Electricity bill' },
+    { match: /water|jal board/i, bucket: 'needs', category: 'Water bill' },
+    { match: /petrol|fuel|hpcl|bpcl|iocl|uber|\bola\b|rapido|metro/i, bucket: 'needs', category: 'Fuel/Commuting cost' },
+    { match: /swiggy|zomato|restaurant|cafe/i, bucket: 'wants', category: 'Dinner out' },
+    { match: /netflix|spotify|prime video|hotstar|youtube/i, bucket: 'wants', category: 'Subscriptions' },
+    { match: /amazon|flipkart|myntra|ajio/i, bucket: 'wants', category: 'Shopping' },
+    { match: /\bsip\b|mutual fund|zerodha|groww|kuvera/i, bucket: 'savings', category: 'SIP' },
+    { match: /recurring deposit|\brd\b/i, bucket: 'savings', category: 'RD' },
+    { match: /fixed deposit|\bfd\b/i, bucket: 'savings', category: 'FD' }
+];
+
+// Lowercased description without reference numbers, so "UPI/4021337/SWIGGY" matches "UPI/5519020/SWIGGY"
+function normalizeDescription(text) {
+    return String(text || '').toLowerCase().replace(/\d{4,}/g, ' ').replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// Validates a rule payload (POST / PUT /api/rules). Returns { error } or { fields } holding only the keys
+// that were provided; with `required` (creation) bucket must be present.
+function parseRule(body, user, { required = false } = {}) {
+    const { contains, minAmount, maxAmount, paymentMethod, bucket, category, enabled } = body;
+    const fields = {};
+
+    if (typeof contains !== 'undefined') fields.contains = String(contains || '').trim().slice(0, 100);
+    for (const [key, value] of [['minAmount', minAmount], ['maxAmount', maxAmount]]) {
+        if (typeof value === 'undefined') continue;
+        if (value === null || value === '') {
+            fields[key] = null;
+            continue;
+        }
+        const amt = Number(value);
+        if (!Number.isFinite(amt) || amt < 0) return { error: `Invalid ${key}` };
+        fields[key] = amt;
+    }
+    if (typeof paymentMethod !== 'undefined') {
+        if (paymentMethod && !Transaction.PAYMENT_METHODS.includes(paymentMethod)) {
+            return { error: `paymentMethod must be one of ${Transaction.PAYMENT_METHODS.join(', ')}` };
+        }
+        fields.paymentMethod = paymentMethod || null;
+    }
+    if (required || typeof bucket !== 'undefined') {
+        if (!bucketsFor(user).some(b => b.key === bucket)) return { error: `Unknown bucket "${bucket}"` };
+        fields.bucket = bucket;
+    }
+    if (typeof category !== 'undefined') fields.category = String(category || '').trim().slice(0, 60);
+    if (typeof enabled !== 'undefined') fields.enabled = Boolean(enabled);
+
+    if (required && !fields.contains && fields.minAmount == null && fields.maxAmount == null && !fields.paymentMethod) {
+        return { error: 'Give the rule at least one condition' };
+    }
+    if (fields.minAmount != null && fields.maxAmount != null && fields.minAmount > fields.maxAmount) {
+        return { error: 'minAmount must not exceed maxAmount' };
+    }
+    return { fields };
+}
+
+// First enabled rule the spend satisfies; rules come oldest first
+function matchRule(rules, { description, amount, paymentMethod }) {
+    const text = normalizeDescription(description);
+    const amt = Number(amount);
+    return rules.find(r => {
+        if (!r.enabled) return false;
+        if (r.contains && !text.includes(normalizeDescription(r.contains))) return false;
+        if (r.minAmount != null && !(amt >= r.minAmount)) return false;
+        if (r.maxAmount != null && !(amt <= r.maxAmount)) return false;
+        if (r.paymentMethod && r.paymentMethod !== paymentMethod) return false;
+        return true;
+    }) || null;
+}
+
+// Past spends keyed by normalized notes (most recent wins)
+async function categoryHistory(userId) {
+    const txns = await Transaction.find({ userId, notes: { $nin: ['', null] } })
+        .sort({ occurredAt: -1 }).limit(2000).select('notes bucket category').lean();
+    const history = new Map();
+    for (const t of txns) {
+        const key = normalizeDescription(t.notes);
+        if (key && !history.has(key)) history.set(key, { bucket: t.bucket, category: t.category || '' });
+    }
+    return history;
+}
+
+// Everything suggestCategory needs, loaded once per request
+async function categorizationContext(user) {
+    const [rules, history] = await Promise.all([
+        CategoryRule.find({ userId: user._id }).sort({ createdAt: 1 }).lean(),
+        categoryHistory(user._id)
+    ]);
+    return { rules, history, bucketKeys: bucketsFor(user).map(b => b.key) };
+}
+
+// Bucket/category for a spend: the user's first matching rule, else their latest spend with the same
+// description, else a keyword rule. null when nothing applies.
+function suggestCategory(spend, { rules, history, bucketKeys }) {
+    const rule = matchRule(rules, spend);
+    if (rule && bucketKeys.includes(rule.bucket)) {
+        return { bucket: rule.bucket, category: rule.category || '', source: 'rule', ruleId: rule._id };
+    }
+    const past = history.get(normalizeDescription(spend.description));
+    if (past && bucketKeys.includes(past.bucket)) return { ...past, source: 'history' };
+    const keyword = KEYWORD_RULES.find(r => r.match.test(spend.description || '') && bucketKeys.includes(r.bucket));
+    return keyword ? { bucket: keyword.bucket, category: keyword.category, source: 'keyword' } : null;
+}
+
+// payment rails and statement boilerplate that say nothing about the merchant
+const DESCRIPTION_NOISE = new Set(['upi', 'pos', 'neft', 'imps', 'rtgs', 'ach', 'nach', 'atm', 'vpa', 'p2m', 'p2a', 'to', 'payment', 'txn']);
+
+// Rules worth adding, learnt from the last year of spends: descriptions seen at least 3 times that
+// were filed under the same bucket/category at least 80% of the time and no rule covers yet.
+// Also returns the categories used per bucket, most used first, for the category autocomplete.
+async function learnFromHistory(userId, rules) {
+    const since = new Date(Date.now() - 365 * DAY_MS);
+    const txns = await Transaction.find({ userId, occurredAt: { $gte: since } })
+        .select('notes bucket category').lean();
+
+    const byDescription = new Map();
+    const usage = new Map();
+    for (const t of txns) {
+        if (t.category) {
+            const k = `${t.bucket}|${t.category}`;
+            usage.set(k, (usage.get(k) || 0) + 1);
+        }
+        const key = normalizeDescription(t.notes).split(' ').filter(w => !DESCRIPTION_NOISE.has(w)).join(' ');
+        if (!key) continue;
+        const counts = byDescription.get(key) || new Map();
+        const target = `${t.bucket}|${t.category || ''}`;
+        counts.set(target, (counts.get(target) || 0) + 1);
+        byDescription.set(key, counts);
+    }
+
+    const suggestions = [];
+    for (const [key, counts] of byDescription) {
+        const total = [...counts.values()].reduce((a, n) => a + n, 0);
+        const [target, n] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+        if (total < 3 || n / total < 0.8) continue;
+        if (rules.some(r => r.contains && key.includes(normalizeDescription(r.contains)))) continue;
+        const [bucket, category] = target.split('|');
+        suggestions.push({ contains: key, bucket, category, count: total });
+    }
+    suggestions.sort((a, b) => b.count - a.count);
+
+    const categories = {};
+    for (const [k, n] of [...usage.entries()].sort((a, b) => b[1] - a[1])) {
+        const [bucket, category] = k.split('|');
+        (categories[bucket] = categories[bucket] || []).push(category);
+    }
+    for (const r of rules) {
+        if (!r.category) continue;
+        const list = categories[r.bucket] = categories[r.bucket] || [];
+        if (!list.includes(r.category)) list.push(r.category);
+    }
+    return { suggestions: suggestions.slice(0, 20), categories };
+}
+
+// GET /api/rules — oldest first, the order they are tried in
+app.get('/api/rules', authMiddleware, authorize('read'), async (req, res) => {
     try {
-        const { currentPassword, newPassword } = req.body;
-        if (!currentPassword || !newPassword) return res.status(400).json({ message: "currentPassword and newPassword required" });
-        const user = await User.findById(req.user._id);
-        const ok = await bcrypt.compare(currentPassword, user.passwordHash);
-        if (!ok) return res.status(400).json({ message: "Current password is incorrect" });
-        const hash = await bcrypt.hash(newPassword, 10);
-        user.passwordHash = hash;
-        await user.save();
-        res.json({ ok: true });
+        const rules = await CategoryRule.find({ userId: req.user._id }).sort({ createdAt: 1 }).lean();
+        return res.json({ rules });
     } catch (err) {
-        console.error("change-password error", err);
-        res.status(500).json({ message: "Server error" });
+        console.error("GET /api/rules failed:", err);
+        return res.status(500).json({ error: 'Failed to load rules' });
+    }
+});
+
+// GET /api/rules/learned — rules suggested from past categorizations, plus categories used per bucket
+app.get('/api/rules/learned', authMiddleware, authorize('read'), async (req, res) => {
+    try {
+        const rules = await CategoryRule.find({ userId: req.user._id }).sort({ createdAt: 1 }).lean();
+        return res.json(await learnFromHistory(req.user._id, rules));
+    } catch (err) {
+        console.error("GET /api/rules/learned failed:", err);
+        return res.status(500).json({ error: 'Failed to load suggestions' });
+    }
+});
+
+// POST /api/rules/match { description, amount, paymentMethod } — what a spend would be filed under
+app.post('/api/rules/match', authMiddleware, authorize('read'), async (req, res) => {
+    try {
+        const { description, amount, paymentMethod } = req.body;
+        const ctx = await categorizationContext(req.user);
+        return res.json({ suggestion: suggestCategory({ description, amount, paymentMethod }, ctx) });
+    } catch (err) {
+        console.error("POST /api/rules/match failed:", err);
+        return res.status(500).json({ error: 'Failed to match rules' });
+    }
+});
+
+// POST /api/rules
+app.post('/api/rules', authMiddleware, authorize('budget'), async (req, res) => {
+    try {
+        const parsed = parseRule(req.body, req.user, { required: true });
+        if (parsed.error) return res.status(400).json({ error: parsed.error });
+        const rule = await CategoryRule.create({ userId: req.user._id, ...parsed.fields });
+        return res.status(201).json({ rule });
+    } catch (err) {
+        console.error("POST /api/rules failed:", err);
+        return res.status(500).json({ error: 'Failed to create rule' });
+    }
+});
+
+// PUT/PATCH /api/rules/:id
+async function updateRule(req, res) {
+    try {
+        const { id } = req.params;
+        if (!mongoose.Types.ObjectId.isValid(id)) return res.status(400).json({ error: 'Invalid rule ID' });
+        const parsed = parseRule(req.body, req.user);
+        if (parsed.error) return res.status(400).json({ error: parsed.error });
+
+        const rule = await CategoryRule.findOneAndUpdate(
+            { _id: id, userId: req.user._id },
+            { $set: parsed.fields },
+            { new: true }
+        );
+        if (!rule) return res.status(404).json({ error: 'Rule not found' });
+        return res.json({ rule });
+    } catch (err) {
+        console.error("PUT /api/rules/:id failed:", err);
+        return res.status(500).json({ error: 'Failed to update rule' });
+    }
+}
+
+app.put('/api/rules/:id', authMiddleware, authorize('budget'), updateRule);
+app.patch('/api/rules/:id', authMiddleware, authorize('budget'), updateRule);
+
+// DELETE /api/rules/:id — spends it filed keep their bucket and category
+app.delete('/api/rules/:id', authMiddleware, authorize('budget'), async (req, res) => {
+    try {
+        const { id } = req.params;
+        if (!mongoose.Types.ObjectId.isValid(id)) return res.status(400).json({ error: 'Invalid rule ID' });
+        const rule = await CategoryRule.findOneAndDelete({ _id: id, userId: req.user._id });
+        if (!rule) return res.status(404).json({ error: 'Rule not found' });
+        return res.json({ message: "Rule deleted successfully" });
+    } catch (err) {
+        console.error("DELETE /api/rules/:id failed:", err);
+        return res.status(500).json({ error: 'Failed to delete rule' });
+    }
+});
+
+// ----- Statement import (bank CSV rows mapped to date/description/amount on the client) -----
+
+const IMPORT_MAX_ROWS = 1000;
+
+// Validates one import row { date, description, amount, bucket?, category?, externalId?, paymentMethod? }.
+// Returns { error } or { row }.
+function parseImportRow(raw) {
+    if (!raw || typeof raw !== 'object') return { error: 'Invalid row' };
+    const occurredAt = new Date(raw.date);
+    if (!raw.date || Number.isNaN(occurredAt.getTime())) return { error: 'Invalid date' };
+    const amount = Math.round(Number(raw.amount) * 100) / 100;
+    if (!amount || amount <= 0) return { error: 'Invalid amount' };
+    if (raw.paymentMethod && !Transaction.PAYMENT_METHODS.includes(raw.paymentMethod)) {
+        return { error: `paymentMethod must be one of ${Transaction.PAYMENT_METHODS.join(', ')}` };
+    }
+    return {
+        row: {
+            occurredAt,
+            amount,
+            description: String(raw.description || '').trim().slice(0, 500),
+            bucket: raw.bucket || null,
+            category: raw.category ? String(raw.category).trim() : '',
+            externalId: raw.externalId ? String(raw.externalId).slice(0, 200) : null,
+            paymentMethod: raw.paymentMethod || null
+        }
+    };
+}
+
+// Sets row.importRef: a hash of the bank's own id for the line (OFX FITID, CAMT reference) when the
+// statement has one. Otherwise a hash of day, amount and description plus the line's position among
+// identical lines in the file, so two genuine identical spends on one day both import but a re-import
+// doesn't. A bank id repeated within the file marks the later rows as repeats.
+function assignImportRefs(rows) {
+    const seen = new Map();
+    const ids = new Set();
+    for (const row of rows) {
+        if (row.externalId) {
+            row.importRef = crypto.createHash('sha1').update(`id|${row.externalId}`).digest('hex');
+            row.repeat = ids.has(row.importRef);
+            ids.add(row.importRef);
+            continue;
+        }
+        const line = `${row.occurredAt.toISOString().slice(0, 10)}|${row.amount.toFixed(2)}|${normalizeDescription(row.description)}`;
+        const n = seen.get(line) || 0;
+        seen.set(line, n + 1);
+        row.importRef = crypto.createHash('sha1').update(`${line}|${n}`).digest('hex');
+    }
+    return rows;
+}
+
+// "day|amount" of spends logged by hand in the rows' date range: likely the same spend as a statement line
+async function manualSpendKeys(userId, rows) {
+    if (!rows.length) return new Set();
+    const times = rows.map(r => r.occurredAt.getTime());
+    const from = new Date(Math.min(...times) - DAY_MS);
+    const to = new Date(Math.max(...times) + DAY_MS);
+    const txns = await Transaction.find({ userId, importRef: { $exists: false }, occurredAt: { $gte: from, $lte: to } })
+        .select('occurredAt amount').lean();
+    return new Set(txns.map(t => `${t.occurredAt.toISOString().slice(0, 10)}|${Number(t.amount).toFixed(2)}`));
+}
+
+// POST /api/transactions/import { rows: [{ date, description, amount, bucket?, category?, externalId?, paymentMethod? }], dryRun }
+// Used for bank statements and for pasted bank SMS/UPI alerts (both parsed on the client).
+// With dryRun nothing is saved: every row comes back with a suggested bucket/category and a duplicate
+// status ('imported' = this statement line was imported before, 'possible' = a spend of that amount was
+// already logged by hand that day). Otherwise the rows are created, skipping already imported lines;
+// rows sent without a bucket are filed by the categorization rules when one applies.
+// The bank already paid these, so overspend blocking doesn't apply; alerts still fire.
+app.post('/api/transactions/import', authMiddleware, authorize('spend'), async (req, res) => {
+    try {
+        const user = req.user;
+        const { rows, dryRun } = req.body;
+        if (!Array.isArray(rows) || !rows.length) return res.status(400).json({ error: 'rows must be a non-empty array' });
+        if (rows.length > IMPORT_MAX_ROWS) {
+            return res.status(400).json({ error: `Import at most ${IMPORT_MAX_ROWS} rows at a time` });
+        }
+
+        const ctx = await categorizationContext(user);
+        const errors = [];
+        const valid = [];
+        rows.forEach((raw, index) => {
+            const { error, row } = parseImportRow(raw);
+            if (error) errors.push({ index, error });
+            else valid.push({ index, ...row });
+        });
+        assignImportRefs(valid);
+
+        const imported = new Set((await Transaction.find({
+            userId: user._id, importRef: { $in: valid.map(r => r.importRef) }
+        }).select('importRef').lean()).map(t => t.importRef));
+
+        if (dryRun) {
+            const manual = await manualSpendKeys(user._id, valid);
+            return res.json({
+                rows: valid.map(r => ({
+                    index: r.index,
+                    date: r.occurredAt,
+                    description: r.description,
+                    amount: r.amount,
+                    suggestion: suggestCategory(r, ctx),
+                    duplicate: r.repeat || imported.has(r.importRef)
+                        ? 'imported'
+                        : manual.has(`${r.occurredAt.toISOString().slice(0, 10)}|${r.amount.toFixed(2)}`) ? 'possible' : null
+                })),
+                errors
+            });
+        }
+
+        const skipped = [];
+        const docs = [];
+        for (const r of valid) {
+            if (!r.bucket) {
+                const suggestion = suggestCategory(r, ctx);
+                if (suggestion) Object.assign(r, { bucket: suggestion.bucket, category: r.category || suggestion.category });
+            }
+            if (r.repeat || imported.has(r.importRef)) {
+                skipped.push({ index: r.index, reason: 'imported' });
+            } else if (!ctx.bucketKeys.includes(r.bucket)) {
+                errors.push({ index: r.index, error: r.bucket ? 'Unknown bucket' : 'Pick a bucket' });
+            } else {
+                docs.push({
+                    userId: user._id, bucket: r.bucket, category: r.category || undefined, amount: r.amount,
+                    occurredAt: r.occurredAt, notes: r.description, paymentMethod: r.paymentMethod, importRef: r.importRef
+                });
+            }
+        }
+
+        let created = [];
+        if (docs.length) {
+            const household = await householdOf(user._id).select('_id sharedBuckets').lean();
+            docs.forEach(d => { d.householdId = household?.sharedBuckets.includes(d.bucket) ? household._id : null; });
+            try {
+                created = await Transaction.insertMany(docs, { ordered: false });
+            } catch (err) {
+                // lines a concurrent import of the same file got to first; the rest are still inserted
+                if (err.code !== 11000) throw err;
+                created = err.insertedDocs || [];
+            }
+        }
+
+        // one alert check per bucket and period is enough; the newest spend stands for the rest
+        const latest = new Map();
+        for (const txn of created) {
+            const key = `${txn.bucket}|${periodKeyOf(txn.occurredAt, user.cycleStartDay || 1)}`;
+            if (!latest.has(key) || latest.get(key).occurredAt < txn.occurredAt) latest.set(key, txn);
+        }
+        const alerts = [];
+        for (const txn of latest.values()) alerts.push(...(await evaluateBucketAlerts(user, txn)));
+
+        return res.json({ created: created.length, skipped, errors, alerts });
+    } catch (err) {
+        console.error("POST /api/transactions/import failed:", err);
+        return res.status(500).json({ error: 'Failed to import transactions' });
+    }
+});
+
+// ----- Currencies and FX rates (amounts are stored in the home currency, originals kept alongside) -----
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+const FX_IMPORT_MAX_ROWS = 5000;
+
+function homeCurrencyOf(user) {
+    return user.currency || 'INR';
+}
+
+function parseCurrencyCode(value) {
+    const code = String(value || '').trim().toUpperCase();
+    return CURRENCY_CODE.test(code) ? code : null;
+}
+
+// Validates one rate { currency, rate, date? } (date defaults to today). Returns { error } or { fields }
+// with the date truncated to its UTC day.
+function parseFxRate(body, user) {
+    const currency = parseCurrencyCode(body.currency);
+    if (!currency) return { error: 'currency must be a 3-letter code like USD' };
+    if (currency === homeCurrencyOf(user)) return { error: `Rates are to your home currency (${currency})` };
+    const rate = Number(body.rate);
+    if (!Number.isFinite(rate) || rate <= 0) return { error: 'rate must be a positive number' };
+    const when = body.date ? new Date(body.date) : new Date();
+    if (Number.isNaN(when.getTime())) return { error: 'Invalid date' };
+    const date = new Date(Date.UTC(when.getUTCFullYear(), when.getUTCMonth(), when.getUTCDate()));
+    return { fields: { currency, rate, date } };
+}
+
+// The latest saved rate for `currency` on or before `when`, falling back to the earliest one after it
+// (a spend logged before its first rate was added); null when the table has none.
+async function lookupFxRate(user, currency, when = new Date()) {
+    const filter = { userId: user._id, homeCurrency: homeCurrencyOf(user), currency };
+    const before = await FxRate.findOne({ ...filter, date: { $lte: when } }).sort({ date: -1 }).lean();
+    if (before) return before.rate;
+    const after = await FxRate.findOne(filter).sort({ date: 1 }).lean();
+    return after ? after.rate : null;
+}
+
+// Converts a spend of `amount` in `currency` (default: home) to the home currency, with `fxRate` when
+// given or the rates table otherwise. Returns { error } or { fields: { amount, originalAmount,
+// originalCurrency, fxRate } }; the original* fields are null for home-currency spends.
+async function resolveSpendAmount(user, { amount, currency, fxRate, occurredAt }) {
+    const original = Number(amount);
+    if (!original || original <= 0) return { error: 'Invalid amount' };
+    const home = homeCurrencyOf(user);
+    const code = currency ? parseCurrencyCode(currency) : home;
+    if (!code) return { error: 'currency must be a 3-letter code like USD' };
+    if (code === home) {
+        return { fields: { amount: original, originalAmount: null, originalCurrency: null, fxRate: null } };
+    }
+
+    let rate = null;
+    if (fxRate !== undefined && fxRate !== null && fxRate !== '') {
+        rate = Number(fxRate);
+        if (!Number.isFinite(rate) || rate <= 0) return { error: 'fxRate must be a positive number' };
+    } else {
+        rate = await lookupFxRate(user, code, occurredAt || new Date());
+        if (!rate) return { error: `No ${code} rate on file; add one in settings or send fxRate` };
+    }
+    return {
+        fields: {
+            amount: Math.round(original * rate * 100) / 100,
+            originalAmount: original,
+            originalCurrency: code,
+            fxRate: rate
+        }
+    };
+}
+
+// GET /api/fx-rates — the rates table, newest first, plus the latest rate per currency
+app.get('/api/fx-rates', authMiddleware, authorize('read'), async (req, res) => {
+    try {
+        const homeCurrency = homeCurrencyOf(req.user);
+        const rates = await FxRate.find({ userId: req.user._id, homeCurrency })
+            .sort({ date: -1, currency: 1 }).limit(1000).lean();
+        const latest = {};
+        for (const r of rates) {
+            if (!latest[r.currency]) latest[r.currency] = { rate: r.rate, date: r.date };
+        }
+        return res.json({ homeCurrency, rates, latest });
+    } catch (err) {
+        console.error("GET /api/fx-rates failed:", err);
+        return res.status(500).json({ error: 'Failed to load rates' });
+    }
+});
+
+// POST /api/fx-rates { currency, rate, date? } — adds the day's rate, replacing one saved for the same day
+app.post('/api/fx-rates', authMiddleware, authorize('budget'), async (req, res) => {
+    try {
+        const parsed = parseFxRate(req.body, req.user);
+        if (parsed.error) return res.status(400).json({ error: parsed.error });
+        const { currency, date, rate } = parsed.fields;
+        const homeCurrency = homeCurrencyOf(req.user);
+        const saved = await FxRate.findOneAndUpdate(
+            { userId: req.user._id, homeCurrency, currency, date },
+            { $set: { rate, source: 'manual' } },
+            { upsert: true, new: true, setDefaultsOnInsert: true }
+        );
+        return res.status(201).json({ rate: saved });
+    } catch (err) {
+        console.error("POST /api/fx-rates failed:", err);
+        return res.status(500).json({ error: 'Failed to save rate' });
+    }
+});
+
+// POST /api/fx-rates/import { rates: [{ currency, rate, date }] } — a rates file parsed on the client;
+// rows for a day already in the table replace it. Returns { saved, errors: [{ index, error }] }.
+app.post('/api/fx-rates/import', authMiddleware, authorize('budget'), async (req, res) => {
+    try {
+        const rows = req.body.rates;
+        if (!Array.isArray(rows) || !rows.length) return res.status(400).json({ error: 'rates must be a non-empty array' });
+        if (rows.length > FX_IMPORT_MAX_ROWS) {
+            return res.status(400).json({ error: `At most ${FX_IMPORT_MAX_ROWS} rates per import` });
+        }
+
+        const homeCurrency = homeCurrencyOf(req.user);
+        const errors = [];
+        const ops = [];
+        rows.forEach((raw, index) => {
+            const parsed = parseFxRate(raw || {}, req.user);
+            if (parsed.error) return errors.push({ index, error: parsed.error });
+            const { currency, date, rate } = parsed.fields;
+            ops.push({
+                updateOne: {
+                    filter: { userId: req.user._id, homeCurrency, currency, date },
+                    update: { $set: { rate, source: 'import' } },
+                    upsert: true
+                }
+            });
+        });
+        if (ops.length) await FxRate.bulkWrite(ops, { ordered: false });
+        return res.json({ saved: ops.length, errors });
+    } catch (err) {
+        console.error("POST /api/fx-rates/import failed:", err);
+        return res.status(500).json({ error: 'Failed to import rates' });
+    }
+});
+
+// DELETE /api/fx-rates/:id — spends already converted with it keep their amounts
+app.delete('/api/fx-rates/:id', authMiddleware, authorize('budget'), async (req, res) => {
+    try {
+        if (!mongoose.Types.ObjectId.isValid(req.params.id)) return res.status(400).json({ error: 'Invalid rate id' });
+        const removed = await FxRate.findOneAndDelete({ _id: req.params.id, userId: req.user._id });
+        if (!removed) return res.status(404).json({ error: 'Rate not found' });
+        return res.json({ ok: true });
+    } catch (err) {
+        console.error("DELETE /api/fx-rates/:id failed:", err);
+        return res.status(500).json({ error: 'Failed to delete rate' });
+    }
+});
+
+// ----- Households (members budgeting together; shared buckets are pooled) -----
+
+const HOUSEHOLD_MAX_MEMBERS = 8;
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function householdOf(userId) {
+    return Household.findOne({ 'members.userId': userId });
+}
+
+// The household to stamp on a spend from `bucket`: the user's, when it shares that bucket
+async function householdIdFor(userId, bucket) {
+    const household = await Household.findOne({ 'members.userId': userId, sharedBuckets: bucket }).select('_id').lean();
+    return household ? household._id : null;
+}
+
+// Stamps (or clears) householdId on every member's spends from the start of their current period,
+// so the household view of this period is complete after joining or changing the shared buckets.
+// Earlier spends are left as they were.
+async function restampHousehold(household) {
+    const users = await User.find({ _id: { $in: household.members.map(m => m.userId) } }).select('cycleStartDay').lean();
+    await Promise.all(users.map(u => {
+        const startDay = u.cycleStartDay || 1;
+        const since = monthRange(currentMonthKey(startDay), startDay).start;
+        const base = { userId: u._id, occurredAt: { $gte: since } };
+        return Promise.all([
+            Transaction.updateMany({ ...base, bucket: { $in: household.sharedBuckets } }, { $set: { householdId: household._id } }),
+            Transaction.updateMany({ ...base, householdId: household._id, bucket: { $nin: household.sharedBuckets } }, { $set: { householdId: null } })
+        ]);
+    }));
+}
+
+// What members see: names and emails instead of bare ids, plus the pending invites
+async function householdView(household) {
+    const users = await User.find({ _id: { $in: household.members.map(m => m.userId) } }).select('name email').lean();
+    const byId = new Map(users.map(u => [String(u._id), u]));
+    return {
+        _id: household._id,
+        name: household.name,
+        ownerId: household.ownerId,
+        sharedBuckets: household.sharedBuckets,
+        members: household.members.map(m => ({
+            userId: m.userId,
+            name: byId.get(String(m.userId))?.name || '',
+            email: byId.get(String(m.userId))?.email || '',
+            joinedAt: m.joinedAt,
+            isOwner: String(m.userId) === String(household.ownerId),
+            role: roleOf(household, m.userId)
+        })),
+        invites: household.invites.map(({ _id, email, role, createdAt }) => ({ _id, email, role, createdAt }))
+    };
+}
+
+// Validates a household payload (POST / PATCH /api/household). Shared buckets must be keys of the
+// user's buckets or already shared by another member. Returns { error } or { fields } holding only
+// the keys that were provided.
+function parseHousehold(body, user, { required = false, shared = [] } = {}) {
+    const fields = {};
+    if (required || typeof body.name !== 'undefined') {
+        const name = String(body.name || '').trim();
+        if (!name) return { error: 'Give the household a name' };
+        fields.name = name.slice(0, 60);
+    }
+    if (typeof body.sharedBuckets !== 'undefined') {
+        if (!Array.isArray(body.sharedBuckets)) return { error: 'sharedBuckets must be an array of bucket keys' };
+        const keys = [...bucketsFor(user).map(b => b.key), ...shared];
+        const unknown = body.sharedBuckets.filter(k => !keys.includes(k));
+        if (unknown.length) return { error: `Unknown bucket: ${unknown.join(', ')}` };
+        fields.sharedBuckets = [...new Set(body.sharedBuckets)];
+    }
+    return { fields };
+}
+
+// GET /api/household — the user's household (or null) and invitations addressed to their email
+app.get('/api/household', authMiddleware, authorize('read'), async (req, res) => {
+    try {
+        const household = await householdOf(req.user._id);
+        const invited = await Household.find({ 'invites.email': String(req.user.email).toLowerCase() }).lean();
+        const inviters = await User.find({ _id: { $in: invited.flatMap(h => h.invites.map(i => i.invitedBy)) } }).select('name').lean();
+        const invites = invited.flatMap(h => h.invites
+            .filter(i => i.email === String(req.user.email).toLowerCase())
+            .map(i => ({
+                _id: i._id,
+                householdName: h.name,
+                invitedBy: inviters.find(u => String(u._id) === String(i.invitedBy))?.name || '',
+                role: i.role,
+                createdAt: i.createdAt
+            })));
+        return res.json({ household: household ? await householdView(household) : null, invites });
+    } catch (err) {
+        console.error("GET /api/household failed:", err);
+        return res.status(500).json({ error: 'Failed to load household' });
+    }
+});
+
+// POST /api/household { name, sharedBuckets } — starts a household with the user as its owner
+app.post('/api/household', authMiddleware, authorize('read'), async (req, res) => {
+    try {
+        if (await householdOf(req.user._id)) return res.status(409).json({ error: 'You are already in a household' });
+        const parsed = parseHousehold(req.body, req.user, { required: true });
+        if (parsed.error) return res.status(400).json({ error: parsed.error });
+
+        const household = await Household.create({
+            sharedBuckets: [],
+            ...parsed.fields,
+            ownerId: req.user._id,
+            members: [{ userId: req.user._id, role: 'owner' }]
+        });
+        await restampHousehold(household);
+        return res.status(201).json({ household: await householdView(household) });
+    } catch (err) {
+        console.error("POST /api/household failed:", err);
+        return res.status(500).json({ error: 'Failed to create household' });
     }
 });
 
-app.listen(PORT, () => console.log(`Backend running on port ${PORT} (NODE_ENV=${NODE_ENV})`));
+// PATCH /api/household { name?, sharedBuckets? }
+app.patch('/api/household', authMiddleware, authorize('household'), async (req, res) => {
+    try {
+        const household = await householdOf(req.user._id);
+        if (!household) return res.status(404).json({ error: 'You are not in a household' });
+        const parsed = parseHousehold(req.body, req.user, { shared: household.sharedBuckets });
+        if (parsed.error) return res.status(400).json({ error: parsed.error });
+
+        Object.assign(household, parsed.fields);
+        await household.save();
+        if (parsed.fields.sharedBuckets) await restampHousehold(household);
+        return res.json({ household: await householdView(household) });
+    } catch (err) {
+        console.error("PATCH /api/household failed:", err);
+        return res.status(500).json({ error: 'Failed to update household' });
+    }
+});
+
+// roles the owner can hand out; ownership itself only moves through PATCH /api/household/members/:userId
+const MEMBER_ROLES = Household.ROLES.filter(r => r !== 'owner');
+
+// POST /api/household/invites { email, role? } — the invitee sees it in GET /api/household once signed in
+// and joins with `role` (default editor)
+app.post('/api/household/invites', authMiddleware, authorize('household'), async (req, res) => {
+    try {
+        const household = await householdOf(req.user._id);
+        if (!household) return res.status(404).json({ error: 'You are not in a household' });
+        const email = String(req.body.email || '').trim().toLowerCase();
+        if (!EMAIL_RE.test(email)) return res.status(400).json({ error: 'Enter a valid email' });
+        const role = req.body.role || 'editor';
+        if (!MEMBER_ROLES.includes(role)) return res.status(400).json({ error: `role must be one of ${MEMBER_ROLES.join(', ')}` });
+        if (household.invites.some(i => i.email === email)) return res.status(409).json({ error: 'Already invited' });
+        if (household.members.length + household.invites.length >= HOUSEHOLD_MAX_MEMBERS) {
+            return res.status(400).json({ error: `A household has at most ${HOUSEHOLD_MAX_MEMBERS} members` });
+        }
+        const invitee = await User.findOne({ email: new RegExp(`^${email.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, 'i') }).select('_id').lean();
+        if (invitee && household.members.some(m => String(m.userId) === String(invitee._id))) {
+            return res.status(409).json({ error: 'Already a member' });
+        }
+
+        household.invites.push({ email, role, invitedBy: req.user._id });
+        await household.save();
+        return res.status(201).json({ household: await householdView(household) });
+    } catch (err) {
+        console.error("POST /api/household/invites failed:", err);
+        return res.status(500).json({ error: 'Failed to invite' });
+    }
+});
+
+// POST /api/household/invites/:id/accept — joins the household the invitation is for
+app.post('/api/household/invites/:id/accept', authMiddleware, authorize('read'), async (req, res) => {
+    try {
+        if (!mongoose.Types.ObjectId.isValid(req.params.id)) return res.status(400).json({ error: 'Invalid invite id' });
+        if (await householdOf(req.user._id)) return res.status(409).json({ error: 'Leave your current household first' });
+        const email = String(req.user.email).toLowerCase();
+        const household = await Household.findOne({ invites: { $elemMatch: { _id: req.params.id, email } } });
+        if (!household) return res.status(404).json({ error: 'Invite not found' });
+
+        const invite = household.invites.find(i => String(i._id) === req.params.id);
+        household.invites = household.invites.filter(i => i !== invite);
+        household.members.push({ userId: req.user._id, role: invite.role });
+        await household.save();
+        await restampHousehold(household);
+        return res.json({ household: await householdView(household) });
+    } catch (err) {
+        console.error("POST /api/household/invites/:id/accept failed:", err);
+        return res.status(500).json({ error: 'Failed to join household' });
+    }
+});
+
+// DELETE /api/household/invites/:id — the invitee declines, or the owner cancels it
+app.delete('/api/household/invites/:id', authMiddleware, authorize('read'), async (req, res) => {
+    try {
+        if (!mongoose.Types.ObjectId.isValid(req.params.id)) return res.status(400).json({ error: 'Invalid invite id' });
+        const asInvitee = { invites: { $elemMatch: { _id: req.params.id, email: String(req.user.email).toLowerCase() } } };
+        const asManager = { 'invites._id': req.params.id, 'members.userId': req.user._id };
+        const result = await Household.updateOne(
+            Household.PERMISSIONS.household.includes(req.role) ? { $or: [asInvitee, asManager] } : asInvitee,
+            { $pull: { invites: { _id: req.params.id } } }
+        );
+        if (!result.modifiedCount) return res.status(404).json({ error: 'Invite not found' });
+        return res.json({ ok: true });
+    } catch (err) {
+        console.error("DELETE /api/household/invites/:id failed:", err);
+        return res.status(500).json({ error: 'Failed to remove invite' });
+    }
+});
+
+// PATCH /api/household/members/:userId { role } — the owner changes what a member may do. Making
+// someone else owner hands the household over; the previous owner stays on as an editor.
+app.patch('/api/household/members/:userId', authMiddleware, authorize('household'), async (req, res) => {
+    try {
+        const household = await householdOf(req.user._id);
+        if (!household) return res.status(404).json({ error: 'You are not in a household' });
+        const { role } = req.body;
+        if (!Household.ROLES.includes(role)) return res.status(400).json({ error: `role must be one of ${Household.ROLES.join(', ')}` });
+        const member = household.members.find(m => String(m.userId) === String(req.params.userId));
+        if (!member) return res.status(404).json({ error: 'Member not found' });
+        if (String(member.userId) === String(household.ownerId)) {
+            return res.status(400).json({ error: 'Make another member owner to change your own role' });
+        }
+
+        if (role === 'owner') {
+            household.members.forEach(m => { if (String(m.userId) === String(household.ownerId)) m.role = 'editor'; });
+            household.ownerId = member.userId;
+        }
+        member.role = role;
+        await household.save();
+        return res.json({ household: await householdView(household) });
+    } catch (err) {
+        console.error("PATCH /api/household/members/:userId failed:", err);
+        return res.status(500).json({ error: 'Failed to change role' });
+    }
+});
+
+// leaving needs no particular role; removing someone else is the owner's call
+function leaveOrManage(req) {
+    return req.params.userId === String(req.user._id) ? 'read' : 'household';
+}
+
+// DELETE /api/household/members/:userId — leave (your own id) or, for the owner, remove someone.
+// Their spends so far stay in the household's history. The last member out deletes the household.
+app.delete('/api/household/members/:userId', authMiddleware, authorize(leaveOrManage), async (req, res) => {
+    try {
+        const household = await householdOf(req.user._id);
+        if (!household) return res.status(404).json({ error: 'You are not in a household' });
+        const leaving = String(req.params.userId);
+        const self = leaving === String(req.user._id);
+        if (!household.members.some(m => String(m.userId) === leaving)) return res.status(404).json({ error: 'Member not found' });
+
+        household.members = household.members.filter(m => String(m.userId) !== leaving);
+        if (!household.members.length) {
+            await Household.deleteOne({ _id: household._id });
+            return res.json({ household: null });
+        }
+        // the longest-standing member takes over from an owner who leaves
+        if (String(household.ownerId) === leaving) {
+            household.ownerId = household.members[0].userId;
+            household.members[0].role = 'owner';
+        }
+        await household.save();
+        return res.json({ household: self ? null : await householdView(household) });
+    } catch (err) {
+        console.error("DELETE /api/household/members/:userId failed:", err);
+        return res.status(500).json({ error: 'Failed to remove member' });
+    }
+});
+
+// GET /api/household/summary?month=YYYY-MM — per shared bucket: every member's allocation for it
+// (plus carry-over) pooled, the household's spend in the period and each member's part of both.
+// The period and the bucket names follow the owner's budget, so every member sees the same figures.
+app.get('/api/household/summary', authMiddleware, authorize('read'), async (req, res) => {
+    try {
+        const household = await householdOf(req.user._id);
+        if (!household) return res.status(404).json({ error: 'You are not in a household' });
+        const startDay = req.budgetOwner.cycleStartDay || 1;
+        const month = req.query.month || currentMonthKey(startDay);
+        if (!validateMonthFormat(month)) return res.status(400).json({ error: 'month must be in YYYY-MM format' });
+        const period = monthRange(month, startDay);
+
+        const members = await User.find({ _id: { $in: household.members.map(m => m.userId) } });
+        const balances = await Promise.all(members.map(m => computeBalances(m, month)));
+        const spentRows = await Transaction.aggregate([
+            { $match: { householdId: household._id, occurredAt: { $gte: period.start, $lt: period.end } } },
+            { $group: { _id: { bucket: '$bucket', userId: '$userId' }, total: { $sum: '$amount' } } }
+        ]);
+
+        const names = bucketsFor(req.budgetOwner);
+        const buckets = household.sharedBuckets.map(key => {
+            const perMember = members.map((m, i) => ({
+                userId: m._id,
+                allocated: Number(balances[i].allocation[key] || 0) + Number(balances[i].carriedOver[key] || 0),
+                spent: spentRows.filter(r => r._id.bucket === key && String(r._id.userId) === String(m._id))
+                    .reduce((a, r) => a + r.total, 0)
+            }));
+            // spends by people who have since left still count against the bucket
+            const spent = spentRows.filter(r => r._id.bucket === key).reduce((a, r) => a + r.total, 0);
+            const allocated = perMember.reduce((a, m) => a + m.allocated, 0);
+            const meta = names.find(b => b.key === key) || { key, name: key, color: DEFAULT_BUCKET_COLOR, icon: '' };
+            return { ...meta, allocated, spent, remaining: allocated - spent, members: perMember };
+        });
+
+        const sumOf = field => buckets.reduce((a, b) => a + b[field], 0);
+        return res.json({
+            month, period, buckets,
+            totals: { allocated: sumOf('allocated'), spent: sumOf('spent'), remaining: sumOf('remaining') }
+        });
+    } catch (err) {
+        console.error("GET /api/household/summary failed:", err);
+        return res.status(500).json({ error: 'Failed to load household summary' });
+    }
+});
+
+// ----- Audit log (append-only record of profile, cycle, spend and password changes) -----
+
+// profile fields worth a before/after; bookkeeping like distributionByMonth is left out
+const AUDITED_PROFILE_FIELDS = [
+    'salary', 'salaryFrequency', 'payAnchorDate', 'cycleStartDay', 'splits', 'buckets', 'preset', 'automate',
+    'startMonth', 'salaryLockedMonth', 'activeTracking', 'payday', 'currency', 'locale', 'rolloverPolicies', 'bucketAlerts',
+    'distribution'
+];
+const AUDITED_TXN_FIELDS = [
+    'bucket', 'category', 'amount', 'originalAmount', 'originalCurrency', 'fxRate', 'occurredAt', 'notes',
+    'paymentMethod', 'goalId', 'dependentId'
+];
+
+// The fields among `fields` that differ between two snapshots (documents or lean objects), as
+// { before, after } holding only those (null when nothing changed). Compared and stored in their JSON
+// form, which also flattens Map fields like splits.
+function auditDiff(before, after, fields) {
+    const b = JSON.parse(JSON.stringify(before || {}));
+    const a = JSON.parse(JSON.stringify(after || {}));
+    const diff = { before: {}, after: {} };
+    fields.forEach(f => {
+        const was = typeof b[f] === 'undefined' ? null : b[f];
+        const now = typeof a[f] === 'undefined' ? null : a[f];
+        if (JSON.stringify(was) === JSON.stringify(now)) return;
+        diff.before[f] = was;
+        diff.after[f] = now;
+    });
+    return Object.keys(diff.after).length ? diff : null;
+}
+
+// Appends an entry for the request, or for a background job when `req` is null (no actor; `route`
+// names the job). Never fails what it records: a lost entry is logged instead.
+async function recordAudit(req, { userId, action, route, targetId = null, before = null, after = null, meta = null }) {
+    try {
+        const actor = req && req.user;
+        await AuditLog.create({
+            userId: userId || req.user._id,
+            actorId: actor ? actor._id : (req ? userId : null),
+            action,
+            route: route || `${req.method} ${req.route ? req.route.path : req.path}`,
+            targetId, before, after, meta
+        });
+    } catch (err) {
+        console.error(`audit ${action} failed:`, err);
+    }
+}
+
+// GET /api/audit?action=&limit=&cursor= — entries on the account and the ones the user made, newest first.
+// action takes a comma-separated list; cursor comes from nextCursor.
+app.get('/api/audit', authMiddleware, authorize('read'), async (req, res) => {
+    try {
+        const limitParam = parseInt(req.query.limit, 10);
+        const limit = Number.isNaN(limitParam) ? 50 : Math.min(200, Math.max(1, limitParam));
+        const filter = { $or: [{ userId: req.user._id }, { actorId: req.user._id }] };
+        if (req.query.action) {
+            const actions = String(req.query.action).split(',').filter(Boolean);
+            if (actions.some(a => !AuditLog.AUDIT_ACTIONS.includes(a))) {
+                return res.status(400).json({ error: `action must be one of ${AuditLog.AUDIT_ACTIONS.join(', ')}` });
+            }
+            filter.action = { $in: actions };
+        }
+        if (req.query.cursor) {
+            const cursor = decodeCursor(req.query.cursor, 'createdAt');
+            if (!cursor) return res.status(400).json({ error: 'Invalid cursor' });
+            filter.$and = [{ $or: [{ createdAt: { $lt: cursor.v } }, { createdAt: cursor.v, _id: { $lt: cursor.id } }] }];
+        }
+
+        const rows = await AuditLog.find(filter).sort({ createdAt: -1, _id: -1 }).limit(limit + 1).lean();
+        const hasMore = rows.length > limit;
+        const entries = hasMore ? rows.slice(0, limit) : rows;
+
+        // names for entries made by someone else, or by the scheduler (no actor)
+        const actorIds = [...new Set(entries.filter(e => e.actorId).map(e => String(e.actorId)))]
+            .filter(id => id !== String(req.user._id));
+        const actors = await User.find({ _id: { $in: actorIds } }).select('name email').lean();
+        const actorName = id => {
+            if (!id) return 'Automation';
+            if (String(id) === String(req.user._id)) return 'You';
+            const u = actors.find(a => String(a._id) === String(id));
+            return u ? u.name || u.email : 'Former member';
+        };
+
+        return res.json({
+            entries: entries.map(e => ({ ...e, actorName: actorName(e.actorId) })),
+            nextCursor: hasMore ? encodeCursor(entries[entries.length - 1], 'createdAt') : null
+        });
+    } catch (err) {
+        console.error("GET /api/audit failed:", err);
+        return res.status(500).json({ error: 'Failed to load activity' });
+    }
+});
+
+// ----- Notifications (budget alerts) -----
+
+// GET /api/notifications?month=YYYY-MM&unread=1 — newest first
+app.get("/api/notifications", authMiddleware, authorize('read'), async (req, res) => {
+    try {
+        const filter = { userId: req.user._id };
+        if (req.query.month) {
+            if (!validateMonthFormat(req.query.month)) return res.status(400).json({ error: 'month must be in YYYY-MM format' });
+            filter.month = req.query.month;
+        }
+        if (req.query.unread === '1' || req.query.unread === 'true') filter.readAt = null;
+
+        const notifications = await Notification.find(filter).sort({ createdAt: -1 }).limit(100).lean();
+        const unread = await Notification.countDocuments({ userId: req.user._id, readAt: null });
+        return res.json({ notifications, unread });
+    } catch (err) {
+        console.error("GET /api/notifications failed:", err);
+        return res.status(500).json({ error: "Failed to fetch notifications" });
+    }
+});
+
+// POST /api/notifications/read — marks the given ids (or, without ids, every unread one) as read
+app.post("/api/notifications/read", authMiddleware, authorize('read'), async (req, res) => {
+    try {
+        const filter = { userId: req.user._id, readAt: null };
+        if (Array.isArray(req.body.ids)) {
+            const ids = req.body.ids.filter(id => mongoose.Types.ObjectId.isValid(id));
+            filter._id = { $in: ids };
+        }
+        const { modifiedCount } = await Notification.updateMany(filter, { $set: { readAt: new Date() } });
+        return res.json({ updated: modifiedCount });
+    } catch (err) {
+        console.error("POST /api/notifications/read failed:", err);
+        return res.status(500).json({ error: "Failed to update notifications" });
+    }
+});
+
+// ----- Savings goals -----
+
+// Validates a goal payload (POST / PUT /api/goals). Returns { error } or { fields } holding only the
+// keys that were provided; with `required` (creation) name and targetAmount must be present.
+function parseGoal(body, user, { required = false } = {}) {
+    const { name, targetAmount, deadline, bucket, monthlyContribution, archived } = body;
+    const fields = {};
+
+    if (required || typeof name !== 'undefined') {
+        const trimmed = String(name || '').trim().slice(0, 60);
+        if (!trimmed) return { error: 'name is required' };
+        fields.name = trimmed;
+    }
+    if (required || typeof targetAmount !== 'undefined') {
+        const amt = Number(targetAmount);
+        if (!amt || amt <= 0) return { error: 'Invalid targetAmount' };
+        fields.targetAmount = amt;
+    }
+    if (typeof deadline !== 'undefined') {
+        if (deadline === null || deadline === '') {
+            fields.deadline = null;
+        } else {
+            const when = new Date(deadline);
+            if (Number.isNaN(when.getTime())) return { error: 'Invalid deadline' };
+            fields.deadline = when;
+        }
+    }
+    if (typeof bucket !== 'undefined') {
+        if (!bucketsFor(user).some(b => b.key === bucket)) return { error: `Unknown bucket "${bucket}"` };
+        fields.bucket = bucket;
+    }
+    if (typeof monthlyContribution !== 'undefined') {
+        const amt = Number(monthlyContribution || 0);
+        if (!Number.isFinite(amt) || amt < 0) return { error: 'Invalid monthlyContribution' };
+        fields.monthlyContribution = amt;
+    }
+    if (typeof archived !== 'undefined') fields.archived = Boolean(archived);
+    return { fields };
+}
+
+// Whole months from `from` to `to` (at least 1 while `to` is ahead)
+function monthsBetween(from, to) {
+    const months = (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + (to.getUTCMonth() - from.getUTCMonth());
+    return Math.max(1, months);
+}
+
+// Progress of a goal with `saved` contributed so far. The completion date is projected from the planned
+// monthly contribution, or without one from the average monthly pace since the goal was created;
+// requiredMonthly is what it takes to still hit the deadline.
+function goalProgress(goal, saved, now = new Date()) {
+    const remaining = Math.max(0, goal.targetAmount - saved);
+    const percent = goal.targetAmount > 0 ? Math.min(100, Math.round((saved / goal.targetAmount) * 100)) : 0;
+    if (remaining === 0) {
+        return { saved, remaining, percent, completed: true, projectedCompletion: null, requiredMonthly: 0, onTrack: true };
+    }
+
+    const pace = goal.monthlyContribution > 0
+        ? goal.monthlyContribution
+        : saved / Math.max(1, (now - new Date(goal.createdAt)) / (30.44 * DAY_MS));
+    let projectedCompletion = null;
+    if (pace > 0) {
+        projectedCompletion = new Date(now);
+        projectedCompletion.setUTCMonth(projectedCompletion.getUTCMonth() + Math.ceil(remaining / pace));
+    }
+
+    const deadline = goal.deadline ? new Date(goal.deadline) : null;
+    const requiredMonthly = deadline ? Math.ceil(remaining / monthsBetween(now, deadline)) : null;
+    const onTrack = deadline ? Boolean(projectedCompletion && projectedCompletion <= deadline) : null;
+    return { saved, remaining, percent, completed: false, projectedCompletion, requiredMonthly, onTrack };
+}
+
+// goals with their progress, from the sum of the transactions tagged to each
+async function goalsWithProgress(userId, goals) {
+    const rows = await Transaction.aggregate([
+        { $match: { userId: new mongoose.Types.ObjectId(String(userId)), goalId: { $in: goals.map(g => g._id) } } },
+        { $group: { _id: '$goalId', total: { $sum: '$amount' } } }
+    ]);
+    const savedById = {};
+    rows.forEach(r => { savedById[String(r._id)] = r.total; });
+    return goals.map(g => ({ ...g, progress: goalProgress(g, Number(savedById[String(g._id)] || 0)) }));
+}
+
+// A spend counts towards a goal only when it comes out of the goal's bucket. Returns an error or null.
+async function checkGoalTag(userId, goalId, bucket) {
+    const goal = await Goal.findOne({ _id: goalId, userId }).select('name bucket').lean();
+    if (!goal) return 'Goal not found';
+    if (goal.bucket !== bucket) return `"${goal.name}" only takes spends from the ${goal.bucket} bucket`;
+    return null;
+}
+
+// GET /api/goals?archived=1 — active goals (or archived ones) with progress, oldest first
+app.get("/api/goals", authMiddleware, authorize('read'), async (req, res) => {
+    try {
+        const archived = req.query.archived === '1' || req.query.archived === 'true';
+        const goals = await Goal.find({ userId: req.user._id, archived }).sort({ createdAt: 1 }).lean();
+        return res.json({ goals: await goalsWithProgress(req.user._id, goals) });
+    } catch (err) {
+        console.error("GET /api/goals failed:", err);
+        return res.status(500).json({ error: "Failed to fetch goals" });
+    }
+});
+
+// POST /api/goals
+app.post("/api/goals", authMiddleware, authorize('budget'), async (req, res) => {
+    try {
+        const parsed = parseGoal(req.body, req.user, { required: true });
+        if (parsed.error) return res.status(400).json({ error: parsed.error });
+
+        const goal = await Goal.create({ userId: req.user._id, ...parsed.fields });
+        const [withProgress] = await goalsWithProgress(req.user._id, [goal.toObject()]);
+        return res.status(201).json({ goal: withProgress });
+    } catch (err) {
+        console.error("POST /api/goals failed:", err);
+        return res.status(500).json({ error: "Failed to save goal" });
+    }
+});
+
+// PUT/PATCH /api/goals/:id
+async function updateGoal(req, res) {
+    try {
+        const { id } = req.params;
+        if (!mongoose.Types.ObjectId.isValid(id)) return res.status(400).json({ error: "Invalid goal ID" });
+
+        const parsed = parseGoal(req.body, req.user);
+        if (parsed.error) return res.status(400).json({ error: parsed.error });
+        // its contributions came out of the current bucket (see checkGoalTag)
+        if (parsed.fields.bucket && await Transaction.exists({
+            userId: req.user._id, goalId: id, bucket: { $ne: parsed.fields.bucket }
+        })) {
+            return res.status(409).json({ error: 'A goal with contributions keeps its bucket' });
+        }
+
+        const goal = await Goal.findOneAndUpdate(
+            { _id: id, userId: req.user._id }, { $set: parsed.fields }, { new: true }
+        ).lean();
+        if (!goal) return res.status(404).json({ error: "Goal not found or unauthorized" });
+
+        const [withProgress] = await goalsWithProgress(req.user._id, [goal]);
+        return res.json({ goal: withProgress });
+    } catch (err) {
+        console.error("PUT /api/goals/:id failed:", err);
+        return res.status(500).json({ error: "Server error while updating goal" });
+    }
+}
+
+app.put("/api/goals/:id", authMiddleware, authorize('budget'), updateGoal);
+app.patch("/api/goals/:id", authMiddleware, authorize('budget'), updateGoal);
+
+// DELETE /api/goals/:id — its contributions stay in the ledger, untagged
+app.delete("/api/goals/:id", authMiddleware, authorize('budget'), async (req, res) => {
+    try {
+        const { id } = req.params;
+        if (!mongoose.Types.ObjectId.isValid(id)) return res.status(400).json({ error: "Invalid goal ID" });
+
+        const goal = await Goal.findOneAndDelete({ _id: id, userId: req.user._id });
+        if (!goal) return res.status(404).json({ error: "Goal not found or unauthorized" });
+
+        await Transaction.updateMany({ userId: req.user._id, goalId: goal._id }, { $set: { goalId: null } });
+        return res.json({ message: "Goal deleted successfully" });
+    } catch (err) {
+        console.error("DELETE /api/goals/:id failed:", err);
+        return res.status(500).json({ error: "Server error while deleting goal" });
+    }
+});
+
+// ----- Dependents (who the parents_preserve money goes to) -----
+
+// transfers to a dependent are only recorded from this bucket
+const DEPENDENTS_BUCKET = 'parents_preserve';
+
+// Validates a dependent payload (POST / PUT /api/dependents); with `required` (creation) name must be present
+function parseDependent(body, { required = false } = {}) {
+    const { name, relation, notes, archived } = body;
+    const fields = {};
+
+    if (required || typeof name !== 'undefined') {
+        const trimmed = String(name || '').trim().slice(0, 60);
+        if (!trimmed) return { error: 'name is required' };
+        fields.name = trimmed;
+    }
+    if (typeof relation !== 'undefined') {
+        if (!Dependent.RELATIONS.includes(relation)) {
+            return { error: `relation must be one of ${Dependent.RELATIONS.join(', ')}` };
+        }
+        fields.relation = relation;
+    }
+    if (typeof notes !== 'undefined') fields.notes = String(notes || '').trim().slice(0, 200);
+    if (typeof archived !== 'undefined') fields.archived = Boolean(archived);
+    return { fields };
+}
+
+// GET /api/dependents?archived=1 — by name, with the total ever sent to each
+app.get("/api/dependents", authMiddleware, authorize('read'), async (req, res) => {
+    try {
+        const archived = req.query.archived === '1' || req.query.archived === 'true';
+        const dependents = await Dependent.find({ userId: req.user._id, archived }).sort({ name: 1 }).lean();
+        const rows = await Transaction.aggregate([
+            { $match: { userId: req.user._id, dependentId: { $in: dependents.map(d => d._id) } } },
+            { $group: { _id: '$dependentId', total: { $sum: '$amount' }, count: { $sum: 1 } } }
+        ]);
+        const byId = {};
+        rows.forEach(r => { byId[String(r._id)] = r; });
+        return res.json({
+            dependents: dependents.map(d => ({
+                ...d,
+                totalSent: byId[String(d._id)] ? byId[String(d._id)].total : 0,
+                transfers: byId[String(d._id)] ? byId[String(d._id)].count : 0
+            }))
+        });
+    } catch (err) {
+        console.error("GET /api/dependents failed:", err);
+        return res.status(500).json({ error: "Failed to fetch dependents" });
+    }
+});
+
+// GET /api/dependents/summary?year=YYYY — per dependent: the year's total, transfer count and
+// monthly amounts (calendar months, UTC), for the yearly report shared with family
+app.get("/api/dependents/summary", authMiddleware, authorize('read'), async (req, res) => {
+    try {
+        const year = req.query.year ? Number(req.query.year) : new Date().getUTCFullYear();
+        if (!Number.isInteger(year) || year < 1970 || year > 9999) return res.status(400).json({ error: 'year must be YYYY' });
+
+        const start = new Date(Date.UTC(year, 0, 1));
+        const end = new Date(Date.UTC(year + 1, 0, 1));
+        const rows = await Transaction.aggregate([
+            { $match: { userId: req.user._id, dependentId: { $ne: null } } },
+            { $addFields: { when: { $ifNull: ['$occurredAt', '$createdAt'] } } },
+            { $match: { when: { $gte: start, $lt: end } } },
+            { $group: { _id: { dependentId: '$dependentId', month: { $month: '$when' } }, total: { $sum: '$amount' }, count: { $sum: 1 } } }
+        ]);
+
+        // archived dependents still show up for the years they received money
+        const ids = [...new Set(rows.map(r => String(r._id.dependentId)))];
+        const dependents = await Dependent.find({
+            userId: req.user._id, $or: [{ archived: false }, { _id: { $in: ids } }]
+        }).sort({ name: 1 }).lean();
+
+        const summary = dependents.map(d => {
+            const byMonth = Array(12).fill(0);
+            let count = 0;
+            rows.filter(r => String(r._id.dependentId) === String(d._id)).forEach(r => {
+                byMonth[r._id.month - 1] += r.total;
+                count += r.count;
+            });
+            return {
+                _id: d._id, name: d.name, relation: d.relation, archived: d.archived,
+                total: byMonth.reduce((a, b) => a + b, 0), transfers: count, byMonth
+            };
+        });
+
+        return res.json({ year, dependents: summary, total: summary.reduce((a, d) => a + d.total, 0) });
+    } catch (err) {
+        console.error("GET /api/dependents/summary failed:", err);
+        return res.status(500).json({ error: "Failed to build summary" });
+    }
+});
+
+// POST /api/dependents
+app.post("/api/dependents", authMiddleware, authorize('budget'), async (req, res) => {
+    try {
+        const parsed = parseDependent(req.body, { required: true });
+        if (parsed.error) return res.status(400).json({ error: parsed.error });
+
+        const dependent = await Dependent.create({ userId: req.user._id, ...parsed.fields });
+        return res.status(201).json({ dependent });
+    } catch (err) {
+        console.error("POST /api/dependents failed:", err);
+        return res.status(500).json({ error: "Failed to save dependent" });
+    }
+});
+
+// PUT/PATCH /api/dependents/:id
+async function updateDependent(req, res) {
+    try {
+        const { id } = req.params;
+        if (!mongoose.Types.ObjectId.isValid(id)) return res.status(400).json({ error: "Invalid dependent ID" });
+
+        const parsed = parseDependent(req.body);
+        if (parsed.error) return res.status(400).json({ error: parsed.error });
+
+        const dependent = await Dependent.findOneAndUpdate(
+            { _id: id, userId: req.user._id }, { $set: parsed.fields }, { new: true }
+        );
+        if (!dependent) return res.status(404).json({ error: "Dependent not found or unauthorized" });
+        return res.json({ dependent });
+    } catch (err) {
+        console.error("PUT /api/dependents/:id failed:", err);
+        return res.status(500).json({ error: "Server error while updating dependent" });
+    }
+}
+
+app.put("/api/dependents/:id", authMiddleware, authorize('budget'), updateDependent);
+app.patch("/api/dependents/:id", authMiddleware, authorize('budget'), updateDependent);
+
+// DELETE /api/dependents/:id — the transfers stay in the ledger without a recipient;
+// archive instead to keep them in the yearly summary
+app.delete("/api/dependents/:id", authMiddleware, authorize('budget'), async (req, res) => {
+    try {
+        const { id } = req.params;
+        if (!mongoose.Types.ObjectId.isValid(id)) return res.status(400).json({ error: "Invalid dependent ID" });
+
+        const dependent = await Dependent.findOneAndDelete({ _id: id, userId: req.user._id });
+        if (!dependent) return res.status(404).json({ error: "Dependent not found or unauthorized" });
+
+        await Transaction.updateMany({ userId: req.user._id, dependentId: dependent._id }, { $set: { dependentId: null } });
+        return res.json({ message: "Dependent deleted successfully" });
+    } catch (err) {
+        console.error("DELETE /api/dependents/:id failed:", err);
+        return res.status(500).json({ error: "Server error while deleting dependent" });
+    }
+});
+
+// ----- Incomes (freelance, rent, interest, bonus, ... on top of the salary schedule) -----
+
+// What an income puts into each bucket: its own splits when set, otherwise the user's current splits.
+// Returns { error } or { distribution }.
+function distributeIncome(user, amount, splits) {
+    const effective = splits ? toPlain(splits) : toPlain(user.splits);
+    const known = new Set(bucketsFor(user).map(b => b.key));
+    const unknown = Object.keys(effective).find(k => !known.has(k));
+    if (unknown) return { error: `Unknown bucket "${unknown}"` };
+    return { distribution: computeDistribution(amount, effective, 0) };
+}
+
+// GET /api/incomes?month=YYYY-MM (defaults to the current month)
+app.get("/api/incomes", authMiddleware, authorize('read'), async (req, res) => {
+    try {
+        const month = req.query.month || currentMonthKey(req.user.cycleStartDay);
+        if (!validateMonthFormat(month)) return res.status(400).json({ error: 'month must be in YYYY-MM format' });
+
+        const incomes = await incomesForMonth(req.user._id, month, req.user.cycleStartDay || 1);
+        return res.json({ month, incomes });
+    } catch (err) {
+        console.error("GET /api/incomes failed:", err);
+        return res.status(500).json({ error: "Failed to fetch incomes" });
+    }
+});
+
+app.post("/api/incomes", authMiddleware, authorize('budget'), async (req, res) => {
+    try {
+        const parsed = parseIncome(req.body, { required: true });
+        if (parsed.error) return res.status(400).json({ error: parsed.error });
+
+        const { distribution, error } = distributeIncome(req.user, parsed.fields.amount, parsed.fields.splits);
+        if (error) return res.status(400).json({ error });
+
+        const income = await Income.create({ userId: req.user._id, ...parsed.fields, distribution });
+        return res.status(201).json({ income });
+    } catch (err) {
+        console.error("POST /api/incomes failed:", err);
+        return res.status(500).json({ error: "Server error while saving income" });
+    }
+});
+
+app.put("/api/incomes/:id", authMiddleware, authorize('budget'), async (req, res) => {
+    try {
+        const { id } = req.params;
+        if (!mongoose.Types.ObjectId.isValid(id)) {
+            return res.status(400).json({ error: "Invalid income ID" });
+        }
+
+        const income = await Income.findOne({ _id: id, userId: req.user._id });
+        if (!income) return res.status(404).json({ error: "Income not found or unauthorized" });
+
+        const parsed = parseIncome(req.body);
+        if (parsed.error) return res.status(400).json({ error: parsed.error });
+        Object.assign(income, parsed.fields);
+
+        // re-distribute with the (possibly new) amount and splits
+        const { distribution, error } = distributeIncome(req.user, income.amount, income.splits);
+        if (error) return res.status(400).json({ error });
+        income.distribution = distribution;
+
+        await income.save();
+        return res.json({ income });
+    } catch (err) {
+        console.error("PUT /api/incomes/:id failed:", err);
+        return res.status(500).json({ error: "Server error while updating income" });
+    }
+});
+
+app.delete("/api/incomes/:id", authMiddleware, authorize('budget'), async (req, res) => {
+    try {
+        const { id } = req.params;
+        if (!mongoose.Types.ObjectId.isValid(id)) {
+            return res.status(400).json({ error: "Invalid income ID" });
+        }
+
+        const income = await Income.findOneAndDelete({ _id: id, userId: req.user._id });
+        if (!income) return res.status(404).json({ error: "Income not found or unauthorized" });
+
+        return res.status(200).json({ message: "Income deleted successfully" });
+    } catch (err) {
+        console.error("DELETE /api/incomes/:id failed:", err);
+        return res.status(500).json({ error: "Server error while deleting income" });
+    }
+});
+
+// ----- Recurring transactions (rent, bills, subscriptions) -----
+
+// GET /api/recurring?days=30 — the user's templates plus their occurrences in the next `days` days
+app.get("/api/recurring", authMiddleware, authorize('read'), async (req, res) => {
+    try {
+        const days = Math.min(Math.max(Number(req.query.days) || 30, 1), 366);
+        const until = new Date(Date.now() + days * DAY_MS);
+
+        const recurring = await RecurringTransaction.find({ userId: req.user._id }).sort({ nextRunAt: 1 }).lean();
+        const upcoming = recurring
+            .filter(t => !t.paused)
+            .flatMap(t => occurrencesUntil(t, until).map(date => ({
+                recurringId: t._id, date, amount: t.amount, bucket: t.bucket, category: t.category, cadence: t.cadence
+            })))
+            .sort((a, b) => a.date - b.date);
+
+        return res.json({ recurring, upcoming });
+    } catch (err) {
+        console.error("GET /api/recurring failed:", err);
+        return res.status(500).json({ error: "Failed to fetch recurring transactions" });
+    }
+});
+
+app.post("/api/recurring", authMiddleware, authorize('budget'), async (req, res) => {
+    try {
+        const parsed = parseRecurring(req.body, req.user, { required: true });
+        if (parsed.error) return res.status(400).json({ error: parsed.error });
+
+        const startDate = parsed.fields.startDate || new Date();
+        const template = await RecurringTransaction.create({
+            userId: req.user._id, ...parsed.fields, startDate, nextRunAt: startDate
+        });
+
+        // a start date of today (or earlier) is booked right away instead of waiting for the next tick
+        const created = await materializeRecurring(template);
+        const recurring = await RecurringTransaction.findById(template._id).lean();
+        return res.status(201).json({ recurring, created });
+    } catch (err) {
+        console.error("POST /api/recurring failed:", err);
+        return res.status(500).json({ error: "Server error while saving recurring transaction" });
+    }
+});
+
+async function updateRecurring(req, res) {
+    try {
+        const { id } = req.params;
+        if (!mongoose.Types.ObjectId.isValid(id)) {
+            return res.status(400).json({ error: "Invalid recurring transaction ID" });
+        }
+
+        const template = await RecurringTransaction.findOne({ _id: id, userId: req.user._id });
+        if (!template) return res.status(404).json({ error: "Recurring transaction not found or unauthorized" });
+
+        const parsed = parseRecurring(req.body, req.user);
+        if (parsed.error) return res.status(400).json({ error: parsed.error });
+
+        const resuming = template.paused && parsed.fields.paused === false;
+        Object.assign(template, parsed.fields);
+        if (parsed.fields.startDate) template.nextRunAt = parsed.fields.startDate;
+
+        // neither resuming nor moving the start date back books past runs: move on to the first run from today
+        if (resuming || parsed.fields.startDate) {
+            template.nextRunAt = firstRunFrom(template, new Date(new Date().toISOString().slice(0, 10)));
+        }
+
+        await template.save();
+        return res.json({ recurring: template });
+    } catch (err) {
+        console.error("PUT /api/recurring/:id failed:", err);
+        return res.status(500).json({ error: "Server error while updating recurring transaction" });
+    }
+}
+
+app.put("/api/recurring/:id", authMiddleware, authorize('budget'), updateRecurring);
+app.patch("/api/recurring/:id", authMiddleware, authorize('budget'), updateRecurring);
+
+// POST /api/recurring/:id/skip — skip the next occurrence without booking it
+app.post("/api/recurring/:id/skip", authMiddleware, authorize('budget'), async (req, res) => {
+    try {
+        const { id } = req.params;
+        if (!mongoose.Types.ObjectId.isValid(id)) {
+            return res.status(400).json({ error: "Invalid recurring transaction ID" });
+        }
+
+        const template = await RecurringTransaction.findOne({ _id: id, userId: req.user._id });
+        if (!template) return res.status(404).json({ error: "Recurring transaction not found or unauthorized" });
+
+        const skipped = template.nextRunAt;
+        template.nextRunAt = nextOccurrence(skipped, template.cadence, new Date(template.startDate).getUTCDate());
+        await template.save();
+        return res.json({ recurring: template, skipped });
+    } catch (err) {
+        console.error("POST /api/recurring/:id/skip failed:", err);
+        return res.status(500).json({ error: "Server error while skipping occurrence" });
+    }
+});
+
+// DELETE /api/recurring/:id — stops future runs; transactions already booked stay in the ledger
+app.delete("/api/recurring/:id", authMiddleware, authorize('budget'), async (req, res) => {
+    try {
+        const { id } = req.params;
+        if (!mongoose.Types.ObjectId.isValid(id)) {
+            return res.status(400).json({ error: "Invalid recurring transaction ID" });
+        }
+
+        const template = await RecurringTransaction.findOneAndDelete({ _id: id, userId: req.user._id });
+        if (!template) return res.status(404).json({ error: "Recurring transaction not found or unauthorized" });
+
+        return res.status(200).json({ message: "Recurring transaction deleted successfully" });
+    } catch (err) {
+        console.error("DELETE /api/recurring/:id failed:", err);
+        return res.status(500).json({ error: "Server error while deleting recurring transaction" });
+    }
+});
+
+// GET /api/admin/jobs — background job status plus the monthly automation state of every automated user
+app.get("/api/admin/jobs", authMiddleware, adminMiddleware, async (req, res) => {
+    try {
+        const jobs = await listJobs();
+        const users = await User.find({ automate: true })
+            .select('email lastAutomatedMonth lastAutomationAt lastAutomationError')
+            .sort({ lastAutomationAt: 1 })
+            .lean();
+
+        return res.json({
+            currentMonth: currentMonthKey(),
+            jobs: jobs.map(({ name, intervalMs, nextRunAt, lockedBy, lockedUntil, lastStartedAt, lastFinishedAt, lastStatus, lastError, lastResult }) => ({
+                name, intervalMs, nextRunAt, lockedBy, lockedUntil, lastStartedAt, lastFinishedAt, lastStatus, lastError, lastResult
+            })),
+            users: users.map(u => ({
+                id: u._id,
+                email: u.email,
+                lastAutomatedMonth: u.lastAutomatedMonth || '',
+                lastAutomationAt: u.lastAutomationAt || null,
+                lastAutomationError: u.lastAutomationError || ''
+            }))
+        });
+    } catch (err) {
+        console.error("GET /api/admin/jobs failed:", err);
+        return res.status(500).json({ error: "Failed to fetch job status" });
+    }
+});
+
+// change password
+app.post("/api/auth/change-password", authMiddleware, async (req, res) => {
+    try {
+        const { currentPassword, newPassword } = req.body;
+        if (!currentPassword || !newPassword) return res.status(400).json({ message: "currentPassword and newPassword required" });
+        const user = await User.findById(req.user._id);
+        const ok = await bcrypt.compare(currentPassword, user.passwordHash);
+        if (!ok) return res.status(400).json({ message: "Current password is incorrect" });
+        const hash = await bcrypt.hash(newPassword, 10);
+        user.passwordHash = hash;
+        await user.save();
+        await recordAudit(req, { action: 'password.change' });
+        res.json({ ok: true });
+    } catch (err) {
+        console.error("change-password error", err);
+        res.status(500).json({ message: "Server error" });
+    }
+});
+
+if (require.main === module) {
+    app.listen(PORT, () => console.log(`Backend running on port ${PORT} (NODE_ENV=${NODE_ENV})`));
+}
+
+// helpers the tests in test/ exercise without a database
+module.exports = {
+    periodKeyOf,
+    currentMonthKey,
+    payDatesInMonth,
+    paydayForMonth,
+    dueAutomationMonth,
+    nextAutomationRun,
+    applyPendingRollover,
+    computeDistribution,
+    nextOccurrence,
+    occurrencesUntil,
+    firstRunFrom,
+    parseRecurring,
+    normalizeDescription,
+    matchRule,
+    suggestCategory
+};
@@ -0,0 +1,74 @@
+// lib/jobs.js
+// Minimal Mongo-backed job runner. Every instance polls; a job only runs on the instance that wins
+// the atomic findOneAndUpdate on its Job document, so several backends never double-run it.
+const os = require('os');
+const crypto = require('crypto');
+const Job = require('../models/Job');
+
+const INSTANCE_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString('hex')}`;
+const POLL_MS = 60 * 1000;
+
+const handlers = new Map();
+
+// name -> { intervalMs, lockMs, run }. lockMs should comfortably exceed the job's longest run.
+function defineJob(name, { intervalMs, lockMs = 10 * 60 * 1000 }, run) {
+    handlers.set(name, { intervalMs, lockMs, run });
+}
+
+// Claims the job if it is due and unlocked (or its lock expired). Returns the claimed doc or null.
+async function claim(name, { intervalMs, lockMs }) {
+    const now = new Date();
+    await Job.updateOne({ name }, { $setOnInsert: { name, intervalMs, nextRunAt: now } }, { upsert: true });
+    return Job.findOneAndUpdate(
+        {
+            name,
+            nextRunAt: { $lte: now },
+            $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }]
+        },
+        { $set: { lockedBy: INSTANCE_ID, lockedUntil: new Date(now.getTime() + lockMs), lastStartedAt: now, intervalMs } },
+        { new: true }
+    );
+}
+
+async function runIfDue(name) {
+    const def = handlers.get(name);
+    const job = await claim(name, def);
+    if (!job) return false;
+
+    const update = { lockedBy: null, lockedUntil: null, nextRunAt: new Date(Date.now() + def.intervalMs) };
+    try {
+        update.lastResult = (await def.run()) ?? null;
+        update.lastStatus = 'ok';
+        update.lastError = '';
+    } catch (err) {
+        console.error(`job ${name} failed`, err);
+        update.lastStatus = 'error';
+        update.lastError = String((err && err.message) || err);
+    }
+    update.lastFinishedAt = new Date();
+    // only release a lock we still hold
+    await Job.updateOne({ name, lockedBy: INSTANCE_ID }, { $set: update });
+    return true;
+}
+
+async function tick() {
+    for (const name of handlers.keys()) {
+        try {
+            await runIfDue(name);
+        } catch (err) {
+            console.error(`job ${name} could not be scheduled`, err);
+        }
+    }
+}
+
+// call once the DB is connected
+function startJobs() {
+    tick();
+    setInterval(tick, POLL_MS);
+}
+
+async function listJobs() {
+    return Job.find({}).sort({ name: 1 }).lean();
+}
+
+module.exports = { defineJob, startJobs, listJobs, INSTANCE_ID };
@@ -0,0 +1,43 @@
+const mongoose = require('mongoose');
+const { Schema } = mongoose;
+
+// profile.update: PUT /api/profile without a new cycle; cycle.start: the startNewCycle branch;
+// cycle.open: payday automation opened one; distribution.update: a month's allocation was rewritten
+// (POST /api/simulate-distribute, or the rollover of a cycle opened early)
+const AUDIT_ACTIONS = [
+  'profile.update', 'cycle.start', 'cycle.open', 'distribution.update', 'transaction.update', 'transaction.delete',
+  'password.change', 'password.reset'
+];
+
+// Append-only trail of changes to an account (see recordAudit in index.js). `before` / `after`
+// hold only the fields that changed; password entries never hold either.
+const AuditLogSchema = new Schema({
+  userId: { type: Schema.Types.ObjectId, ref: 'User', required: true }, // whose data changed
+  actorId: { type: Schema.Types.ObjectId, ref: 'User', default: null }, // who changed it; null = a background job
+  action: { type: String, enum: AUDIT_ACTIONS, required: true },
+  route: { type: String, required: true }, // e.g. "PUT /api/profile", or "job monthly-automation"
+  targetId: { type: Schema.Types.ObjectId, default: null }, // the transaction, for transaction.*
+  before: { type: Schema.Types.Mixed, default: null },
+  after: { type: Schema.Types.Mixed, default: null },
+  meta: { type: Schema.Types.Mixed, default: null }, // e.g. { month } for cycle.start
+}, { timestamps: { createdAt: true, updatedAt: false } });
+
+AuditLogSchema.index({ userId: 1, createdAt: -1, _id: -1 });
+AuditLogSchema.index({ actorId: 1, createdAt: -1, _id: -1 }); // the other half of GET /api/audit's $or
+
+// entries are never edited or removed
+const refuse = function (next) {
+  next(new Error('Audit log entries are append-only'));
+};
+['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'deleteOne', 'deleteMany', 'findOneAndDelete'].forEach(op => {
+  AuditLogSchema.pre(op, refuse);
+});
+AuditLogSchema.pre('save', function (next) {
+  if (!this.isNew) return next(new Error('Audit log entries are append-only'));
+  next();
+});
+
+const AuditLog = mongoose.models.AuditLog || mongoose.model('AuditLog', AuditLogSchema);
+AuditLog.AUDIT_ACTIONS = AUDIT_ACTIONS;
+
+module.exports = AuditLog;
@@ -0,0 +1,22 @@
+const mongoose = require('mongoose');
+const { Schema } = mongoose;
+
+// A user-defined categorization rule: a spend whose description contains `contains`, whose amount is
+// within [minAmount, maxAmount] and that was paid with `paymentMethod` goes to bucket/category.
+// Unset conditions match anything; rules are tried oldest first and the first match wins.
+const CategoryRuleSchema = new Schema({
+  userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  contains: { type: String, default: '' }, // case-insensitive, matched against the description / notes
+  minAmount: { type: Number, default: null },
+  maxAmount: { type: Number, default: null },
+  paymentMethod: { type: String, default: null },
+  bucket: { type: String, required: true },
+  category: { type: String, default: '' },
+  enabled: { type: Boolean, default: true },
+}, { timestamps: true });
+
+CategoryRuleSchema.index({ userId: 1, createdAt: 1 });
+
+const CategoryRule = mongoose.models.CategoryRule || mongoose.model('CategoryRule', CategoryRuleSchema);
+
+module.exports = CategoryRule;
@@ -0,0 +1,21 @@
+const mongoose = require('mongoose');
+const { Schema } = mongoose;
+
+const RELATIONS = ['parent', 'sibling', 'spouse', 'child', 'other'];
+
+// Someone the user supports (parents, siblings...). Money sent to them is an ordinary Transaction,
+// usually from the parents_preserve bucket, tagged with Transaction.dependentId.
+const DependentSchema = new Schema({
+  userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  name: { type: String, required: true },
+  relation: { type: String, enum: RELATIONS, default: 'parent' },
+  notes: { type: String, default: '' },
+  archived: { type: Boolean, default: false },
+}, { timestamps: true });
+
+DependentSchema.index({ userId: 1, archived: 1, name: 1 });
+
+const Dependent = mongoose.models.Dependent || mongoose.model('Dependent', DependentSchema);
+Dependent.RELATIONS = RELATIONS;
+
+module.exports = Dependent;
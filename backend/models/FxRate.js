@@ -0,0 +1,20 @@
+const mongoose = require('mongoose');
+const { Schema } = mongoose;
+
+// One exchange rate from the user's rates table: 1 `currency` = `rate` units of `homeCurrency`, as of
+// `date` (a UTC day). Foreign spends are converted with the latest rate on or before the day they happened.
+const FxRateSchema = new Schema({
+  userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  currency: { type: String, required: true }, // ISO 4217, e.g. USD
+  homeCurrency: { type: String, required: true }, // the user's currency when the rate was saved
+  rate: { type: Number, required: true },
+  date: { type: Date, required: true },
+  source: { type: String, enum: ['manual', 'import'], default: 'manual' },
+}, { timestamps: true });
+
+// one rate per currency per day; saving the same day again replaces it
+FxRateSchema.index({ userId: 1, homeCurrency: 1, currency: 1, date: -1 }, { unique: true });
+
+const FxRate = mongoose.models.FxRate || mongoose.model('FxRate', FxRateSchema);
+
+module.exports = FxRate;
@@ -0,0 +1,20 @@
+const mongoose = require('mongoose');
+const { Schema } = mongoose;
+
+// A savings goal (emergency fund, a trip, a down payment...). Progress is the sum of the transactions
+// tagged with its id (Transaction.goalId), so it follows edits and deletes like bucket balances do.
+const GoalSchema = new Schema({
+  userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  name: { type: String, required: true },
+  targetAmount: { type: Number, required: true },
+  deadline: { type: Date, default: null },
+  bucket: { type: String, default: 'savings' }, // where its contributions are spent from
+  monthlyContribution: { type: Number, default: 0 }, // planned; 0 = project from the pace so far
+  archived: { type: Boolean, default: false },
+}, { timestamps: true });
+
+GoalSchema.index({ userId: 1, archived: 1, createdAt: 1 });
+
+const Goal = mongoose.models.Goal || mongoose.model('Goal', GoalSchema);
+
+module.exports = Goal;
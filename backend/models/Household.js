@@ -0,0 +1,52 @@
+const mongoose = require('mongoose');
+const { Schema } = mongoose;
+
+// owner: everything, including who is in the household and what they may do
+// editor: the budget itself — splits, buckets, new cycles, incomes, goals, rules, editing spends
+// contributor: only adds spends; changing or deleting them is the budget's call
+// viewer: read-only
+const ROLES = ['owner', 'editor', 'contributor', 'viewer'];
+
+// what each permission checked by the API allows, by role
+const PERMISSIONS = {
+  read: ['owner', 'editor', 'contributor', 'viewer'],
+  spend: ['owner', 'editor', 'contributor'],
+  budget: ['owner', 'editor'],
+  household: ['owner'],
+};
+
+const MemberSchema = new Schema({
+  userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  joinedAt: { type: Date, default: Date.now },
+  role: { type: String, enum: ROLES, default: 'editor' }, // 'owner' only for ownerId
+}, { _id: false });
+
+// Pending invitation, matched to the invitee by the email they sign in with
+const InviteSchema = new Schema({
+  email: { type: String, required: true }, // lowercased
+  invitedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  role: { type: String, enum: ROLES.filter(r => r !== 'owner'), default: 'editor' }, // given on joining
+  createdAt: { type: Date, default: Date.now },
+});
+
+// People who budget together (a couple, flatmates). Each member keeps their own salary, buckets
+// and ledger; the buckets listed in `sharedBuckets` are pooled: their spends are stamped with
+// Transaction.householdId and the household view adds up every member's allocation for them.
+// A user belongs to at most one household.
+const HouseholdSchema = new Schema({
+  name: { type: String, required: true },
+  ownerId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  members: { type: [MemberSchema], default: [] },
+  invites: { type: [InviteSchema], default: [] },
+  sharedBuckets: { type: [String], default: [] }, // bucket keys, e.g. ['needs']
+}, { timestamps: true });
+
+HouseholdSchema.index({ 'members.userId': 1 });
+HouseholdSchema.index({ 'invites.email': 1 });
+
+const Household = mongoose.models.Household || mongoose.model('Household', HouseholdSchema);
+
+Household.ROLES = ROLES;
+Household.PERMISSIONS = PERMISSIONS;
+
+module.exports = Household;
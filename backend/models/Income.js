@@ -0,0 +1,26 @@
+const mongoose = require('mongoose');
+const { Schema } = mongoose;
+
+const INCOME_SOURCES = ['salary', 'freelance', 'rent', 'interest', 'bonus', 'other'];
+
+// Money received on top of the profile salary schedule; each entry is distributed across the
+// buckets on its own and added to the allocation of the month it was received in.
+const IncomeSchema = new Schema({
+  userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  source: { type: String, enum: INCOME_SOURCES, required: true },
+  label: { type: String, default: '' }, // e.g. "Flat 2B rent", "Q3 bonus"
+  amount: { type: Number, required: true },
+  receivedAt: { type: Date, default: Date.now },
+  // this income's own split (bucket key -> %); null means the user's splits when it was saved
+  splits: { type: Map, of: Number, default: null },
+  // what it put into each bucket, fixed when saved like the distributionByMonth snapshots
+  distribution: { type: Map, of: Number, default: {} },
+}, { timestamps: true });
+
+// month views read a user's incomes by date range
+IncomeSchema.index({ userId: 1, receivedAt: -1 });
+
+const Income = mongoose.models.Income || mongoose.model('Income', IncomeSchema);
+Income.INCOME_SOURCES = INCOME_SOURCES;
+
+module.exports = Income;
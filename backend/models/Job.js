@@ -0,0 +1,21 @@
+const mongoose = require('mongoose');
+const { Schema } = mongoose;
+
+// One document per background job (see lib/jobs.js). The lock fields make sure only one backend
+// instance runs a job at a time; the rest is run history for GET /api/admin/jobs.
+const JobSchema = new Schema({
+  name: { type: String, required: true, unique: true },
+  intervalMs: { type: Number, required: true },
+  nextRunAt: { type: Date, default: Date.now },
+
+  lockedBy: { type: String, default: null }, // instance id holding the lock
+  lockedUntil: { type: Date, default: null }, // a crashed instance's lock expires on its own
+
+  lastStartedAt: { type: Date, default: null },
+  lastFinishedAt: { type: Date, default: null },
+  lastStatus: { type: String, enum: ['ok', 'error', null], default: null },
+  lastError: { type: String, default: '' },
+  lastResult: { type: Object, default: null }, // whatever the handler returned (counts etc.)
+}, { timestamps: true });
+
+module.exports = mongoose.models.Job || mongoose.model('Job', JobSchema);
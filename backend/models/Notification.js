@@ -0,0 +1,27 @@
+const mongoose = require('mongoose');
+const { Schema } = mongoose;
+
+// threshold: a bucket's spend reached the user's warnAt percentage; overspent: it went below zero
+const NOTIFICATION_TYPES = ['threshold', 'overspent'];
+
+// Budget alerts raised when a transaction is created or edited (see evaluateBucketAlerts in index.js).
+// At most one of each type per bucket and budget period.
+const NotificationSchema = new Schema({
+  userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  type: { type: String, enum: NOTIFICATION_TYPES, required: true },
+  bucket: { type: String, required: true },
+  month: { type: String, required: true }, // YYYY-MM budget period
+  percentSpent: { type: Number, default: 0 },
+  threshold: { type: Number, default: null }, // the warnAt that fired (threshold only)
+  message: { type: String, default: '' },
+  transactionId: { type: Schema.Types.ObjectId, ref: 'Transaction', default: null },
+  readAt: { type: Date, default: null },
+}, { timestamps: true });
+
+NotificationSchema.index({ userId: 1, month: 1, bucket: 1, type: 1 }, { unique: true });
+NotificationSchema.index({ userId: 1, createdAt: -1 });
+
+const Notification = mongoose.models.Notification || mongoose.model('Notification', NotificationSchema);
+Notification.NOTIFICATION_TYPES = NOTIFICATION_TYPES;
+
+module.exports = Notification;
@@ -0,0 +1,33 @@
+const mongoose = require('mongoose');
+const { Schema } = mongoose;
+const Transaction = require('./Transaction');
+
+const CADENCES = ['weekly', 'monthly', 'yearly'];
+
+// A template (rent, electricity bill, a subscription...) that the scheduler in index.js turns into a
+// real Transaction on every nextRunAt until endDate.
+const RecurringTransactionSchema = new Schema({
+  userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  bucket: { type: String, required: true },
+  category: { type: String },
+  amount: { type: Number, required: true },
+  notes: { type: String, default: '' },
+  paymentMethod: { type: String, enum: [...Transaction.PAYMENT_METHODS, null], default: null },
+  cadence: { type: String, enum: CADENCES, required: true },
+  // first occurrence; monthly / yearly runs keep its day of month (clamped in shorter months)
+  startDate: { type: Date, required: true },
+  nextRunAt: { type: Date, required: true },
+  endDate: { type: Date, default: null }, // last day an occurrence may fall on; null = no end
+  paused: { type: Boolean, default: false },
+  lastRunAt: { type: Date, default: null },
+}, { timestamps: true });
+
+// the scheduler looks up due templates across all users
+RecurringTransactionSchema.index({ paused: 1, nextRunAt: 1 });
+RecurringTransactionSchema.index({ userId: 1, nextRunAt: 1 });
+
+const RecurringTransaction = mongoose.models.RecurringTransaction
+  || mongoose.model('RecurringTransaction', RecurringTransactionSchema);
+RecurringTransaction.CADENCES = CADENCES;
+
+module.exports = RecurringTransaction;
@@ -1,11 +1,41 @@
 const mongoose = require('mongoose');
 const { Schema } = mongoose;
 
+const PAYMENT_METHODS = ['cash', 'upi', 'card', 'netbanking'];
+
 const TransactionSchema = new Schema({
   userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
   bucket: { type: String, required: true },
   category: { type: String },
+  // always in the user's home currency (User.currency), so bucket math never mixes currencies
   amount: { type: Number, required: true },
+  // set for spends made in another currency: what was actually paid, and the rate used to get `amount`
+  originalAmount: { type: Number, default: null },
+  originalCurrency: { type: String, default: null },
+  fxRate: { type: Number, default: null },
+  // when the spend actually happened (may be backdated); all month bucketing uses this, not createdAt
+  occurredAt: { type: Date, default: Date.now },
+  notes: { type: String, default: '' },
+  paymentMethod: { type: String, enum: [...PAYMENT_METHODS, null], default: null },
+  // set when the scheduler created this from a RecurringTransaction template
+  recurringId: { type: Schema.Types.ObjectId, ref: 'RecurringTransaction', default: null },
+  // a contribution towards this savings goal
+  goalId: { type: Schema.Types.ObjectId, ref: 'Goal', default: null },
+  // the dependent this money was sent to (a transfer from parents_preserve)
+  dependentId: { type: Schema.Types.ObjectId, ref: 'Dependent', default: null },
+  // set when spent from a bucket the user's household shares; userId stays the member who spent it
+  householdId: { type: Schema.Types.ObjectId, ref: 'Household', default: null },
+  // fingerprint of the bank statement line this was imported from; re-importing the same line is skipped
+  importRef: { type: String },
 }, { timestamps: true });
 
-module.exports = mongoose.models.Transaction || mongoose.model('Transaction', TransactionSchema);
\ No newline at end of file
+// GET /api/transactions filters by user + date range (optionally bucket) and sorts by date
+TransactionSchema.index({ userId: 1, occurredAt: -1, _id: -1 });
+TransactionSchema.index({ userId: 1, bucket: 1, occurredAt: -1 });
+TransactionSchema.index({ householdId: 1, occurredAt: -1, _id: -1 }, { partialFilterExpression: { householdId: { $type: 'objectId' } } });
+TransactionSchema.index({ userId: 1, importRef: 1 }, { unique: true, partialFilterExpression: { importRef: { $type: 'string' } } });
+
+const Transaction = mongoose.models.Transaction || mongoose.model('Transaction', TransactionSchema);
+Transaction.PAYMENT_METHODS = PAYMENT_METHODS;
+
+module.exports = Transaction;
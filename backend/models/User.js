@@ -1,19 +1,52 @@
 // models/User.js
 const mongoose = require('mongoose');
 
-const splitsSchema = new mongoose.Schema({
-  savings: { type: Number, default: 30 },
-  parents_preserve: { type: Number, default: 10 },
-  extras_buffer: { type: Number, default: 10 },
-  wants: { type: Number, default: 15 },
-  needs: { type: Number, default: 35 }
+// the five SPEWN buckets every account starts with; after that they are ordinary, editable buckets
+const DEFAULT_BUCKETS = [
+  { key: 'savings', name: 'Savings', color: '#06b6a4', icon: '💰', percentage: 30 },
+  { key: 'parents_preserve', name: 'Parents / Preserve', color: '#0ea5a3', icon: '🏡', percentage: 10 },
+  { key: 'extras_buffer', name: 'Extras / Buffer', color: '#f59e0b', icon: '🛟', percentage: 10 },
+  { key: 'wants', name: 'Wants', color: '#ec4899', icon: '🎉', percentage: 15 },
+  { key: 'needs', name: 'Needs', color: '#3b82f6', icon: '🛒', percentage: 35 }
+];
+
+// how often the user is paid; `salary` is the amount of one paycheck
+const SALARY_FREQUENCIES = ['monthly', 'semimonthly', 'biweekly', 'weekly'];
+
+// when automation opens a month's cycle: on the 1st, on a fixed day of the month, or on the last
+// working day (Mon-Fri) of the month before
+const PAYDAY_RULES = ['first', 'day', 'last_working_day'];
+
+const PaydaySchema = new mongoose.Schema({
+  rule: { type: String, enum: PAYDAY_RULES, default: 'first' },
+  day: { type: Number, min: 1, max: 31, default: 1 } // only for rule 'day'; clamped in short months
+}, { _id: false });
+
+// per-bucket budget alerts, checked on the server whenever a transaction is created or edited
+const BucketAlertSchema = new mongoose.Schema({
+  warnAt: { type: Number, min: 1, max: 100, default: null }, // notify once this % of the bucket is spent
+  blockOverspend: { type: Boolean, default: false } // reject spends that would take the bucket below zero
+}, { _id: false });
+
+const defaultSplits = () => Object.fromEntries(DEFAULT_BUCKETS.map(b => [b.key, b.percentage]));
+
+// bucket key -> percentage of income; mirrors `buckets` and is what distributions are computed from
+const splitsType = { type: Map, of: Number, default: defaultSplits };
+
+const BucketSchema = new mongoose.Schema({
+  key: { type: String, required: true }, // stable id stored on transactions, e.g. 'pets'
+  name: { type: String, required: true },
+  color: { type: String, default: '#06b6a4' },
+  icon: { type: String, default: '' },
+  percentage: { type: Number, default: 0 }
 }, { _id: false });
 
 const SalaryHistorySchema = new mongoose.Schema({
   salary: { type: Number, required: true },
   startMonth: { type: String, default: '' }, // YYYY-MM
+  salaryFrequency: { type: String, enum: SALARY_FREQUENCIES, default: 'monthly' },
   extraIncome: { type: Number, default: 0 },
-  splits: { type: splitsSchema, default: () => ({}) },
+  splits: splitsType,
   automate: { type: Boolean, default: false },
   activeTracking: { type: Boolean, default: false },
   createdAt: { type: Date, default: Date.now }
@@ -25,9 +58,17 @@ const UserSchema = new mongoose.Schema({
   passwordHash: { type: String },
 
   // current active values
-  salary: { type: Number, default: 0 },
-  salaryFrequency: { type: String, default: 'monthly' },
-  splits: { type: splitsSchema, default: () => ({}) },
+  salary: { type: Number, default: 0 }, // per paycheck
+  salaryFrequency: { type: String, enum: SALARY_FREQUENCIES, default: 'monthly' },
+  // a known payday of a weekly / bi-weekly schedule; the other paydays are counted from it
+  payAnchorDate: { type: Date, default: null },
+  // budget periods run from this day of the month to the day before it in the next (1 = calendar months);
+  // capped at 28 so every month has it. Month keys (YYYY-MM) name the month a period starts in.
+  cycleStartDay: { type: Number, min: 1, max: 28, default: 1 },
+  splits: splitsType,
+  // user-defined buckets (name, color, icon, percentage). Empty for accounts that predate them;
+  // those are read from `splits` until scripts/backfill-buckets.js or the next profile save fills this in
+  buckets: { type: [BucketSchema], default: [] },
 
   // persisted distribution (top-level, convenient for current month)
   distribution: { type: Map, of: Number, default: {} },
@@ -40,6 +81,7 @@ const UserSchema = new mongoose.Schema({
 
   // onboarding / automation
   automate: { type: Boolean, default: false },
+  payday: { type: PaydaySchema, default: () => ({}) },
   activeTracking: { type: Boolean, default: false },
   startMonth: { type: String, default: '' }, // UI-chosen start month for active cycle
   subscribed: { type: Boolean, default: false },
@@ -52,8 +94,20 @@ const UserSchema = new mongoose.Schema({
 
   // last month for which automation ran (YYYY-MM) to avoid re-running
   lastAutomatedMonth: { type: String, default: '' },
+  // when the monthly-automation job last opened a month for this user, and why it last failed
+  lastAutomationAt: { type: Date, default: null },
+  lastAutomationError: { type: String, default: '' },
+
+  // what happens to a bucket's unspent balance when automation opens the next month:
+  // 'carry' (keep it in the same bucket), 'sweep' (move it to savings) or 'reset' (drop it)
+  rolloverPolicies: { type: Map, of: { type: String, enum: ['carry', 'sweep', 'reset'] }, default: {} },
+
+  // bucket key -> { warnAt, blockOverspend }; buckets without an entry only get overspent notifications
+  bucketAlerts: { type: Map, of: BucketAlertSchema, default: {} },
 
   currency: { type: String, default: 'INR' },
+  // BCP 47 tag for number and date formatting in the app, e.g. 'en-IN' or 'de-DE'
+  locale: { type: String, default: 'en-IN' },
   transactions: { type: Array, default: [] },
 
   // whether user finished basic onboarding (can't access dashboard otherwise)
@@ -63,5 +117,10 @@ const UserSchema = new mongoose.Schema({
   resetTokenExpires: Date
 }, { timestamps: true });
 
-module.exports = mongoose.models.User || mongoose.model('User', UserSchema);
+const User = mongoose.models.User || mongoose.model('User', UserSchema);
+User.DEFAULT_BUCKETS = DEFAULT_BUCKETS;
+User.SALARY_FREQUENCIES = SALARY_FREQUENCIES;
+User.PAYDAY_RULES = PAYDAY_RULES;
+
+module.exports = User;
 
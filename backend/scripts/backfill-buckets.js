@@ -0,0 +1,45 @@
+// scripts/backfill-buckets.js
+require('dotenv').config();
+const mongoose = require('mongoose');
+const User = require('../models/User');
+
+const { MONGODB_URI } = process.env;
+
+async function main() {
+  if (!MONGODB_URI) {
+    console.error('Set MONGODB_URI in .env before running migration');
+    process.exit(1);
+  }
+  await mongoose.connect(MONGODB_URI, { useNewUrlParser: true, useUnifiedTopology: true });
+
+  console.log('Migration: turning fixed SPEWN splits into editable buckets');
+
+  // lean: the raw stored splits object, without the schema's default percentages filled in
+  const cursor = User.find({ $or: [{ buckets: { $exists: false } }, { buckets: { $size: 0 } }] }).lean().cursor();
+  let count = 0;
+  for (let user = await cursor.next(); user != null; user = await cursor.next()) {
+    const splits = user.splits && Object.keys(user.splits).length
+      ? user.splits
+      : Object.fromEntries(User.DEFAULT_BUCKETS.map(b => [b.key, b.percentage]));
+
+    // keep the keys exactly as stored: existing transactions reference them
+    const buckets = Object.keys(splits).map(key => {
+      const known = User.DEFAULT_BUCKETS.find(b => b.key === key);
+      const meta = known || { key, name: key.replace(/_/g, ' '), color: '#06b6a4', icon: '' };
+      return { ...meta, percentage: Number(splits[key] || 0) };
+    });
+
+    await User.updateOne({ _id: user._id }, { $set: { buckets } });
+    console.log(`Updated user ${user.email || user._id} — ${buckets.length} buckets`);
+    count++;
+  }
+
+  console.log(`Migration complete. Updated ${count} users.`);
+  await mongoose.disconnect();
+  process.exit(0);
+}
+
+main().catch(err => {
+  console.error('Migration failed', err);
+  process.exit(1);
+});
@@ -31,9 +31,17 @@ async function main() {
       } else if (typeof user.distribution === 'object') {
         Object.keys(user.distribution).forEach(k => (top[k] = user.distribution[k]));
       }
-      // set distributionByMonth[currentMonth] = top
+      // set distributionByMonth[currentMonth] = snapshot (same shape index.js writes)
+      const splits = user.splits && user.splits.toObject ? user.splits.toObject() : (user.splits || {});
       const setObj = {};
-      setObj[`distributionByMonth.${currentMonth}`] = top;
+      setObj[`distributionByMonth.${currentMonth}`] = {
+        salary: Number(user.salary || 0),
+        extraIncome: 0,
+        splits,
+        preset: user.preset || null,
+        distribution: top,
+        updatedAt: new Date()
+      };
 
       // also set startMonth if missing
       if (!user.startMonth || user.startMonth === '') {
@@ -0,0 +1,31 @@
+// scripts/backfill-occurredAt.js
+require('dotenv').config();
+const mongoose = require('mongoose');
+const Transaction = require('../models/Transaction');
+
+const { MONGODB_URI } = process.env;
+
+async function main() {
+  if (!MONGODB_URI) {
+    console.error('Set MONGODB_URI in .env before running migration');
+    process.exit(1);
+  }
+  await mongoose.connect(MONGODB_URI, { useNewUrlParser: true, useUnifiedTopology: true });
+
+  console.log('Migration: backfilling occurredAt from createdAt for older transactions');
+
+  // pipeline-style update so each document copies its own createdAt
+  const result = await Transaction.updateMany(
+    { occurredAt: { $exists: false } },
+    [{ $set: { occurredAt: '$createdAt' } }]
+  );
+
+  console.log(`Migration complete. Updated ${result.modifiedCount} transactions.`);
+  await mongoose.disconnect();
+  process.exit(0);
+}
+
+main().catch(err => {
+  console.error('Migration failed', err);
+  process.exit(1);
+});
@@ -0,0 +1,33 @@
+// test/distribution.test.js
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { computeDistribution } = require('../index');
+
+const sum = distribution => Object.values(distribution).reduce((a, v) => a + v, 0);
+
+test('computeDistribution: thirds of 1000 add up to 1000', () => {
+    const out = computeDistribution(1000, { needs: 33.33, wants: 33.33, savings: 33.34 });
+    assert.deepEqual(out, { needs: 333, wants: 333, savings: 334 });
+    assert.equal(sum(out), 1000);
+});
+
+test('computeDistribution: the leftover unit goes to the largest remainder', () => {
+    // 999 * 50% = 499.5 each; rounding both up would hand out 1000
+    const out = computeDistribution(999, { needs: 50, savings: 50 });
+    assert.equal(sum(out), 999);
+    assert.deepEqual(Object.values(out).sort(), [499, 500]);
+});
+
+test('computeDistribution: extra income is split with the salary', () => {
+    const out = computeDistribution(50001, { needs: 50, wants: 30, savings: 20 }, 2999);
+    assert.equal(sum(out), 53000);
+    assert.deepEqual(out, { needs: 26500, wants: 15900, savings: 10600 });
+});
+
+test('computeDistribution: splits under 100% hand out only their share', () => {
+    assert.deepEqual(computeDistribution(1001, { needs: 50, wants: 30 }), { needs: 501, wants: 300 });
+});
+
+test('computeDistribution: no income allocates nothing', () => {
+    assert.deepEqual(computeDistribution(0, { needs: 50, wants: 50 }), { needs: 0, wants: 0 });
+});
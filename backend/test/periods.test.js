@@ -0,0 +1,81 @@
+// test/periods.test.js
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const User = require('../models/User');
+const {
+    periodKeyOf, currentMonthKey, payDatesInMonth, paydayForMonth,
+    dueAutomationMonth, nextAutomationRun, applyPendingRollover
+} = require('../index');
+
+const day = iso => new Date(`${iso}T00:00:00Z`);
+
+test('periodKeyOf: a period runs from the start day to the day before it next month', () => {
+    assert.equal(periodKeyOf(day('2025-10-24'), 25), '2025-09');
+    assert.equal(periodKeyOf(day('2025-10-25'), 25), '2025-10');
+    assert.equal(periodKeyOf(day('2025-11-24'), 25), '2025-10');
+    assert.equal(periodKeyOf(day('2025-10-31'), 1), '2025-10');
+});
+
+test('currentMonthKey: follows the clock it is given', () => {
+    assert.equal(currentMonthKey(1, day('2020-03-10')), '2020-03');
+    assert.equal(currentMonthKey(15, day('2020-03-10')), '2020-02');
+});
+
+test('payDatesInMonth: monthly pay lands on the first day of the period', () => {
+    assert.deepEqual(payDatesInMonth('monthly', null, '2025-10', 25), [day('2025-10-25')]);
+});
+
+test('payDatesInMonth: semi-monthly pays 14 days in and on the last day', () => {
+    assert.deepEqual(payDatesInMonth('semimonthly', null, '2025-10'), [day('2025-10-15'), day('2025-10-31')]);
+});
+
+test('payDatesInMonth: weekly and bi-weekly count from the anchor in both directions', () => {
+    assert.deepEqual(
+        payDatesInMonth('weekly', day('2025-10-03'), '2025-10'),
+        ['03', '10', '17', '24', '31'].map(d => day(`2025-10-${d}`))
+    );
+    assert.deepEqual(payDatesInMonth('biweekly', day('2025-11-07'), '2025-10'), [day('2025-10-10'), day('2025-10-24')]);
+});
+
+test('paydayForMonth: day N is clamped in short months', () => {
+    assert.deepEqual(paydayForMonth({ rule: 'day', day: 31 }, '2025-02'), day('2025-02-28'));
+});
+
+test('paydayForMonth: the last working day before a period that starts on a Monday is the Friday', () => {
+    assert.deepEqual(paydayForMonth({ rule: 'last_working_day' }, '2025-09'), day('2025-08-29'));
+});
+
+test('dueAutomationMonth: the latest period whose payday has passed, by the given clock', () => {
+    assert.equal(dueAutomationMonth({ rule: 'first' }, 1, day('2020-03-10')), '2020-03');
+    assert.equal(dueAutomationMonth({ rule: 'day', day: 25 }, 1, day('2020-03-10')), null);
+    // paid on Friday Aug 29 for the period starting Monday Sep 1
+    assert.equal(dueAutomationMonth({ rule: 'last_working_day' }, 1, new Date('2025-08-29T10:00:00Z')), '2025-09');
+});
+
+test('nextAutomationRun: a passed but unprocessed payday runs now', () => {
+    const now = day('2020-03-10');
+    assert.deepEqual(nextAutomationRun({ rule: 'first' }, '2020-02', 1, now), { month: '2020-03', runAt: now });
+});
+
+test('nextAutomationRun: otherwise the next payday, by the given clock', () => {
+    const now = day('2020-03-10');
+    assert.deepEqual(nextAutomationRun({ rule: 'first' }, '2020-03', 1, now), { month: '2020-04', runAt: day('2020-04-01') });
+    assert.deepEqual(nextAutomationRun({ rule: 'day', day: 25 }, '2020-02', 1, now), { month: '2020-03', runAt: day('2020-03-25') });
+});
+
+test('applyPendingRollover: nothing to do without a pending rollover', async () => {
+    const user = new User({
+        lastAutomatedMonth: '2025-09',
+        distributionByMonth: { '2025-09': { distribution: { needs: 500 }, carriedOver: { needs: 40 } } }
+    });
+    assert.equal(await applyPendingRollover(user, day('2025-09-02')), false);
+});
+
+test('applyPendingRollover: waits until the previous period has closed', async () => {
+    const user = new User({
+        lastAutomatedMonth: '2025-09',
+        distributionByMonth: { '2025-09': { distribution: { needs: 500 }, carriedOver: {}, rolloverPending: true } }
+    });
+    assert.equal(await applyPendingRollover(user, new Date('2025-08-29T10:00:00Z')), false);
+    assert.equal(user.distributionByMonth.get('2025-09').rolloverPending, true);
+});
@@ -0,0 +1,54 @@
+// test/recurring.test.js
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { nextOccurrence, occurrencesUntil, firstRunFrom, parseRecurring } = require('../index');
+
+const day = iso => new Date(`${iso}T00:00:00Z`);
+
+test('nextOccurrence: a monthly 31st clamps to short months and returns to the 31st', () => {
+    const feb = nextOccurrence(day('2025-01-31'), 'monthly', 31);
+    assert.deepEqual(feb, day('2025-02-28'));
+    assert.deepEqual(nextOccurrence(feb, 'monthly', 31), day('2025-03-31'));
+});
+
+test('nextOccurrence: weekly adds seven days, yearly keeps the day', () => {
+    assert.deepEqual(nextOccurrence(day('2025-12-29'), 'weekly', 29), day('2026-01-05'));
+    assert.deepEqual(nextOccurrence(day('2025-03-15'), 'yearly', 15), day('2026-03-15'));
+});
+
+test('occurrencesUntil: stops at the endDate', () => {
+    const template = {
+        startDate: day('2025-01-10'), nextRunAt: day('2025-01-10'), cadence: 'monthly', endDate: day('2025-03-10')
+    };
+    assert.deepEqual(occurrencesUntil(template, day('2025-12-31')), [day('2025-01-10'), day('2025-02-10'), day('2025-03-10')]);
+});
+
+test('occurrencesUntil: a template past its endDate has nothing left', () => {
+    const template = {
+        startDate: day('2025-01-10'), nextRunAt: day('2025-04-10'), cadence: 'monthly', endDate: day('2025-03-10')
+    };
+    assert.deepEqual(occurrencesUntil(template, day('2025-12-31')), []);
+});
+
+test('firstRunFrom: a start date moved into the past skips the runs before today', () => {
+    const template = { startDate: day('2025-01-05'), nextRunAt: day('2025-01-05'), cadence: 'monthly' };
+    assert.deepEqual(firstRunFrom(template, day('2025-04-20')), day('2025-05-05'));
+});
+
+test('firstRunFrom: a run due today or later is kept', () => {
+    const template = { startDate: day('2025-01-05'), nextRunAt: day('2025-04-20'), cadence: 'weekly' };
+    assert.deepEqual(firstRunFrom(template, day('2025-04-20')), day('2025-04-20'));
+});
+
+test('parseRecurring: the bucket must be one of the user\'s', () => {
+    const user = { buckets: [{ key: 'needs', name: 'Needs', percentage: 100 }] };
+    const body = { amount: 500, bucket: 'rent', cadence: 'monthly' };
+    assert.deepEqual(parseRecurring(body, user, { required: true }), { error: 'Unknown bucket "rent"' });
+    assert.equal(parseRecurring({ ...body, bucket: 'needs' }, user, { required: true }).fields.bucket, 'needs');
+});
+
+test('parseRecurring: accounts from before custom buckets use their split keys', () => {
+    const user = { splits: { needs: 50, wants: 30, savings: 20 } };
+    assert.equal(parseRecurring({ bucket: 'wants' }, user).fields.bucket, 'wants');
+    assert.ok(parseRecurring({ bucket: '' }, user).error);
+});
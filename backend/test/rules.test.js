@@ -0,0 +1,51 @@
+// test/rules.test.js
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { normalizeDescription, matchRule, suggestCategory } = require('../index');
+
+const rule = fields => ({
+    enabled: true, contains: '', minAmount: null, maxAmount: null, paymentMethod: null, bucket: 'wants', category: '', ...fields
+});
+
+test('normalizeDescription: reference numbers and separators are dropped', () => {
+    assert.equal(normalizeDescription('UPI/4021337/SWIGGY'), normalizeDescription('upi/5519020/Swiggy'));
+    assert.equal(normalizeDescription('UPI/4021337/SWIGGY'), 'upi swiggy');
+});
+
+test('matchRule: every condition on the rule has to hold', () => {
+    const rules = [rule({ contains: 'swiggy', minAmount: 100, maxAmount: 500, paymentMethod: 'upi' })];
+    assert.equal(matchRule(rules, { description: 'UPI/123456/SWIGGY', amount: 250, paymentMethod: 'upi' }), rules[0]);
+    assert.equal(matchRule(rules, { description: 'UPI/123456/SWIGGY', amount: 600, paymentMethod: 'upi' }), null);
+    assert.equal(matchRule(rules, { description: 'UPI/123456/SWIGGY', amount: 250, paymentMethod: 'card' }), null);
+    assert.equal(matchRule(rules, { description: 'ZOMATO', amount: 250, paymentMethod: 'upi' }), null);
+});
+
+test('matchRule: the first enabled match wins', () => {
+    const rules = [
+        rule({ contains: 'amazon', bucket: 'needs', enabled: false }),
+        rule({ contains: 'amazon', bucket: 'wants' }),
+        rule({ contains: 'amazon', bucket: 'savings' })
+    ];
+    assert.equal(matchRule(rules, { description: 'AMAZON PAY', amount: 10 }).bucket, 'wants');
+});
+
+test('suggestCategory: rules, then history, then keywords', () => {
+    const bucketKeys = ['needs', 'wants', 'savings'];
+    const rules = [rule({ contains: 'big bazaar', bucket: 'needs', category: 'Groceries', _id: 'r1' })];
+    const history = new Map([['corner cafe', { bucket: 'needs', category: 'Office lunch' }]]);
+    const context = { rules, history, bucketKeys };
+
+    assert.deepEqual(suggestCategory({ description: 'BIG BAZAAR 0042', amount: 900 }, context),
+        { bucket: 'needs', category: 'Groceries', source: 'rule', ruleId: 'r1' });
+    assert.deepEqual(suggestCategory({ description: 'Corner Cafe', amount: 120 }, context),
+        { bucket: 'needs', category: 'Office lunch', source: 'history' });
+    assert.deepEqual(suggestCategory({ description: 'Zomato order', amount: 300 }, context),
+        { bucket: 'wants', category: 'Dinner out', source: 'keyword' });
+    assert.equal(suggestCategory({ description: 'Something else', amount: 300 }, context), null);
+});
+
+test('suggestCategory: suggestions for buckets the user doesn\'t have are skipped', () => {
+    const rules = [rule({ contains: 'netflix', bucket: 'fun' })];
+    const context = { rules, history: new Map(), bucketKeys: ['needs', 'savings'] };
+    assert.equal(suggestCategory({ description: 'NETFLIX.COM', amount: 649 }, context), null);
+});
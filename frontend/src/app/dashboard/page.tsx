@@ -1,9 +1,16 @@
 "use client";
 
-import React, {useMemo, useEffect, useState, useRef} from "react";
+import React, {useCallback, useMemo, useEffect, useState, useRef} from "react";
 import {useRouter} from "next/navigation";
 import {DonutChart} from "@/charts/DonutChart";
-import {formatCurrency} from "@/utils/formatCurrency";
+import {formatCurrency, formatOriginalAmount} from "@/utils/formatCurrency";
+import {
+  csvFormat,
+  displayPreferences,
+  formatDate,
+  formatDateTime,
+} from "@/utils/locale";
+import {periodKeyOf, periodLabel as formatPeriod} from "@/utils/period";
 import {useDeviceType} from "@/utils/useDeviceType";
 import {motion} from "framer-motion";
 import {
@@ -16,6 +23,40 @@ import {
 } from "lodash";
 import {useAuth} from "@/lib/auth-client";
 import fetchWithAuth from "@/lib/fetchWithAuth";
+import {
+  fetchAllTransactions,
+  useTransactionQuery,
+  type TxnQuery,
+} from "@/lib/useTransactionQuery";
+import {useRecurring} from "@/lib/useRecurring";
+import {useGoals} from "@/lib/useGoals";
+import {useDependents} from "@/lib/useDependents";
+import {useRules} from "@/lib/useRules";
+import {useFxRates} from "@/lib/useFxRates";
+import {useHousehold} from "@/lib/useHousehold";
+import GoalsPanel from "@/components/GoalsPanel";
+import ImportStatementModal from "@/components/ImportStatementModal";
+import PasteMessagesModal from "@/components/PasteMessagesModal";
+import HouseholdView from "@/components/HouseholdView";
+import {can} from "@/app/types/household";
+import {
+  CADENCES,
+  PAYMENT_METHODS,
+  paymentMethodLabel,
+  type Cadence,
+  type PaymentMethod,
+  type Txn,
+} from "@/app/types/transactions";
+import {bucketLabel, type Bucket} from "@/app/types/splits";
+import type {BudgetNotification} from "@/app/types/notifications";
+import type {CategorySuggestion} from "@/app/types/rules";
+import {COMMON_CURRENCIES, rateOn} from "@/app/types/fx";
+import {
+  incomeSourceLabel,
+  type Income,
+  type PayEvent,
+  type SalaryFrequency,
+} from "@/app/types/income";
 
 /*
   DashboardInner (refactored + fixes)
@@ -24,18 +65,88 @@ import fetchWithAuth from "@/lib/fetchWithAuth";
   - shows auth-check UI while auth loading
 */
 
-type ChartDatum = {key: string; value: number};
+type ChartDatum = {key: string; value: number; color: string};
 type SplitMap = Record<string, number>;
 
-type Txn = {
-  _id?: string;
-  userId: string;
+// GET /api/months/:month response: the month's allocation snapshot minus its ledger spend
+type MonthDetail = {
+  month: string;
+  allocation: Record<string, number>;
+  carriedOver: Record<string, number>; // rolled over from the previous month
+  spent: Record<string, number>;
+  remaining: Record<string, number>;
+  incomes: Pick<Income, "_id" | "source" | "label" | "amount" | "receivedAt">[];
+  totals: {
+    allocated: number; // salary snapshot + incomes
+    income: number;
+    carriedOver: number;
+    spent: number;
+    remaining: number;
+  };
+  salary: number | null; // the month's total pay
+  salaryFrequency: SalaryFrequency;
+  payEvents: PayEvent[];
+  extraIncome: number;
+  splits: Record<string, number> | null;
+  hasSnapshot: boolean;
+};
+
+// GET /api/months entry (month picker)
+type MonthListItem = {
+  month: string;
+  allocated: number;
+  carriedOver: number;
+  spent: number;
+  remaining: number;
+  hasSnapshot: boolean;
+};
+
+// "2025-01" -> "2024-12"
+function previousMonth(month: string): string {
+  const [y, m] = month.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 2, 1)).toISOString().slice(0, 7);
+}
+
+// editable fields of a transaction while the inline edit form is open
+type TxnDraft = {
+  amount: string; // in the spend's own currency
+  currency: string; // "" = home currency
   bucket: string;
-  category?: string;
-  amount: number;
-  createdAt?: string;
+  category: string;
+  date: string; // YYYY-MM-DD
+  notes: string;
+  paymentMethod: PaymentMethod | "";
 };
 
+// when the spend happened (falls back to createdAt for older records)
+function txnDate(t: Txn): string | undefined {
+  return t.occurredAt ?? t.createdAt;
+}
+
+// YYYY-MM-DD in the browser's timezone (what <input type="date"> expects)
+function toDateInput(d: Date = new Date()): string {
+  const local = new Date(d.getTime() - d.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 10);
+}
+
+// local noon of the picked day, so the date survives any timezone conversion
+function fromDateInput(date: string): string {
+  return new Date(`${date}T12:00:00`).toISOString();
+}
+
+function draftFromTxn(t: Txn): TxnDraft {
+  const when = txnDate(t);
+  return {
+    amount: String(t.originalAmount ?? t.amount ?? ""),
+    currency: t.originalCurrency ?? "",
+    bucket: t.bucket,
+    category: t.category ?? "",
+    date: when ? toDateInput(new Date(when)) : "",
+    notes: t.notes ?? "",
+    paymentMethod: t.paymentMethod ?? "",
+  };
+}
+
 export default function DashboardPage() {
   return <DashboardInner />;
 }
@@ -56,6 +167,133 @@ function useKeyNavigation(listLength: number) {
   return {highlight, setHighlight, onKey};
 }
 
+// a transaction's amount in the home currency, with what was paid underneath for foreign spends
+function TxnAmount({t, sign = ""}: {t: Txn; sign?: string}) {
+  return (
+    <div className="text-right">
+      <div className="text-sm font-semibold text-rose-600">
+        {sign}
+        {formatCurrency(t.amount)}
+      </div>
+      {t.originalCurrency && (
+        <div className="text-xs text-slate-400">{formatOriginalAmount(t)}</div>
+      )}
+    </div>
+  );
+}
+
+// inline edit form used by the transaction lists
+function TxnEditRow({
+  draft,
+  buckets,
+  bucketName,
+  saving,
+  error,
+  onChange,
+  onSave,
+  onCancel,
+}: {
+  draft: TxnDraft;
+  buckets: string[];
+  bucketName: (key: string) => string;
+  saving: boolean;
+  error?: string | null;
+  onChange: (next: TxnDraft) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}) {
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSave();
+      }}
+      className="bg-slate-50 rounded p-2 space-y-2"
+    >
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          value={draft.amount}
+          onChange={(e) => onChange({...draft, amount: e.target.value})}
+          inputMode="numeric"
+          className="p-2 border rounded text-sm"
+          placeholder={draft.currency ? `Amount (${draft.currency})` : "Amount"}
+          aria-label="Amount"
+        />
+        <select
+          value={draft.bucket}
+          onChange={(e) => onChange({...draft, bucket: e.target.value})}
+          className="p-2 border rounded text-sm"
+          aria-label="Bucket"
+        >
+          {buckets.map((k) => (
+            <option key={k} value={k}>
+              {bucketName(k)}
+            </option>
+          ))}
+        </select>
+        <input
+          value={draft.category}
+          onChange={(e) => onChange({...draft, category: e.target.value})}
+          className="p-2 border rounded text-sm"
+          placeholder="Category (optional)"
+          aria-label="Category"
+        />
+        <input
+          type="date"
+          value={draft.date}
+          onChange={(e) => onChange({...draft, date: e.target.value})}
+          className="p-2 border rounded text-sm"
+          aria-label="Date"
+        />
+        <select
+          value={draft.paymentMethod}
+          onChange={(e) =>
+            onChange({
+              ...draft,
+              paymentMethod: e.target.value as PaymentMethod | "",
+            })
+          }
+          className="p-2 border rounded text-sm"
+          aria-label="Payment method"
+        >
+          <option value="">Payment method</option>
+          {PAYMENT_METHODS.map((m) => (
+            <option key={m.value} value={m.value}>
+              {m.label}
+            </option>
+          ))}
+        </select>
+        <input
+          value={draft.notes}
+          onChange={(e) => onChange({...draft, notes: e.target.value})}
+          className="p-2 border rounded text-sm"
+          placeholder="Notes (optional)"
+          aria-label="Notes"
+        />
+      </div>
+
+      {error && <div className="text-rose-600 text-xs">{error}</div>}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1 rounded bg-slate-100 text-xs"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-3 py-1 rounded bg-teal-600 text-white text-xs disabled:opacity-60"
+        >
+          {saving ? "Saving…" : "Save"}
+        </button>
+      </div>
+    </form>
+  );
+}
+
 function DashboardInner() {
   const {isMobile} = useDeviceType();
   const router = useRouter();
@@ -69,21 +307,76 @@ function DashboardInner() {
     }
   }, [loading, user, router]);
 
+  // the user's buckets (name, color, icon); transactions and snapshots refer to them by key
+  const userBuckets = useMemo<Bucket[]>(
+    () => user?.buckets ?? [],
+    [user?.buckets]
+  );
+  const bucketName = (key: string) => bucketLabel(key, userBuckets);
+  const bucketColor = useCallback(
+    (key: string) => userBuckets.find((b) => b.key === key)?.color ?? "#06b6a4",
+    [userBuckets]
+  );
+
   const CARD_MIN_HEIGHT = 520; // px, ensures both side-by-side cards look equal
 
   // transactions state (client-side mirrored from server)
   const [transactions, setTransactions] = useState<Txn[]>([]);
   const [loadingTxns, setLoadingTxns] = useState(false);
 
+  // YYYY-MM period keys (UTC, same as the server's); with a custom cycle start day a key
+  // names the pay period starting in that month, e.g. 25 Oct – 24 Nov
+  const cycleStartDay = user?.cycleStartDay ?? 1;
+  const thisMonth = periodKeyOf(new Date(), cycleStartDay);
+  const [selectedMonth, setSelectedMonth] = useState<string>(thisMonth);
+  const [months, setMonths] = useState<MonthListItem[]>([]);
+  const isThisMonth = selectedMonth === thisMonth;
+  const monthLabel = (month: string) => formatPeriod(month, cycleStartDay);
+  const thisPeriodText = cycleStartDay > 1 ? "this pay period" : "this month";
+  const periodLabel = isThisMonth ? thisPeriodText : monthLabel(selectedMonth);
+
+  // the current period moves when the user's cycle start day arrives with /me
+  useEffect(() => {
+    setSelectedMonth(thisMonth);
+  }, [thisMonth]);
+
+  // per-bucket balances for the selected month, derived server-side from the ledger
+  const [balances, setBalances] = useState<MonthDetail | null>(null);
+  // budget alerts the server recorded for the selected month (badges on the bucket cards)
+  const [notifications, setNotifications] = useState<BudgetNotification[]>([]);
+
   // Add modal (global)
   const [openAddModal, setOpenAddModal] = useState(false);
+  const [openImportModal, setOpenImportModal] = useState(false);
+  const [openPasteModal, setOpenPasteModal] = useState(false);
   const [newBucket, setNewBucket] = useState<string>("");
   const [newCategory, setNewCategory] = useState<string>("");
   const [newSubCategory, setNewSubCategory] = useState<string>(""); // for subscriptions
   const [newAmount, setNewAmount] = useState<string>("");
+  // currency the spend was paid in ("" = home) and a rate typed in to override the rates table
+  const [newCurrency, setNewCurrency] = useState<string>("");
+  const [newFxRate, setNewFxRate] = useState<string>("");
+  const [newDate, setNewDate] = useState<string>(() => toDateInput());
+  const [newNotes, setNewNotes] = useState<string>("");
+  const [newPaymentMethod, setNewPaymentMethod] = useState<PaymentMethod | "">(
+    ""
+  );
+  // "" = one-off spend; otherwise saved as a recurring template starting on newDate
+  const [newRepeat, setNewRepeat] = useState<Cadence | "">("");
+  const [newRepeatUntil, setNewRepeatUntil] = useState<string>("");
+  // savings goal the new spend contributes to ("" = none)
+  const [newGoalId, setNewGoalId] = useState<string>("");
+  // who received a parents_preserve transfer ("" = not recorded)
+  const [newDependentId, setNewDependentId] = useState<string>("");
+  // bucket/category a rule or past spend filled in from the notes; replaced while the user hasn't changed them
+  const [autoFilled, setAutoFilled] = useState<CategorySuggestion | null>(null);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Inline edit (one transaction at a time)
+  const [editingTxn, setEditingTxn] = useState<Txn | null>(null);
+  const [editDraft, setEditDraft] = useState<TxnDraft | null>(null);
+
   // Bucket-details modal
   const [openBucketModal, setOpenBucketModal] = useState(false);
   const [activeBucket, setActiveBucket] = useState<string | null>(null);
@@ -97,7 +390,8 @@ function DashboardInner() {
   const {highlight, setHighlight, onKey} = useKeyNavigation(10);
 
   // Category suggestions by bucket (normalized keys)
-  // NOTE: keys match the split keys you use across the app (snake_case)
+  // NOTE: keys match the split keys you use across the app (snake_case);
+  // custom buckets only get the catch-all "Other"
   const categorySuggestions: Record<string, string[]> = {
     savings: ["SIP", "RD", "FD", "Stocks", "Other"],
     parents_preserve: ["Parents", "Preserve", "Other"],
@@ -116,6 +410,10 @@ function DashboardInner() {
   const distribution = useMemo<Record<string, number> | null>(() => {
     if (!user) return null;
 
+    // past months only ever show their own snapshot
+    if (balances && (!isThisMonth || !isEmpty(balances.allocation)))
+      return balances.allocation;
+
     const explicit = get(user, "distribution", null) as Record<
       string,
       number
@@ -139,35 +437,51 @@ function DashboardInner() {
     } catch {
       return null;
     }
-  }, [user]);
+  }, [user, balances, isThisMonth]);
+
+  // months offered by the picker (always includes this month and the selected one)
+  const monthOptions = useMemo(() => {
+    const set = new Set(months.map((m) => m.month));
+    set.add(thisMonth);
+    set.add(selectedMonth);
+    return Array.from(set).sort().reverse();
+  }, [months, thisMonth, selectedMonth]);
+
+  // salary (+ extra income) the selected month was distributed from; with weekly or
+  // bi-weekly pay that is however many paychecks landed in the month
+  const monthIncome =
+    balances && balances.salary !== null
+      ? Number(balances.salary) + Number(balances.extraIncome ?? 0)
+      : Number(get(user, "salary", 0));
+  const incomeSources = balances?.incomes ?? [];
+  const paycheckNote =
+    balances && balances.salaryFrequency !== "monthly"
+      ? ` (${balances.payEvents.length} paychecks)`
+      : "";
 
   const chartData: ChartDatum[] = useMemo(() => {
-    const splits = get(user, "splits", {}) as SplitMap;
+    const splits = (user?.splits ?? {}) as SplitMap;
     if (isEmpty(splits)) return [];
     return _map(_keys(splits), (k: string) => ({
       key: k,
       value: Number(splits[k] ?? 0),
+      color: bucketColor(k),
     }));
-  }, [user?.splits]);
+  }, [user?.splits, bucketColor]);
 
-  // spentByBucket is computed by summing transactions per bucket
-  const spentByBucket: Record<string, number> = useMemo(() => {
-    const map: Record<string, number> = {};
-    transactions.forEach((t) => {
-      map[t.bucket] = (map[t.bucket] || 0) + Number(t.amount || 0);
-    });
-    return map;
-  }, [transactions]);
+  // spent / remaining per bucket come from the ledger (GET /api/months/:month)
+  const spentByBucket: Record<string, number> = balances?.spent ?? {};
 
-  const totalAllocated = _sum(
-    _map(_keys(distribution ?? {}), (k: string) =>
-      Number(distribution?.[k] ?? 0)
-    )
-  );
-  const totalSpent = _sum(
-    _map(_keys(spentByBucket), (k: any) => spentByBucket[k])
-  );
-  const totalRemaining = totalAllocated - totalSpent;
+  const totalAllocated =
+    balances?.totals.allocated ??
+    _sum(
+      _map(_keys(distribution ?? {}), (k: string) =>
+        Number(distribution?.[k] ?? 0)
+      )
+    );
+  const totalCarried = balances?.totals.carriedOver ?? 0;
+  const totalSpent = balances?.totals.spent ?? 0;
+  const totalRemaining = totalAllocated + totalCarried - totalSpent;
 
   function onEdit(): void {
     router.push("/onboarding");
@@ -179,7 +493,7 @@ function DashboardInner() {
     setLoadingTxns(true);
     try {
       const res = await fetchWithAuth(
-        `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/transactions?limit=0`,
+        `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/transactions?from=${selectedMonth}&to=${selectedMonth}&limit=0`,
         {
           credentials: "include",
         },
@@ -215,16 +529,144 @@ function DashboardInner() {
     }
   }
 
+  async function loadBalances() {
+    if (!user) return;
+    try {
+      const res = await fetchWithAuth(
+        `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/months/${selectedMonth}`,
+        {
+          credentials: "include",
+        }
+      );
+
+      if (!res.ok) throw new Error("Failed to load balances");
+      const data = await res.json();
+      setBalances(data);
+    } catch (e) {
+      console.error("loadBalances failed:", e);
+      // keep whatever is present
+    }
+  }
+
+  async function loadMonths() {
+    if (!user) return;
+    try {
+      const res = await fetchWithAuth(
+        `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/months`,
+        {
+          credentials: "include",
+        }
+      );
+
+      if (!res.ok) throw new Error("Failed to load months");
+      const data = await res.json();
+      setMonths(Array.isArray(data.months) ? data.months : []);
+    } catch (e) {
+      console.error("loadMonths failed:", e);
+    }
+  }
+
+  async function loadNotifications() {
+    if (!user) return;
+    try {
+      const res = await fetchWithAuth(
+        `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/notifications?month=${selectedMonth}`,
+        {
+          credentials: "include",
+        }
+      );
+
+      if (!res.ok) throw new Error("Failed to load notifications");
+      const data = await res.json();
+      setNotifications(
+        Array.isArray(data.notifications) ? data.notifications : []
+      );
+    } catch (e) {
+      console.error("loadNotifications failed:", e);
+    }
+  }
+
+  // clicking a badge acknowledges it; it stays on the card, dimmed
+  async function markNotificationsRead(ids: string[]) {
+    const now = new Date().toISOString();
+    setNotifications((prev) =>
+      prev.map((n) => (ids.includes(n._id) ? {...n, readAt: now} : n))
+    );
+    try {
+      await fetchWithAuth(
+        `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/notifications/read`,
+        {
+          method: "POST",
+          headers: {"Content-Type": "application/json"},
+          credentials: "include",
+          body: JSON.stringify({ids}),
+        }
+      );
+    } catch (e) {
+      console.error("mark notifications read failed:", e);
+    }
+  }
+
+  // transactions + balances (+ month totals, alerts and goal progress) are always refreshed
+  // together after a change
+  async function reloadLedger() {
+    await Promise.all([
+      loadTxns(),
+      loadBalances(),
+      loadMonths(),
+      loadNotifications(),
+      reloadGoals(),
+    ]);
+  }
+
   // load txns on user change (and fetchMe if available)
   useEffect(() => {
     if (!user?.id) return;
     // call in microtask so UI can render first
     (async () => {
-      await loadTxns();
+      await reloadLedger();
       // avoid forcing fetchMe here — fetchWithAuth's onUnauthorized will attempt refresh when needed
     })();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [user?.id]);
+  }, [user?.id, selectedMonth]);
+
+  // recurring templates (rent, bills, subscriptions) and what they book in the next 30 days
+  const {
+    recurring,
+    upcoming,
+    create: createRecurring,
+    skipNext,
+    setPaused,
+    remove: removeRecurring,
+  } = useRecurring(Boolean(user?.id));
+
+  // savings goals; progress comes from the spends tagged to each one
+  const {
+    goals,
+    reload: reloadGoals,
+    create: createGoal,
+    update: updateGoal,
+  } = useGoals(Boolean(user?.id));
+  const {dependents} = useDependents(Boolean(user?.id));
+  // categories the user has filed spends under, per bucket, for the autocomplete
+  const {learned} = useRules(Boolean(user?.id));
+  const {homeCurrency, rates: fxRates} = useFxRates(Boolean(user?.id));
+  const {household} = useHousehold(Boolean(user?.id));
+  // "household" swaps the personal cards below for the shared buckets of the user's household
+  const [view, setView] = useState<"mine" | "household">("mine");
+  const showHousehold = view === "household" && !!household;
+  // controls the user's household role can't use are hidden (the API refuses them anyway)
+  const canSpend = can(user, "spend");
+  const canEditBudget = can(user, "budget");
+  // the rate the new spend will be converted at, and its amount in the home currency
+  const newRate = newCurrency
+    ? Number(newFxRate) ||
+      rateOn(fxRates, newCurrency, newDate || toDateInput())
+    : 1;
+  const newHomeAmount = newRate
+    ? Math.round(Number(newAmount || 0) * newRate * 100) / 100
+    : 0;
+  const pausedRecurring = recurring.filter((r) => r.paused);
 
   // optimistic map store for rollback (not strictly required but kept)
   const optimisticMapRef = useRef<Map<string, Txn>>(new Map());
@@ -245,9 +687,22 @@ function DashboardInner() {
         : newCategory || undefined;
 
     if (!bucketToUse || !amt || amt <= 0) return setError("Invalid input");
+    if (newCurrency && !newRate) {
+      return setError(`No ${newCurrency} rate saved yet; enter the rate`);
+    }
+
+    if (newRepeat) {
+      if (newCurrency) {
+        return setError("Repeating spends are kept in your home currency");
+      }
+      return handleAddRecurring(bucketToUse, categoryToUse, amt, newRepeat);
+    }
+
+    // today's spends keep the server timestamp; backdated ones are sent explicitly
+    const backdated = !!newDate && newDate !== toDateInput();
 
     // check negative allocation situation
-    const futureTotalSpent = totalSpent + amt;
+    const futureTotalSpent = totalSpent + newHomeAmount;
     const futureRemaining = totalAllocated - futureTotalSpent;
 
     if (futureRemaining < 0) {
@@ -264,6 +719,17 @@ function DashboardInner() {
         bucket: bucketToUse,
         category: categoryToUse || undefined,
         amount: amt,
+        currency: newCurrency || undefined,
+        fxRate: newCurrency && newFxRate ? Number(newFxRate) : undefined,
+        notes: newNotes.trim() || undefined,
+        paymentMethod: newPaymentMethod || undefined,
+        goalId:
+          (goals.find((g) => g._id === newGoalId)?.bucket === bucketToUse &&
+            newGoalId) ||
+          undefined,
+        dependentId:
+          (bucketToUse === "parents_preserve" && newDependentId) || undefined,
+        ...(backdated ? {occurredAt: fromDateInput(newDate)} : {}),
       };
 
       // optimistic update: add to UI immediately (newest first)
@@ -271,7 +737,12 @@ function DashboardInner() {
         userId: user.id,
         bucket: bucketToUse,
         category: categoryToUse,
-        amount: amt,
+        amount: newHomeAmount,
+        originalAmount: newCurrency ? amt : null,
+        originalCurrency: newCurrency || null,
+        notes: payload.notes,
+        paymentMethod: payload.paymentMethod,
+        occurredAt: payload.occurredAt ?? new Date().toISOString(),
         createdAt: new Date().toISOString(),
       };
 
@@ -307,25 +778,186 @@ function DashboardInner() {
       );
 
       if (!res.ok) {
-        const errText = await res.text().catch(() => "");
-        throw new Error(errText || "Failed to save");
+        // e.g. 409 when the bucket is set to block overspending
+        const j = await res.json().catch(() => ({}));
+        throw new Error(j.error || "Failed to save");
       }
 
       // server will return canonical data; reload
-      await loadTxns();
+      await reloadLedger();
       if (fetchMe) await fetchMe();
 
       // clear modal(s)
       setOpenAddModal(false);
+      setNewGoalId("");
+      setNewDependentId("");
       setNewBucket("");
       setNewCategory("");
       setNewSubCategory("");
       setNewAmount("");
+      setNewCurrency("");
+      setNewFxRate("");
+      setNewDate(toDateInput());
+      setNewNotes("");
+      setNewPaymentMethod("");
+      setAutoFilled(null);
     } catch (err: any) {
       console.error("add txn failed:", err);
       setError(err?.message || "Failed to save transaction");
       // rollback optimistic if needed (reload server copy)
-      await loadTxns();
+      await reloadLedger();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  // "Repeats" picked in Add spend: the server books every occurrence from the chosen date on
+  async function handleAddRecurring(
+    bucket: string,
+    category: string | undefined,
+    amount: number,
+    cadence: Cadence
+  ) {
+    setSaving(true);
+    try {
+      const {created} = await createRecurring({
+        bucket,
+        category,
+        amount,
+        cadence,
+        notes: newNotes.trim() || undefined,
+        paymentMethod: newPaymentMethod || undefined,
+        startDate: fromDateInput(newDate || toDateInput()),
+        endDate: newRepeatUntil ? fromDateInput(newRepeatUntil) : null,
+      });
+      // a start date of today or earlier is booked right away
+      if (created > 0) await reloadLedger();
+
+      setOpenAddModal(false);
+      setNewBucket("");
+      setNewCategory("");
+      setNewSubCategory("");
+      setNewAmount("");
+      setNewDate(toDateInput());
+      setNewNotes("");
+      setNewPaymentMethod("");
+      setNewRepeat("");
+      setNewRepeatUntil("");
+    } catch (err) {
+      console.error("add recurring failed:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to save recurring spend"
+      );
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleRecurringAction(action: () => Promise<void>) {
+    try {
+      await action();
+    } catch (err) {
+      console.error("recurring action failed:", err);
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    }
+  }
+
+  function startEditTransaction(t: Txn) {
+    setError(null);
+    setEditingTxn(t);
+    setEditDraft(draftFromTxn(t));
+  }
+
+  function cancelEditTransaction() {
+    setEditingTxn(null);
+    setEditDraft(null);
+    setError(null);
+  }
+
+  // edit transaction (optimistic, same pattern as handleAddTransaction)
+  async function handleUpdateTransaction() {
+    if (!user) return setError("Not authenticated");
+    if (!editingTxn?._id || !editDraft) return;
+    setError(null);
+    const txnId = editingTxn._id;
+    const amt = Number(editDraft.amount || 0);
+    if (!editDraft.bucket || !amt || amt <= 0) return setError("Invalid input");
+
+    // only send the date when it was actually changed, so the time of day is kept otherwise
+    const dateChanged =
+      !!editDraft.date && editDraft.date !== draftFromTxn(editingTxn).date;
+
+    setSaving(true);
+    try {
+      const payload = {
+        bucket: editDraft.bucket,
+        category: editDraft.category,
+        amount: amt,
+        notes: editDraft.notes,
+        paymentMethod: editDraft.paymentMethod || null,
+        ...(dateChanged ? {occurredAt: fromDateInput(editDraft.date)} : {}),
+      };
+
+      // optimistic update: patch the row in place (foreign spends keep their rate)
+      setTransactions((prev) =>
+        prev.map((t) =>
+          t._id === txnId
+            ? {
+                ...t,
+                bucket: editDraft.bucket,
+                category: editDraft.category || undefined,
+                amount: t.fxRate ? Math.round(amt * t.fxRate * 100) / 100 : amt,
+                originalAmount: t.originalCurrency ? amt : t.originalAmount,
+                notes: editDraft.notes,
+                paymentMethod: editDraft.paymentMethod || null,
+                occurredAt: payload.occurredAt ?? t.occurredAt,
+              }
+            : t
+        )
+      );
+
+      const res = await fetchWithAuth(
+        `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/transactions/${txnId}`,
+        {
+          method: "PUT",
+          headers: {"Content-Type": "application/json"},
+          credentials: "include",
+          body: JSON.stringify(payload),
+        },
+        {
+          onUnauthorized: async () => {
+            if (typeof fetchMe === "function") {
+              try {
+                await fetchMe();
+                if (!user) router.replace("/");
+              } catch {
+                router.replace("/");
+              }
+            } else {
+              router.replace("/");
+            }
+          },
+        }
+      );
+
+      if (!res.ok) {
+        const j = await res.json().catch(() => ({}));
+        throw new Error(j.error || "Failed to update");
+      }
+
+      // server will return canonical data; reload
+      await reloadLedger();
+      if (fetchMe) await fetchMe();
+
+      setEditingTxn(null);
+      setEditDraft(null);
+    } catch (err) {
+      console.error("edit txn failed:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to update transaction"
+      );
+      // rollback optimistic change (reload server copy)
+      await reloadLedger();
     } finally {
       setSaving(false);
     }
@@ -379,7 +1011,7 @@ function DashboardInner() {
       }
 
       // reload to be safe / canonical
-      await loadTxns();
+      await reloadLedger();
     } catch (err) {
       console.error("delete txn failed:", err);
       // rollback
@@ -398,9 +1030,16 @@ function DashboardInner() {
   function closeBucketModal() {
     setOpenBucketModal(false);
     setActiveBucket(null);
+    setEditingTxn(null);
+    setEditDraft(null);
     setNewCategory("");
     setNewSubCategory("");
     setNewAmount("");
+    setNewCurrency("");
+    setNewFxRate("");
+    setNewDate(toDateInput());
+    setNewNotes("");
+    setNewPaymentMethod("");
   }
 
   // small helper to normalize bucket key to suggestions key
@@ -410,11 +1049,61 @@ function DashboardInner() {
 
   // autocomplete helpers (client-side suggestions)
   const currentSuggestions = useMemo(() => {
-    const key = suggestionKeyForBucket(activeBucket || newBucket || "");
-    const base = categorySuggestions[key] || [];
+    const bucket = activeBucket || newBucket || "";
+    // the user's own categories for the bucket come first
+    const base = Array.from(
+      new Set([
+        ...(learned.categories[bucket] ?? []),
+        ...(categorySuggestions[suggestionKeyForBucket(bucket)] || ["Other"]),
+      ])
+    );
     if (!catInput) return base;
     return base.filter((s) => s.toLowerCase().includes(catInput.toLowerCase()));
-  }, [activeBucket, newBucket, catInput]);
+  }, [activeBucket, newBucket, catInput, learned]);
+
+  // quick add: once notes are typed, ask the rules where the spend goes and fill in an
+  // empty bucket/category (or one filled in earlier that the user hasn't touched)
+  useEffect(() => {
+    if (!openAddModal || !newNotes.trim()) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetchWithAuth(
+          `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/rules/match`,
+          {
+            method: "POST",
+            credentials: "include",
+            headers: {"Content-Type": "application/json"},
+            body: JSON.stringify({
+              description: newNotes,
+              amount: Number(newAmount || 0),
+              paymentMethod: newPaymentMethod || undefined,
+            }),
+          }
+        );
+        if (!res.ok || cancelled) return;
+        const {suggestion} = (await res.json()) as {
+          suggestion: CategorySuggestion | null;
+        };
+        if (!suggestion || cancelled) return;
+        const bucketFree = !newBucket || newBucket === autoFilled?.bucket;
+        const categoryFree =
+          !newCategory || newCategory === autoFilled?.category;
+        if (!bucketFree) return;
+        setNewBucket(suggestion.bucket);
+        if (categoryFree) setNewCategory(suggestion.category);
+        setAutoFilled(suggestion);
+      } catch (e) {
+        console.error("match rules failed:", e);
+      }
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+    // only the spend's own fields trigger a lookup
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [openAddModal, newNotes, newAmount, newPaymentMethod]);
 
   useEffect(() => {
     // reset highlight when suggestion input changes
@@ -436,33 +1125,54 @@ function DashboardInner() {
   // ----- All-transactions modal state & helpers -----
   const [openAllTxnsModal, setOpenAllTxnsModal] = useState(false);
   const [txnSearch, setTxnSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+
+  // wait for typing to pause before hitting the server
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(txnSearch.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [txnSearch]);
+
+  // server-side query for the modal (idle while it is closed)
+  const allTxnsQuery: TxnQuery | null = openAllTxnsModal
+    ? {from: selectedMonth, to: selectedMonth, q: debouncedSearch}
+    : null;
+  const allTxns = useTransactionQuery(allTxnsQuery);
+
+  // infinite scroll: fetch the next page when the list is scrolled near its end
+  function onAllTxnsScroll(e: React.UIEvent<HTMLDivElement>) {
+    const el = e.currentTarget;
+    if (el.scrollTop + el.clientHeight >= el.scrollHeight - 80) {
+      allTxns.loadMore();
+    }
+  }
+
+  async function exportAllTxns() {
+    if (!allTxnsQuery) return;
+    try {
+      exportTransactionsCSV(await fetchAllTransactions(allTxnsQuery));
+    } catch (e) {
+      console.error("export failed:", e);
+      alert("Failed to export transactions. Please try again.");
+    }
+  }
+
+  async function deleteFromAllTxns(txnId?: string) {
+    await handleDeleteTransaction(txnId);
+    allTxns.reload();
+  }
 
-  // memoized list of transactions that occurred this month (local timezone)
+  // memoized list of transactions that occurred in the selected month
+  // (optimistic backdated adds can land outside it until the next reload)
   const transactionsThisMonth = useMemo(() => {
-    const now = new Date();
-    const currentYear = now.getFullYear();
-    const currentMonth = now.getMonth(); // zero-based
     return transactions.filter((t) => {
-      if (!t?.createdAt) return false;
-      const d = new Date(t.createdAt);
+      const when = txnDate(t);
+      if (!when) return false;
+      const d = new Date(when);
       if (Number.isNaN(d.getTime())) return false;
-      return d.getFullYear() === currentYear && d.getMonth() === currentMonth;
+      return periodKeyOf(d, cycleStartDay) === selectedMonth;
     });
-  }, [transactions]);
-
-  // memoized filtered list by search
-  const filteredMonthTxns = useMemo(() => {
-    const list = transactionsThisMonth;
-    if (!txnSearch?.trim()) return list;
-    const q = txnSearch.trim().toLowerCase();
-    return list.filter((t) => {
-      return (
-        (t.category || "").toLowerCase().includes(q) ||
-        (t.bucket || "").toLowerCase().includes(q) ||
-        String(t.amount || "").includes(q)
-      );
-    });
-  }, [transactionsThisMonth, txnSearch]);
+  }, [transactions, selectedMonth, cycleStartDay]);
 
   // export CSV (small client-side impl)
   function exportTransactionsCSV(txns: Txn[]) {
@@ -470,17 +1180,40 @@ function DashboardInner() {
       alert("No transactions to export.");
       return;
     }
+    // quote every cell so separators/newlines in notes don't break columns;
+    // amounts and dates follow the user's locale so their spreadsheet reads them
+    const cell = (v: string) => `"${v.replace(/"/g, '""')}"`;
+    const {separator, number} = csvFormat();
+    const {currency} = displayPreferences();
     const rows = [
-      ["id", "bucket", "category", "amount", "createdAt"],
+      [
+        "id",
+        "date",
+        "bucket",
+        "category",
+        `amount (${currency})`,
+        "originalAmount",
+        "originalCurrency",
+        "fxRate",
+        "paymentMethod",
+        "notes",
+        "createdAt",
+      ],
       ...txns.map((t) => [
         t._id ?? "",
-        (t.bucket || "").replace(/"/g, '""'),
-        (t.category || "").replace(/"/g, '""'),
-        String(t.amount ?? ""),
+        txnDate(t) ? formatDateTime(txnDate(t)!) : "",
+        t.bucket || "",
+        t.category || "",
+        number(t.amount ?? 0),
+        t.originalAmount != null ? number(t.originalAmount) : "",
+        t.originalCurrency ?? "",
+        t.fxRate != null ? number(t.fxRate) : "",
+        t.paymentMethod ?? "",
+        t.notes ?? "",
         t.createdAt ?? "",
       ]),
     ];
-    const csv = rows.map((r) => r.join(",")).join("\n");
+    const csv = rows.map((r) => r.map(cell).join(separator)).join("\n");
     const blob = new Blob([csv], {type: "text/csv;charset=utf-8;"});
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
@@ -536,8 +1269,51 @@ function DashboardInner() {
                 <span className="text-teal-600">{get(user, "name", "—")}</span>
               </h1>
               <p className="mt-1 text-sm text-slate-600">
-                Here’s how your salary is distributed this month.
+                Here’s how your salary is distributed {periodLabel}.
               </p>
+              <div className="mt-2 flex items-center gap-2">
+                <label
+                  htmlFor="month-picker"
+                  className="text-xs text-slate-500"
+                >
+                  {cycleStartDay > 1 ? "Pay period" : "Month"}
+                </label>
+                <select
+                  id="month-picker"
+                  value={selectedMonth}
+                  onChange={(e) => setSelectedMonth(e.target.value)}
+                  className="px-2 py-1 border rounded text-sm"
+                >
+                  {monthOptions.map((m) => (
+                    <option key={m} value={m}>
+                      {monthLabel(m)}
+                    </option>
+                  ))}
+                </select>
+                {!isThisMonth && (
+                  <button
+                    type="button"
+                    onClick={() => setSelectedMonth(thisMonth)}
+                    className="text-xs text-teal-600 hover:underline"
+                  >
+                    Back to {thisPeriodText}
+                  </button>
+                )}
+                {household && (
+                  <div className="ml-2 inline-flex rounded border text-xs">
+                    {(["mine", "household"] as const).map((v) => (
+                      <button
+                        key={v}
+                        type="button"
+                        onClick={() => setView(v)}
+                        className={`px-2 py-1 ${view === v ? "bg-teal-600 text-white" : "text-slate-600"}`}
+                      >
+                        {v === "mine" ? "Mine" : household.name}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
             </div>
 
             <div className="flex items-center gap-2 ">
@@ -604,9 +1380,19 @@ function DashboardInner() {
                 <div className="mt-1 truncate">
                   Salary:{" "}
                   <span className="font-medium text-slate-800">
-                    {formatCurrency(get(user, "salary", 0))}
+                    {formatCurrency(monthIncome)}
                   </span>
+                  {paycheckNote}
                 </div>
+                {incomeSources.map((i) => (
+                  <div key={i._id} className="mt-1 truncate">
+                    {incomeSourceLabel(i.source)}
+                    {i.label ? ` · ${i.label}` : ""}:{" "}
+                    <span className="font-medium text-slate-800">
+                      {formatCurrency(i.amount)}
+                    </span>
+                  </div>
+                ))}
               </div>
             </div>
           </div>
@@ -623,17 +1409,35 @@ function DashboardInner() {
                 <div className="mt-1">
                   Salary:{" "}
                   <span className="font-medium text-slate-800">
-                    {formatCurrency(get(user, "salary", 0))}
+                    {formatCurrency(monthIncome)}
                   </span>
+                  {paycheckNote}
                 </div>
+                {incomeSources.map((i) => (
+                  <div key={i._id} className="mt-1 truncate">
+                    {incomeSourceLabel(i.source)}
+                    {i.label ? ` · ${i.label}` : ""}:{" "}
+                    <span className="font-medium text-slate-800">
+                      {formatCurrency(i.amount)}
+                    </span>
+                  </div>
+                ))}
               </div>
             </div>
           </div>
         </div>
       </div>
 
+      {showHousehold && household && (
+        <HouseholdView
+          household={household}
+          month={selectedMonth}
+          userId={user?.id ?? ""}
+        />
+      )}
+
       {/* Content */}
-      <section className="mt-6">
+      <section className={`mt-6 ${showHousehold ? "hidden" : ""}`}>
         <div className="flex flex-col lg:flex-row gap-6">
           {/* Left card: Donut + Allocated */}
           <div
@@ -659,7 +1463,7 @@ function DashboardInner() {
                   </div>
 
                   <div className="mt-3 grid grid-cols-1 gap-2">
-                    {chartData.map((d, i) => (
+                    {chartData.map((d) => (
                       <div
                         key={d.key}
                         className="flex items-center gap-3 text-sm"
@@ -669,17 +1473,11 @@ function DashboardInner() {
                             width: 12,
                             height: 12,
                             borderRadius: 3,
-                            background: [
-                              "#06b6a4",
-                              "#0ea5a3",
-                              "#f59e0b",
-                              "#ec4899",
-                              "#3b82f6",
-                            ][i % 5],
+                            background: d.color,
                           }}
                         />
                         <div className="flex-1 truncate">
-                          {d.key.replace("_", " / ")}
+                          {bucketName(d.key)}
                         </div>
                         <div className="font-medium">{d.value}%</div>
                       </div>
@@ -690,7 +1488,7 @@ function DashboardInner() {
                     <div className="flex items-start justify-between gap-4">
                       <div>
                         <div className="text-sm text-slate-500">
-                          Allocated this month
+                          Allocated {periodLabel}
                         </div>
                         <div className="mt-1 text-xl md:text-2xl font-semibold text-teal-600">
                           {formatCurrency(totalAllocated)}
@@ -698,8 +1496,14 @@ function DashboardInner() {
                         <div className="text-xs text-slate-400 mt-1">
                           {isMobile
                             ? ""
-                            : "Total allocated across all buckets (this month)"}
+                            : `Total allocated across all buckets (${periodLabel})`}
                         </div>
+                        {totalCarried > 0 && (
+                          <div className="text-xs text-teal-700 mt-1">
+                            + {formatCurrency(totalCarried)} carried over from{" "}
+                            {monthLabel(previousMonth(selectedMonth))}
+                          </div>
+                        )}
                       </div>
 
                       <div className="text-right">
@@ -737,24 +1541,28 @@ function DashboardInner() {
                         Quick actions
                       </div>
                       <div className="mt-2 flex flex-wrap gap-2">
-                        <button
-                          onClick={onEdit}
-                          className="px-3 py-2 rounded bg-slate-100 hover:bg-slate-200 text-sm"
-                          type="button"
-                        >
-                          Edit inputs
-                        </button>
+                        {canEditBudget && (
+                          <button
+                            onClick={onEdit}
+                            className="px-3 py-2 rounded bg-slate-100 hover:bg-slate-200 text-sm"
+                            type="button"
+                          >
+                            Edit inputs
+                          </button>
+                        )}
 
-                        <button
-                          onClick={() => {
-                            setOpenAddModal(true);
-                            setNewBucket("");
-                          }}
-                          className="px-3 py-2 rounded bg-teal-600 text-white text-sm hover:brightness-95"
-                          type="button"
-                        >
-                          Add spend
-                        </button>
+                        {canSpend && (
+                          <button
+                            onClick={() => {
+                              setOpenAddModal(true);
+                              setNewBucket("");
+                            }}
+                            className="px-3 py-2 rounded bg-teal-600 text-white text-sm hover:brightness-95"
+                            type="button"
+                          >
+                            Add spend
+                          </button>
+                        )}
 
                         <button
                           onClick={() => {
@@ -766,6 +1574,26 @@ function DashboardInner() {
                         >
                           Export
                         </button>
+
+                        {canSpend && (
+                          <>
+                            <button
+                              onClick={() => setOpenImportModal(true)}
+                              className="px-3 py-2 rounded bg-slate-100 text-slate-700 text-sm hover:bg-slate-200"
+                              type="button"
+                            >
+                              Import
+                            </button>
+
+                            <button
+                              onClick={() => setOpenPasteModal(true)}
+                              className="px-3 py-2 rounded bg-slate-100 text-slate-700 text-sm hover:bg-slate-200"
+                              type="button"
+                            >
+                              Paste SMS
+                            </button>
+                          </>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -793,37 +1621,63 @@ function DashboardInner() {
                           </div>
                         )}
 
-                        {transactions.slice(0, 10).map((t) => (
-                          <div
-                            key={t._id ?? t.createdAt}
-                            className="flex justify-between items-center bg-slate-50 rounded p-2"
-                          >
-                            <div className="min-w-0">
-                              <div className="font-medium text-sm truncate">
-                                {t.category ?? t.bucket}
-                              </div>
-                              <div className="text-xs text-slate-400 truncate">
-                                {t.bucket} •{" "}
-                                {t.createdAt
-                                  ? new Date(t.createdAt).toLocaleString()
-                                  : ""}
+                        {transactions.slice(0, 10).map((t) =>
+                          editDraft && editingTxn?._id === t._id ? (
+                            <TxnEditRow
+                              key={t._id}
+                              draft={editDraft}
+                              buckets={_keys(distribution ?? {})}
+                              bucketName={bucketName}
+                              saving={saving}
+                              error={error}
+                              onChange={setEditDraft}
+                              onSave={handleUpdateTransaction}
+                              onCancel={cancelEditTransaction}
+                            />
+                          ) : (
+                            <div
+                              key={t._id ?? t.createdAt}
+                              className="flex justify-between items-center bg-slate-50 rounded p-2"
+                            >
+                              <div className="min-w-0">
+                                <div className="font-medium text-sm truncate">
+                                  {t.category ?? t.bucket}
+                                </div>
+                                <div className="text-xs text-slate-400 truncate">
+                                  {t.bucket} •{" "}
+                                  {txnDate(t)
+                                    ? formatDateTime(txnDate(t)!)
+                                    : ""}
+                                </div>
                               </div>
-                            </div>
 
-                            <div className="flex items-center gap-3 ml-4">
-                              <div className="text-sm font-semibold text-rose-600">
-                                -{formatCurrency(t.amount)}
+                              <div className="flex items-center gap-3 ml-4">
+                                <TxnAmount t={t} sign="-" />
+                                {canEditBudget &&
+                                  !String(t._id ?? "").startsWith("temp_") && (
+                                    <button
+                                      onClick={() => startEditTransaction(t)}
+                                      className="text-xs text-teal-600"
+                                      type="button"
+                                    >
+                                      Edit
+                                    </button>
+                                  )}
+                                {canEditBudget && (
+                                  <button
+                                    onClick={() =>
+                                      handleDeleteTransaction(t._id)
+                                    }
+                                    className="text-xs text-slate-500"
+                                    type="button"
+                                  >
+                                    Delete
+                                  </button>
+                                )}
                               </div>
-                              <button
-                                onClick={() => handleDeleteTransaction(t._id)}
-                                className="text-xs text-slate-500"
-                                type="button"
-                              >
-                                Delete
-                              </button>
                             </div>
-                          </div>
-                        ))}
+                          )
+                        )}
                       </div>
                     )}
                   </div>
@@ -839,6 +1693,140 @@ function DashboardInner() {
                     Show all transactions
                   </button>
                 </div>
+
+                {/* savings goals */}
+                <div className="mt-4 border-t pt-3" style={{width: "100%"}}>
+                  <GoalsPanel
+                    goals={goals}
+                    buckets={userBuckets}
+                    onCreate={canEditBudget ? createGoal : undefined}
+                    onArchive={
+                      canEditBudget
+                        ? (id) => updateGoal(id, {archived: true})
+                        : undefined
+                    }
+                    onContribute={
+                      canSpend
+                        ? (g) => {
+                            setNewBucket(g.bucket);
+                            setNewGoalId(g._id);
+                            setOpenAddModal(true);
+                          }
+                        : undefined
+                    }
+                  />
+                </div>
+
+                {/* upcoming recurring spends */}
+                <div className="mt-4 border-t pt-3" style={{width: "100%"}}>
+                  <div className="flex items-center justify-between">
+                    <div className="text-sm text-slate-600">Upcoming</div>
+                    <div className="text-xs text-slate-400">Next 30 days</div>
+                  </div>
+
+                  <div className="mt-3 space-y-2">
+                    {upcoming.length === 0 && (
+                      <div className="text-xs text-slate-400">
+                        Nothing scheduled — pick &quot;Repeats&quot; in Add
+                        spend for rent, bills or subscriptions.
+                      </div>
+                    )}
+                    {upcoming.map((u) => {
+                      const template = recurring.find(
+                        (r) => r._id === u.recurringId
+                      );
+                      // only the next occurrence of a template can be skipped
+                      const isNext = template?.nextRunAt === u.date;
+                      return (
+                        <div
+                          key={`${u.recurringId}-${u.date}`}
+                          className="flex justify-between items-center bg-slate-50 rounded p-2"
+                        >
+                          <div className="min-w-0">
+                            <div className="font-medium text-sm truncate">
+                              {u.category ?? bucketName(u.bucket)}
+                            </div>
+                            <div className="text-xs text-slate-400 truncate">
+                              {bucketName(u.bucket)} • {formatDate(u.date)} •{" "}
+                              {CADENCES.find((c) => c.value === u.cadence)
+                                ?.label ?? u.cadence}
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-3 ml-4">
+                            <div className="text-sm font-semibold text-slate-700">
+                              {formatCurrency(u.amount)}
+                            </div>
+                            {isNext && canEditBudget && (
+                              <button
+                                onClick={() =>
+                                  handleRecurringAction(() =>
+                                    skipNext(u.recurringId)
+                                  )
+                                }
+                                className="text-xs text-teal-600"
+                                type="button"
+                              >
+                                Skip
+                              </button>
+                            )}
+                            {isNext && canEditBudget && (
+                              <button
+                                onClick={() =>
+                                  handleRecurringAction(() =>
+                                    setPaused(u.recurringId, true)
+                                  )
+                                }
+                                className="text-xs text-slate-500"
+                                type="button"
+                              >
+                                Pause
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+
+                    {pausedRecurring.map((r) => (
+                      <div
+                        key={r._id}
+                        className="flex justify-between items-center rounded p-2 border border-dashed border-slate-200"
+                      >
+                        <div className="min-w-0">
+                          <div className="text-sm text-slate-500 truncate">
+                            {r.category ?? bucketName(r.bucket)} (paused)
+                          </div>
+                        </div>
+                        <div
+                          className={`flex items-center gap-3 ml-4 ${canEditBudget ? "" : "hidden"}`}
+                        >
+                          <button
+                            onClick={() =>
+                              handleRecurringAction(() =>
+                                setPaused(r._id, false)
+                              )
+                            }
+                            className="text-xs text-teal-600"
+                            type="button"
+                          >
+                            Resume
+                          </button>
+                          <button
+                            onClick={() =>
+                              handleRecurringAction(() =>
+                                removeRecurring(r._id)
+                              )
+                            }
+                            className="text-xs text-slate-500"
+                            type="button"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
               </div>
             </div>
           </div>
@@ -859,16 +1847,20 @@ function DashboardInner() {
               <div className="flex flex-col gap-3">
                 {_map(_keys(distribution ?? {}), (k: string, idx: number) => {
                   const alloc = Number(distribution?.[k] ?? 0);
+                  const carried = Number(balances?.carriedOver?.[k] ?? 0);
+                  const available = alloc + carried;
                   const spent = spentByBucket[k] ?? 0;
-                  const remainingRaw = alloc - (spent || 0);
+                  const remainingRaw =
+                    balances?.remaining[k] ?? available - (spent || 0);
                   const remaining = Math.max(0, remainingRaw);
                   const pct =
-                    alloc > 0
-                      ? Math.min(100, Math.round((spent / alloc) * 100))
+                    available > 0
+                      ? Math.min(100, Math.round((spent / available) * 100))
                       : 0;
 
-                  const accent = "#06b6a4";
-                  const friendlyName = k.replace("_", " / ");
+                  const accent = bucketColor(k);
+                  const friendlyName = bucketName(k);
+                  const icon = userBuckets.find((b) => b.key === k)?.icon;
 
                   return (
                     <div
@@ -882,19 +1874,45 @@ function DashboardInner() {
                           style={{background: accent}}
                           aria-hidden
                         >
-                          {friendlyName
-                            .split(/[\s\/]/)
-                            .map((s) => s[0])
-                            .slice(0, 2)
-                            .join("")
-                            .toUpperCase()}
+                          {icon ||
+                            friendlyName
+                              .split(/[\s\/]+/)
+                              .map((s) => s[0])
+                              .slice(0, 2)
+                              .join("")
+                              .toUpperCase()}
                         </div>
 
                         <div className="min-w-0">
                           <div className="text-sm font-medium text-slate-800 truncate">
                             {friendlyName}
                           </div>
-                          <div className="text-xs text-slate-500">Bucket</div>
+                          <div className="flex flex-wrap items-center gap-1 text-xs text-slate-500">
+                            Bucket
+                            {notifications
+                              .filter((n) => n.bucket === k)
+                              .map((n) => (
+                                <button
+                                  key={n._id}
+                                  type="button"
+                                  title={n.message}
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    if (!n.readAt)
+                                      markNotificationsRead([n._id]);
+                                  }}
+                                  className={`px-1.5 py-0.5 rounded-full text-[10px] font-medium ${
+                                    n.type === "overspent"
+                                      ? "bg-rose-100 text-rose-700"
+                                      : "bg-amber-100 text-amber-700"
+                                  } ${n.readAt ? "opacity-50" : ""}`}
+                                >
+                                  {n.type === "overspent"
+                                    ? "Over budget"
+                                    : `${n.threshold ?? n.percentSpent}% spent`}
+                                </button>
+                              ))}
+                          </div>
                         </div>
 
                         {/* remaining amount on the right for wider screens */}
@@ -943,6 +1961,11 @@ function DashboardInner() {
                           <span className="text-slate-700 font-medium">
                             {formatCurrency(alloc)}
                           </span>
+                          {carried > 0 && (
+                            <span className="ml-1 text-teal-700">
+                              (+{formatCurrency(carried)} carried)
+                            </span>
+                          )}
                         </div>
                       </div>
 
@@ -960,18 +1983,20 @@ function DashboardInner() {
                           View
                         </button>
 
-                        <button
-                          type="button"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            setNewBucket(k);
-                            setOpenAddModal(true);
-                          }}
-                          className="text-sm font-medium text-teal-600 hover:underline focus:outline-none"
-                          aria-label={`Add spend to ${friendlyName}`}
-                        >
-                          Add spend
-                        </button>
+                        {canSpend && (
+                          <button
+                            type="button"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setNewBucket(k);
+                              setOpenAddModal(true);
+                            }}
+                            className="text-sm font-medium text-teal-600 hover:underline focus:outline-none"
+                            aria-label={`Add spend to ${friendlyName}`}
+                          >
+                            Add spend
+                          </button>
+                        )}
                       </div>
                     </div>
                   );
@@ -1029,10 +2054,19 @@ function DashboardInner() {
                   <option value="">Select bucket</option>
                   {_map(_keys(distribution ?? {}), (k: string) => (
                     <option key={k} value={k}>
-                      {k.replace("_", " / ")}
+                      {bucketName(k)}
                     </option>
                   ))}
                 </select>
+                {autoFilled && newBucket === autoFilled.bucket && (
+                  <div className="text-xs text-slate-400 mt-1">
+                    {autoFilled.source === "rule"
+                      ? "Filled in by your rule"
+                      : autoFilled.source === "history"
+                        ? "Filled in like your past spends"
+                        : "Suggested from the notes"}
+                  </div>
+                )}
               </div>
 
               <div ref={catRef}>
@@ -1092,15 +2126,186 @@ function DashboardInner() {
 
               <div>
                 <label className="text-xs text-slate-500">Amount</label>
+                <div className="flex gap-2 mt-1">
+                  <input
+                    value={newAmount}
+                    onChange={(e) => setNewAmount(e.target.value)}
+                    inputMode="numeric"
+                    className="flex-1 p-2 border rounded"
+                    placeholder="0"
+                  />
+                  <select
+                    value={newCurrency}
+                    onChange={(e) => {
+                      setNewCurrency(e.target.value);
+                      setNewFxRate("");
+                    }}
+                    className="p-2 border rounded"
+                    aria-label="Currency"
+                  >
+                    <option value="">{homeCurrency}</option>
+                    {Array.from(
+                      new Set([
+                        ...fxRates.map((r) => r.currency),
+                        ...COMMON_CURRENCIES,
+                      ])
+                    )
+                      .filter((c) => c !== homeCurrency)
+                      .map((c) => (
+                        <option key={c} value={c}>
+                          {c}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+                {newCurrency && (
+                  <div className="mt-1 flex items-center gap-2 text-xs text-slate-500">
+                    <span>1 {newCurrency} =</span>
+                    <input
+                      value={newFxRate}
+                      onChange={(e) => setNewFxRate(e.target.value)}
+                      inputMode="decimal"
+                      className="w-20 p-1 border rounded"
+                      placeholder={
+                        rateOn(
+                          fxRates,
+                          newCurrency,
+                          newDate || toDateInput()
+                        )?.toString() ?? "rate"
+                      }
+                      aria-label="Exchange rate"
+                    />
+                    <span>{homeCurrency}</span>
+                    {newRate && Number(newAmount) > 0 ? (
+                      <span>≈ {formatCurrency(newHomeAmount)}</span>
+                    ) : null}
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="text-xs text-slate-500">Date</label>
+                  <input
+                    type="date"
+                    value={newDate}
+                    onChange={(e) => setNewDate(e.target.value)}
+                    className="w-full mt-1 p-2 border rounded"
+                  />
+                </div>
+                <div>
+                  <label className="text-xs text-slate-500">
+                    Payment method
+                  </label>
+                  <select
+                    value={newPaymentMethod}
+                    onChange={(e) =>
+                      setNewPaymentMethod(e.target.value as PaymentMethod | "")
+                    }
+                    className="w-full mt-1 p-2 border rounded"
+                  >
+                    <option value="">—</option>
+                    {PAYMENT_METHODS.map((m) => (
+                      <option key={m.value} value={m.value}>
+                        {m.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="text-xs text-slate-500">
+                  Notes (optional)
+                </label>
                 <input
-                  value={newAmount}
-                  onChange={(e) => setNewAmount(e.target.value)}
-                  inputMode="numeric"
+                  value={newNotes}
+                  onChange={(e) => setNewNotes(e.target.value)}
                   className="w-full mt-1 p-2 border rounded"
-                  placeholder="0"
+                  placeholder="e.g., split with roommate"
                 />
               </div>
 
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="text-xs text-slate-500">Repeats</label>
+                  <select
+                    value={newRepeat}
+                    onChange={(e) =>
+                      setNewRepeat(e.target.value as Cadence | "")
+                    }
+                    disabled={!canEditBudget}
+                    title={
+                      canEditBudget
+                        ? undefined
+                        : "Your role can't schedule repeating spends"
+                    }
+                    className="w-full mt-1 p-2 border rounded"
+                  >
+                    <option value="">Doesn&apos;t repeat</option>
+                    {CADENCES.map((c) => (
+                      <option key={c.value} value={c.value}>
+                        {c.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {newRepeat ? (
+                  <div>
+                    <label className="text-xs text-slate-500">
+                      Until (optional)
+                    </label>
+                    <input
+                      type="date"
+                      value={newRepeatUntil}
+                      onChange={(e) => setNewRepeatUntil(e.target.value)}
+                      className="w-full mt-1 p-2 border rounded"
+                    />
+                  </div>
+                ) : goals.some((g) => g.bucket === newBucket) ? (
+                  <div>
+                    <label className="text-xs text-slate-500">
+                      Towards goal
+                    </label>
+                    <select
+                      value={newGoalId}
+                      onChange={(e) => setNewGoalId(e.target.value)}
+                      className="w-full mt-1 p-2 border rounded"
+                    >
+                      <option value="">—</option>
+                      {/* a goal only takes spends from its own bucket */}
+                      {goals
+                        .filter((g) => g.bucket === newBucket)
+                        .map((g) => (
+                          <option key={g._id} value={g._id}>
+                            {g.name}
+                          </option>
+                        ))}
+                    </select>
+                  </div>
+                ) : null}
+              </div>
+
+              {newBucket === "parents_preserve" &&
+                !newRepeat &&
+                dependents.length > 0 && (
+                  <div>
+                    <label className="text-xs text-slate-500">Sent to</label>
+                    <select
+                      value={newDependentId}
+                      onChange={(e) => setNewDependentId(e.target.value)}
+                      className="w-full mt-1 p-2 border rounded"
+                    >
+                      <option value="">—</option>
+                      {dependents.map((d) => (
+                        <option key={d._id} value={d._id}>
+                          {d.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
               {error && <div className="text-rose-600 text-sm">{error}</div>}
 
               <div className="flex justify-end gap-2">
@@ -1149,7 +2354,7 @@ function DashboardInner() {
           >
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-lg font-semibold text-teal-600">
-                {activeBucket.replace("_", " / ")}
+                {bucketName(activeBucket)}
               </h3>
               <div className="flex items-center gap-2">
                 <button onClick={closeBucketModal} className="text-slate-500">
@@ -1171,35 +2376,57 @@ function DashboardInner() {
                   )}
                   {transactions
                     .filter((t) => t.bucket === activeBucket)
-                    .map((t) => (
-                      <div
-                        key={t._id ?? t.createdAt}
-                        className="flex justify-between items-center bg-slate-50 rounded p-2"
-                      >
-                        <div>
-                          <div className="font-medium text-sm">
-                            {t.category ?? "—"}
-                          </div>
-                          <div className="text-xs text-slate-400">
-                            {t.createdAt
-                              ? new Date(t.createdAt).toLocaleString()
-                              : ""}
+                    .map((t) =>
+                      editDraft && editingTxn?._id === t._id ? (
+                        <TxnEditRow
+                          key={t._id}
+                          draft={editDraft}
+                          buckets={_keys(distribution ?? {})}
+                          bucketName={bucketName}
+                          saving={saving}
+                          error={error}
+                          onChange={setEditDraft}
+                          onSave={handleUpdateTransaction}
+                          onCancel={cancelEditTransaction}
+                        />
+                      ) : (
+                        <div
+                          key={t._id ?? t.createdAt}
+                          className="flex justify-between items-center bg-slate-50 rounded p-2"
+                        >
+                          <div>
+                            <div className="font-medium text-sm">
+                              {t.category ?? "—"}
+                            </div>
+                            <div className="text-xs text-slate-400">
+                              {txnDate(t) ? formatDateTime(txnDate(t)!) : ""}
+                            </div>
                           </div>
-                        </div>
-                        <div className="flex items-center gap-3">
-                          <div className="text-sm font-semibold text-rose-600">
-                            -{formatCurrency(t.amount)}
+                          <div className="flex items-center gap-3">
+                            <TxnAmount t={t} sign="-" />
+                            {canEditBudget &&
+                              !String(t._id ?? "").startsWith("temp_") && (
+                                <button
+                                  onClick={() => startEditTransaction(t)}
+                                  className="text-xs text-teal-600"
+                                  type="button"
+                                >
+                                  Edit
+                                </button>
+                              )}
+                            {canEditBudget && (
+                              <button
+                                onClick={() => handleDeleteTransaction(t._id)}
+                                className="text-xs text-slate-500"
+                                type="button"
+                              >
+                                Delete
+                              </button>
+                            )}
                           </div>
-                          <button
-                            onClick={() => handleDeleteTransaction(t._id)}
-                            className="text-xs text-slate-500"
-                            type="button"
-                          >
-                            Delete
-                          </button>
                         </div>
-                      </div>
-                    ))}
+                      )
+                    )}
                 </div>
               </div>
 
@@ -1226,7 +2453,7 @@ function DashboardInner() {
                       {(
                         categorySuggestions[
                           suggestionKeyForBucket(activeBucket)
-                        ] || []
+                        ] || ["Other"]
                       ).map((s) => (
                         <option key={s} value={s} />
                       ))}
@@ -1314,17 +2541,17 @@ function DashboardInner() {
               <div className="px-4 py-3 border-b sticky top-0 bg-white z-20 flex items-center justify-between">
                 <div>
                   <div className="text-lg font-semibold text-teal-600">
-                    Transactions — This month
+                    Transactions —{" "}
+                    {isThisMonth
+                      ? cycleStartDay > 1
+                        ? "This pay period"
+                        : "This month"
+                      : monthLabel(selectedMonth)}
                   </div>
                   <div className="text-xs text-slate-500 mt-1">
-                    Showing {transactionsThisMonth.length} total • Total:{" "}
+                    Showing {allTxns.total} total • Total:{" "}
                     <span className="font-medium">
-                      {formatCurrency(
-                        filteredMonthTxns.reduce(
-                          (s, t) => s + Number(t.amount || 0),
-                          0
-                        )
-                      )}
+                      {formatCurrency(allTxns.totalAmount)}
                     </span>
                   </div>
                 </div>
@@ -1340,19 +2567,22 @@ function DashboardInner() {
                 </div>
               </div>
 
-              <div className="p-4 overflow-auto h-[calc(85vh-96px)]">
-                {loadingTxns ? (
+              <div
+                className="p-4 overflow-auto h-[calc(85vh-96px)]"
+                onScroll={onAllTxnsScroll}
+              >
+                {allTxns.loading && allTxns.items.length === 0 ? (
                   <div className="text-sm text-slate-500">
                     Loading transactions…
                   </div>
                 ) : (
                   <div className="space-y-3">
-                    {filteredMonthTxns.length === 0 ? (
+                    {allTxns.items.length === 0 ? (
                       <div className="text-sm text-slate-400">
-                        No transactions found for this month.
+                        No transactions found for {periodLabel}.
                       </div>
                     ) : (
-                      filteredMonthTxns.map((t) => (
+                      allTxns.items.map((t) => (
                         <div
                           key={t._id ?? t.createdAt}
                           className="flex items-center justify-between bg-slate-50 p-3 rounded"
@@ -1363,33 +2593,39 @@ function DashboardInner() {
                             </div>
                             <div className="text-xs text-slate-400 truncate">
                               {t.bucket} •{" "}
-                              {t.createdAt
-                                ? new Date(t.createdAt).toLocaleString()
+                              {txnDate(t) ? formatDateTime(txnDate(t)!) : ""}
+                              {t.paymentMethod
+                                ? ` • ${paymentMethodLabel(t.paymentMethod)}`
                                 : ""}
                             </div>
                           </div>
 
                           <div className="flex items-center gap-3 ml-4">
-                            <div className="text-sm font-semibold text-rose-600">
-                              {formatCurrency(t.amount)}
-                            </div>
-                            <button
-                              onClick={() => {
-                                const ok = window.confirm(
-                                  "Delete this transaction?"
-                                );
-                                if (!ok) return;
-                                handleDeleteTransaction(t._id);
-                              }}
-                              className="text-xs text-slate-500"
-                              type="button"
-                            >
-                              Delete
-                            </button>
+                            <TxnAmount t={t} />
+                            {canEditBudget && (
+                              <button
+                                onClick={() => {
+                                  const ok = window.confirm(
+                                    "Delete this transaction?"
+                                  );
+                                  if (!ok) return;
+                                  deleteFromAllTxns(t._id);
+                                }}
+                                className="text-xs text-slate-500"
+                                type="button"
+                              >
+                                Delete
+                              </button>
+                            )}
                           </div>
                         </div>
                       ))
                     )}
+                    {allTxns.hasMore && (
+                      <div className="text-xs text-slate-400 text-center py-2">
+                        {allTxns.loading ? "Loading more…" : "Scroll for more"}
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -1398,12 +2634,12 @@ function DashboardInner() {
                 <input
                   value={txnSearch}
                   onChange={(e) => setTxnSearch(e.target.value)}
-                  placeholder="Search bucket, category, amount..."
+                  placeholder="Search category or notes..."
                   className="flex-1 px-3 py-2 border rounded text-sm"
                   type="search"
                 />
                 <button
-                  onClick={() => exportTransactionsCSV(filteredMonthTxns)}
+                  onClick={exportAllTxns}
                   className="px-3 py-2 rounded bg-teal-600 text-white text-sm"
                   type="button"
                 >
@@ -1422,17 +2658,17 @@ function DashboardInner() {
               <div className="flex items-center justify-between p-4 border-b">
                 <div>
                   <div className="text-lg font-semibold text-teal-600">
-                    Transactions — This month
+                    Transactions —{" "}
+                    {isThisMonth
+                      ? cycleStartDay > 1
+                        ? "This pay period"
+                        : "This month"
+                      : monthLabel(selectedMonth)}
                   </div>
                   <div className="text-xs text-slate-500 mt-1">
-                    Showing {transactionsThisMonth.length} total • Total:{" "}
+                    Showing {allTxns.total} total • Total:{" "}
                     <span className="font-medium">
-                      {formatCurrency(
-                        filteredMonthTxns.reduce(
-                          (s, t) => s + Number(t.amount || 0),
-                          0
-                        )
-                      )}
+                      {formatCurrency(allTxns.totalAmount)}
                     </span>
                   </div>
                 </div>
@@ -1441,12 +2677,12 @@ function DashboardInner() {
                   <input
                     value={txnSearch}
                     onChange={(e) => setTxnSearch(e.target.value)}
-                    placeholder="Search bucket, category, amount..."
+                    placeholder="Search category or notes..."
                     className="px-3 py-2 border rounded text-sm"
                     type="search"
                   />
                   <button
-                    onClick={() => exportTransactionsCSV(filteredMonthTxns)}
+                    onClick={exportAllTxns}
                     className="px-3 py-2 rounded bg-teal-600 text-white text-sm"
                     type="button"
                   >
@@ -1462,19 +2698,22 @@ function DashboardInner() {
                 </div>
               </div>
 
-              <div className="max-h-[70vh] overflow-auto p-4">
-                {loadingTxns ? (
+              <div
+                className="max-h-[70vh] overflow-auto p-4"
+                onScroll={onAllTxnsScroll}
+              >
+                {allTxns.loading && allTxns.items.length === 0 ? (
                   <div className="text-sm text-slate-500">
                     Loading transactions…
                   </div>
                 ) : (
                   <div className="space-y-3">
-                    {filteredMonthTxns.length === 0 ? (
+                    {allTxns.items.length === 0 ? (
                       <div className="text-sm text-slate-400">
-                        No transactions found for this month.
+                        No transactions found for {periodLabel}.
                       </div>
                     ) : (
-                      filteredMonthTxns.map((t) => (
+                      allTxns.items.map((t) => (
                         <div
                           key={t._id ?? t.createdAt}
                           className="flex items-center justify-between bg-slate-50 p-3 rounded"
@@ -1485,33 +2724,39 @@ function DashboardInner() {
                             </div>
                             <div className="text-xs text-slate-400 truncate">
                               {t.bucket} •{" "}
-                              {t.createdAt
-                                ? new Date(t.createdAt).toLocaleString()
+                              {txnDate(t) ? formatDateTime(txnDate(t)!) : ""}
+                              {t.paymentMethod
+                                ? ` • ${paymentMethodLabel(t.paymentMethod)}`
                                 : ""}
                             </div>
                           </div>
 
                           <div className="flex items-center gap-3 ml-4">
-                            <div className="text-sm font-semibold text-rose-600">
-                              {formatCurrency(t.amount)}
-                            </div>
-                            <button
-                              onClick={() => {
-                                const ok = window.confirm(
-                                  "Delete this transaction?"
-                                );
-                                if (!ok) return;
-                                handleDeleteTransaction(t._id);
-                              }}
-                              className="text-xs text-slate-500"
-                              type="button"
-                            >
-                              Delete
-                            </button>
+                            <TxnAmount t={t} />
+                            {canEditBudget && (
+                              <button
+                                onClick={() => {
+                                  const ok = window.confirm(
+                                    "Delete this transaction?"
+                                  );
+                                  if (!ok) return;
+                                  deleteFromAllTxns(t._id);
+                                }}
+                                className="text-xs text-slate-500"
+                                type="button"
+                              >
+                                Delete
+                              </button>
+                            )}
                           </div>
                         </div>
                       ))
                     )}
+                    {allTxns.hasMore && (
+                      <div className="text-xs text-slate-400 text-center py-2">
+                        {allTxns.loading ? "Loading more…" : "Scroll for more"}
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -1519,6 +2764,20 @@ function DashboardInner() {
           )}
         </div>
       )}
+
+      <ImportStatementModal
+        open={openImportModal}
+        onClose={() => setOpenImportModal(false)}
+        buckets={userBuckets}
+        onImported={reloadLedger}
+      />
+
+      <PasteMessagesModal
+        open={openPasteModal}
+        onClose={() => setOpenPasteModal(false)}
+        buckets={userBuckets}
+        onSaved={reloadLedger}
+      />
     </main>
   );
 }
@@ -0,0 +1,418 @@
+"use client";
+
+import React, {useCallback, useEffect, useMemo, useState} from "react";
+import {useAuth} from "@/lib/auth-client";
+import {can} from "@/app/types/household";
+import fetchWithAuth from "@/lib/fetchWithAuth";
+import {useRequireAuth} from "@/lib/useRequireAuth";
+import {useDependents} from "@/lib/useDependents";
+import {formatCurrency} from "@/utils/formatCurrency";
+import {formatDate} from "@/utils/locale";
+import {DEFAULT_BUCKETS} from "@/app/types/splits";
+import {
+  RELATIONS,
+  relationLabel,
+  type DependentSummary,
+  type Relation,
+} from "@/app/types/dependents";
+
+// short month names in the user's locale, for the yearly summary columns
+function monthNames() {
+  return Array.from({length: 12}, (_, i) =>
+    formatDate(Date.UTC(2000, i, 1), {month: "short", timeZone: "UTC"})
+  );
+}
+
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/*
+  Dependents register: the people the parents_preserve bucket supports, the transfers
+  sent to each and a yearly summary that can be printed or copied to share with family.
+*/
+export default function DependentsPage() {
+  const {user} = useAuth();
+  useRequireAuth({redirectTo: "/"});
+
+  const {
+    dependents,
+    reload: reloadDependents,
+    create: createDependent,
+    update: updateDependent,
+  } = useDependents(Boolean(user?.id));
+  const canSpend = can(user, "spend");
+  const canEditBudget = can(user, "budget");
+  const [summary, setSummary] = useState<DependentSummary[]>([]);
+  const [summaryTotal, setSummaryTotal] = useState(0);
+  const [year, setYear] = useState(() => new Date().getFullYear());
+  const [err, setErr] = useState("");
+  const [msg, setMsg] = useState("");
+
+  // new dependent
+  const [name, setName] = useState("");
+  const [relation, setRelation] = useState<Relation>("parent");
+
+  // new transfer
+  const [recipient, setRecipient] = useState("");
+  const [amount, setAmount] = useState("");
+  const [date, setDate] = useState(today);
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // transfers only come out of parents_preserve (the API refuses any other bucket)
+  const transferBucket = useMemo(
+    () =>
+      (user?.buckets?.length ? user.buckets : DEFAULT_BUCKETS).find(
+        (b) => b.key === "parents_preserve"
+      ),
+    [user?.buckets]
+  );
+
+  const api = `${process.env.NEXT_PUBLIC_BACKEND_URL}/api`;
+
+  const loadSummary = useCallback(async () => {
+    try {
+      const res = await fetchWithAuth(
+        `${api}/dependents/summary?year=${year}`,
+        {credentials: "include"}
+      );
+      if (!res.ok) throw new Error("Failed to load summary");
+      const j = await res.json();
+      setSummary(Array.isArray(j.dependents) ? j.dependents : []);
+      setSummaryTotal(Number(j.total || 0));
+    } catch (e) {
+      console.error("load dependents summary error", e);
+    }
+  }, [api, year]);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    loadSummary();
+  }, [user?.id, loadSummary]);
+
+  async function addDependent() {
+    setErr("");
+    setMsg("");
+    if (!name.trim()) return setErr("Enter a name");
+    try {
+      const dependent = await createDependent({name: name.trim(), relation});
+      setName("");
+      if (!recipient) setRecipient(dependent._id);
+      await loadSummary();
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Failed to save dependent");
+    }
+  }
+
+  async function archiveDependent(id: string) {
+    setErr("");
+    try {
+      await updateDependent(id, {archived: true});
+      if (recipient === id) setRecipient("");
+      await loadSummary();
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Failed to archive dependent");
+    }
+  }
+
+  async function logTransfer() {
+    setErr("");
+    setMsg("");
+    const amt = Number(amount);
+    if (!recipient) return setErr("Pick who received the money");
+    if (!amt || amt <= 0) return setErr("Enter a valid amount");
+    setSaving(true);
+    try {
+      const res = await fetchWithAuth(`${api}/transactions`, {
+        method: "POST",
+        credentials: "include",
+        headers: {"Content-Type": "application/json"},
+        body: JSON.stringify({
+          bucket: "parents_preserve",
+          category: "Parents",
+          amount: amt,
+          dependentId: recipient,
+          notes: notes.trim() || undefined,
+          ...(date !== today()
+            ? {occurredAt: new Date(`${date}T12:00:00`).toISOString()}
+            : {}),
+        }),
+      });
+      if (!res.ok) {
+        // e.g. 409 when the bucket is set to block overspending
+        const j = await res.json().catch(() => ({}));
+        throw new Error(j.error || "Failed to save transfer");
+      }
+      setAmount("");
+      setNotes("");
+      setMsg("Transfer saved.");
+      await Promise.all([reloadDependents(), loadSummary()]);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Failed to save transfer");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  // plain-text version of the report for messaging apps
+  async function copySummary() {
+    const lines = [
+      `Support summary ${year}`,
+      ...summary
+        .filter((d) => d.total > 0)
+        .map(
+          (d) =>
+            `${d.name} (${relationLabel(d.relation)}): ${formatCurrency(
+              d.total
+            )} in ${d.transfers} transfer${d.transfers === 1 ? "" : "s"}`
+        ),
+      `Total: ${formatCurrency(summaryTotal)}`,
+    ];
+    try {
+      await navigator.clipboard.writeText(lines.join("\n"));
+      setMsg("Summary copied.");
+    } catch {
+      setErr("Could not copy — use Print instead.");
+    }
+  }
+
+  const thisYear = new Date().getFullYear();
+  const years = [thisYear, thisYear - 1, thisYear - 2, thisYear - 3];
+
+  return (
+    <main className="py-8 px-4 lg:px-12">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <section className="bg-white rounded-2xl p-6 border border-slate-100 shadow-sm print:hidden">
+          <h1 className="text-xl font-semibold text-slate-900">Dependents</h1>
+          <p className="text-sm text-slate-600 mt-1">
+            The people your Parents / Preserve share goes to, and what each of
+            them received.
+          </p>
+
+          <div className="mt-4 space-y-2">
+            {dependents.length === 0 && (
+              <div className="text-xs text-slate-400">
+                No dependents yet — add a parent, sibling or anyone you support.
+              </div>
+            )}
+            {dependents.map((d) => (
+              <div
+                key={d._id}
+                className="flex items-center justify-between bg-slate-50 rounded p-2 text-sm"
+              >
+                <div className="min-w-0">
+                  <div className="font-medium text-slate-800 truncate">
+                    {d.name}
+                  </div>
+                  <div className="text-xs text-slate-500">
+                    {relationLabel(d.relation)} · {d.transfers} transfer
+                    {d.transfers === 1 ? "" : "s"}
+                  </div>
+                </div>
+                <div className="flex items-center gap-3">
+                  <div className="font-medium">
+                    {formatCurrency(d.totalSent)}
+                  </div>
+                  {canEditBudget && (
+                    <button
+                      type="button"
+                      onClick={() => archiveDependent(d._id)}
+                      className="text-xs text-slate-500 hover:underline"
+                    >
+                      Archive
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {canEditBudget && (
+            <>
+              <div className="grid grid-cols-3 gap-2 mt-3">
+                <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Name"
+                  className="col-span-2 p-2 border border-slate-200 rounded text-sm"
+                  aria-label="Name"
+                />
+                <select
+                  value={relation}
+                  onChange={(e) => setRelation(e.target.value as Relation)}
+                  className="p-2 border border-slate-200 rounded text-sm"
+                  aria-label="Relation"
+                >
+                  {RELATIONS.map((r) => (
+                    <option key={r.value} value={r.value}>
+                      {r.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <button
+                type="button"
+                onClick={addDependent}
+                className="mt-2 text-sm text-teal-600 hover:underline"
+              >
+                + Add dependent
+              </button>
+            </>
+          )}
+        </section>
+
+        {dependents.length > 0 && canSpend && !transferBucket && (
+          <div className="text-sm text-slate-500 print:hidden">
+            Transfers come out of a Parents Preserve bucket; add one in your
+            splits to log them here.
+          </div>
+        )}
+
+        {dependents.length > 0 && canSpend && transferBucket && (
+          <section className="bg-white rounded-2xl p-6 border border-slate-100 shadow-sm print:hidden">
+            <h2 className="text-lg font-medium text-slate-900">
+              Log a transfer
+            </h2>
+            <div className="grid grid-cols-2 gap-2 mt-3">
+              <select
+                value={recipient}
+                onChange={(e) => setRecipient(e.target.value)}
+                className="p-2 border border-slate-200 rounded text-sm"
+                aria-label="Recipient"
+              >
+                <option value="">Sent to…</option>
+                {dependents.map((d) => (
+                  <option key={d._id} value={d._id}>
+                    {d.name}
+                  </option>
+                ))}
+              </select>
+              <input
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                inputMode="numeric"
+                placeholder="Amount"
+                className="p-2 border border-slate-200 rounded text-sm"
+                aria-label="Amount"
+              />
+              <input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className="p-2 border border-slate-200 rounded text-sm"
+                aria-label="Date"
+              />
+              <div className="p-2 text-sm text-slate-500">
+                From {transferBucket.name}
+              </div>
+              <input
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Notes (optional, e.g. medicines)"
+                className="col-span-2 p-2 border border-slate-200 rounded text-sm"
+                aria-label="Notes"
+              />
+            </div>
+            <button
+              type="button"
+              onClick={logTransfer}
+              disabled={saving}
+              className="mt-3 px-4 py-2 rounded bg-teal-600 text-white text-sm disabled:opacity-60"
+            >
+              {saving ? "Saving…" : "Save transfer"}
+            </button>
+          </section>
+        )}
+
+        {(err || msg) && (
+          <div className="print:hidden">
+            {err && <div className="text-sm text-rose-600">{err}</div>}
+            {msg && <div className="text-sm text-teal-600">{msg}</div>}
+          </div>
+        )}
+
+        <section className="bg-white rounded-2xl p-6 border border-slate-100 shadow-sm">
+          <div className="flex items-center justify-between gap-3">
+            <h2 className="text-lg font-medium text-slate-900">
+              Yearly summary {year}
+            </h2>
+            <div className="flex items-center gap-2 print:hidden">
+              <select
+                value={year}
+                onChange={(e) => setYear(Number(e.target.value))}
+                className="px-2 py-1 border rounded text-sm"
+                aria-label="Year"
+              >
+                {years.map((y) => (
+                  <option key={y} value={y}>
+                    {y}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={copySummary}
+                className="px-3 py-1 rounded bg-slate-100 hover:bg-slate-200 text-sm"
+              >
+                Copy
+              </button>
+              <button
+                type="button"
+                onClick={() => window.print()}
+                className="px-3 py-1 rounded bg-slate-100 hover:bg-slate-200 text-sm"
+              >
+                Print
+              </button>
+            </div>
+          </div>
+
+          <div className="mt-4 overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-slate-500 text-left">
+                  <th className="py-1 pr-2">Name</th>
+                  {monthNames().map((m) => (
+                    <th key={m} className="py-1 px-1 text-right">
+                      {m}
+                    </th>
+                  ))}
+                  <th className="py-1 pl-2 text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.map((d) => (
+                  <tr key={d._id} className="border-t border-slate-100">
+                    <td className="py-1 pr-2 text-slate-800 whitespace-nowrap">
+                      {d.name}
+                      <span className="text-slate-400">
+                        {" "}
+                        · {relationLabel(d.relation)}
+                      </span>
+                    </td>
+                    {d.byMonth.map((v, i) => (
+                      <td key={i} className="py-1 px-1 text-right">
+                        {v ? formatCurrency(v) : "—"}
+                      </td>
+                    ))}
+                    <td className="py-1 pl-2 text-right font-medium">
+                      {formatCurrency(d.total)}
+                    </td>
+                  </tr>
+                ))}
+                <tr className="border-t border-slate-200">
+                  <td className="py-1 pr-2 font-medium" colSpan={13}>
+                    Total
+                  </td>
+                  <td className="py-1 pl-2 text-right font-semibold">
+                    {formatCurrency(summaryTotal)}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </section>
+      </div>
+    </main>
+  );
+}
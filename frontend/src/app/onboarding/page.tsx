@@ -1,12 +1,34 @@
 "use client";
 
-import React, {useCallback, useEffect, useState} from "react";
+import React, {useCallback, useEffect, useMemo, useState} from "react";
 import {useRouter} from "next/navigation";
 import SpewnSection from "@/components/SpewnSection";
-import type {Splits} from "../../app/types/splits";
+import IncomeSources from "@/components/IncomeSources";
+import type {Bucket, Splits, RolloverPolicy} from "../../app/types/splits";
+import {
+  DEFAULT_BUCKETS,
+  ROLLOVER_POLICIES,
+  splitsFromBuckets,
+} from "../../app/types/splits";
+import type {
+  AutomationRun,
+  PaydayRule,
+  SalaryFrequency,
+} from "../../app/types/income";
+import {
+  PAYDAY_RULES,
+  SALARY_FREQUENCIES,
+  needsPayAnchor,
+} from "../../app/types/income";
+import type {BucketAlert} from "../../app/types/notifications";
+import {WARN_AT_OPTIONS} from "../../app/types/notifications";
+import {formatCurrency} from "@/utils/formatCurrency";
+import {formatDate} from "@/utils/locale";
+import {periodLabel} from "@/utils/period";
 import {useAuth} from "@/lib/auth-client";
 import fetchWithAuth from "@/lib/fetchWithAuth";
 import {useRequireAuth} from "@/lib/useRequireAuth";
+import {can} from "@/app/types/household";
 
 /* Preset type */
 type Preset = "balanced" | "conservative" | "aggressive";
@@ -43,6 +65,12 @@ function sumSplits(s: Splits) {
   return Object.values(s).reduce((a, b) => a + Number(b || 0), 0);
 }
 
+// the server accepts 1-28 so every month has the day
+function validCycleStartDay(value: number | string) {
+  const day = Number(value);
+  return Number.isInteger(day) && day >= 1 && day <= 28;
+}
+
 /* --- Runtime guards & normalizers --- */
 const PRESET_VALUES: Preset[] = ["balanced", "conservative", "aggressive"];
 
@@ -50,50 +78,76 @@ function isPreset(x: any): x is Preset {
   return typeof x === "string" && PRESET_VALUES.includes(x as Preset);
 }
 
-function isSplits(x: any): x is Splits {
+function isBucket(x: any): x is Bucket {
   if (!x || typeof x !== "object") return false;
   return (
-    typeof x.savings === "number" &&
-    typeof x.parents_preserve === "number" &&
-    typeof x.extras_buffer === "number" &&
-    typeof x.wants === "number" &&
-    typeof x.needs === "number"
+    typeof x.key === "string" &&
+    typeof x.name === "string" &&
+    typeof x.percentage === "number"
   );
 }
 
+// 'Kids Education' -> 'kids_education' (same rule the backend uses for new bucket keys)
+function toBucketKey(name: string) {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+// unsaved buckets have no key yet; the server derives it from the name
+function bucketKeyOf(b: Bucket) {
+  return b.key || toBucketKey(b.name);
+}
+
+// presets only know the five SPEWN buckets: applying one brings those back
+// (keeping any renamed/recoloured ones) and drops custom buckets
+function bucketsForPreset(preset: Preset, current: Bucket[]): Bucket[] {
+  return DEFAULT_BUCKETS.map((d) => ({
+    ...(current.find((b) => b.key === d.key) ?? d),
+    percentage: CONFIG.PRESETS[preset][d.key],
+  }));
+}
+
 /**
- * Attempts to coerce/normalize a loose object into a Splits.
- * Falls back to default preset if normalization fails.
+ * Builds the editable bucket list from the server user: `buckets` when present,
+ * otherwise the legacy `splits` map (accounts from before custom buckets).
+ * Falls back to default preset if neither is usable.
  */
-function normalizeSplits(x: any): Splits {
-  if (isSplits(x)) return x;
+function normalizeBuckets(buckets: unknown, splits: unknown): Bucket[] {
+  if (Array.isArray(buckets) && buckets.length && buckets.every(isBucket)) {
+    return buckets.map((b) => ({
+      ...b,
+      color: b.color || "#06b6a4",
+      icon: b.icon || "",
+    }));
+  }
 
-  if (x && typeof x === "object") {
+  if (splits && typeof splits === "object" && Object.keys(splits).length) {
     // Accept either snake_case or camelCase keys from backend
-    const maybe: Partial<Splits> = {
-      savings: typeof x.savings === "number" ? x.savings : undefined,
-      parents_preserve:
-        typeof x.parents_preserve === "number"
-          ? x.parents_preserve
-          : typeof x.parentsPreserve === "number"
-          ? x.parentsPreserve
-          : undefined,
-      extras_buffer:
-        typeof x.extras_buffer === "number"
-          ? x.extras_buffer
-          : typeof x.extrasBuffer === "number"
-          ? x.extrasBuffer
-          : undefined,
-      wants: typeof x.wants === "number" ? x.wants : undefined,
-      needs: typeof x.needs === "number" ? x.needs : undefined,
-    };
-
-    const allPresent = Object.values(maybe).every((v) => typeof v === "number");
-    if (allPresent) return maybe as Splits;
+    const entries = Object.entries(splits).map(
+      ([k, v]) =>
+        [k.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`), v] as const
+    );
+    if (entries.every(([, v]) => typeof v === "number")) {
+      return entries.map(([key, percentage]) => {
+        const known = DEFAULT_BUCKETS.find((d) => d.key === key);
+        return {
+          ...(known ?? {
+            key,
+            name: key.replace(/_/g, " "),
+            color: "#06b6a4",
+            icon: "",
+          }),
+          percentage: percentage as number,
+        };
+      });
+    }
   }
 
-  // Fallback -> default preset splits
-  return CONFIG.PRESETS[CONFIG.DEFAULT_PRESET];
+  // Fallback -> default preset buckets
+  return bucketsForPreset(CONFIG.DEFAULT_PRESET, DEFAULT_BUCKETS);
 }
 
 /* Onboarding page */
@@ -104,6 +158,8 @@ export default function OnboardingPage() {
 function OnboardingInner() {
   const {user, fetchMe, loading: authLoading} = useAuth();
   const router = useRouter();
+  // only roles that may change the budget can save it (the API refuses the rest anyway)
+  const canEditBudget = can(user, "budget");
 
   // require auth for this page; redirects to "/" if unauthenticated
   useRequireAuth({redirectTo: "/"});
@@ -113,18 +169,42 @@ function OnboardingInner() {
     () => user?.salary ?? ""
   );
 
+  const [salaryFrequency, setSalaryFrequency] = useState<SalaryFrequency>(
+    () => user?.salaryFrequency ?? "monthly"
+  );
+  // any one payday (YYYY-MM-DD); weekly / bi-weekly paydays are counted from it
+  const [payAnchorDate, setPayAnchorDate] = useState<string>(
+    () => user?.payAnchorDate?.slice(0, 10) ?? ""
+  );
+
+  // budget periods run from this day to the day before it next month (1 = calendar months)
+  const [cycleStartDay, setCycleStartDay] = useState<number | string>(
+    () => user?.cycleStartDay ?? 1
+  );
+
   const [preset, setPreset] = useState<Preset>(() =>
     isPreset(user?.preset) ? (user!.preset as Preset) : CONFIG.DEFAULT_PRESET
   );
 
-  const [splits, setSplits] = useState<Splits>(() =>
-    normalizeSplits(user?.splits ?? CONFIG.PRESETS[CONFIG.DEFAULT_PRESET])
+  const [buckets, setBuckets] = useState<Bucket[]>(() =>
+    normalizeBuckets(user?.buckets, user?.splits)
+  );
+  const splits = useMemo<Splits>(
+    () => splitsFromBuckets(buckets.map((b) => ({...b, key: bucketKeyOf(b)}))),
+    [buckets]
   );
 
-  // AUTOMATION & NEW CYCLE: disabled for now
-  // keep state so server calls still have the field if required, but UI won't allow enabling it
-  const [automate] = useState<boolean>(false);
-  const [activeTracking] = useState<boolean>(false);
+  // automation: on payday the backend archives the running cycle and opens the next one
+  const [automate, setAutomate] = useState<boolean>(
+    () => user?.automate ?? false
+  );
+  const [paydayRule, setPaydayRule] = useState<PaydayRule>(
+    () => user?.payday?.rule ?? "first"
+  );
+  const [paydayDay, setPaydayDay] = useState<number | string>(
+    () => user?.payday?.day ?? 1
+  );
+  const [nextRun, setNextRun] = useState<AutomationRun | null>(null);
 
   // optional fields kept for future use
   const [startMonth, setStartMonth] = useState<string>(
@@ -132,6 +212,16 @@ function OnboardingInner() {
   );
   const [extraIncome, setExtraIncome] = useState<number | string>("");
 
+  // month-end rollover per bucket (applied when automation opens the next month)
+  const [rolloverPolicies, setRolloverPolicies] = useState<
+    Record<string, RolloverPolicy>
+  >(() => user?.rolloverPolicies ?? {});
+
+  // per-bucket alerts, checked by the server on every spend
+  const [bucketAlerts, setBucketAlerts] = useState<Record<string, BucketAlert>>(
+    () => user?.bucketAlerts ?? {}
+  );
+
   // local submission state (renamed to avoid colliding with authLoading)
   const [submitting, setSubmitting] = useState(false);
   const [err, setErr] = useState("");
@@ -140,33 +230,118 @@ function OnboardingInner() {
   useEffect(() => {
     if (!user) return;
     setSalary(user.salary ?? "");
+    setSalaryFrequency(user.salaryFrequency ?? "monthly");
+    setPayAnchorDate(user.payAnchorDate?.slice(0, 10) ?? "");
+    setCycleStartDay(user.cycleStartDay ?? 1);
     setPreset(
       isPreset(user.preset) ? (user.preset as Preset) : CONFIG.DEFAULT_PRESET
     );
-    setSplits(
-      normalizeSplits(user.splits ?? CONFIG.PRESETS[CONFIG.DEFAULT_PRESET])
-    );
-    // automate & activeTracking intentionally left unchanged (disabled)
+    setBuckets(normalizeBuckets(user.buckets, user.splits));
+    setAutomate(user.automate ?? false);
+    setPaydayRule(user.payday?.rule ?? "first");
+    setPaydayDay(user.payday?.day ?? 1);
     setStartMonth(user.startMonth ?? "");
+    setRolloverPolicies(user.rolloverPolicies ?? {});
+    setBucketAlerts(user.bucketAlerts ?? {});
   }, [user]);
 
-  const updateSplit = (key: keyof Splits, value: number) =>
-    setSplits((p) => {
-      const next: Splits = {...p, [key]: Number.isFinite(value) ? value : 0};
-      return next;
-    });
-
-  const splitsAreValid = () => sumSplits(splits) === 100;
+  // preview of the next automated run with the values currently on the page
+  useEffect(() => {
+    const numericSalary = Number(salary);
+    if (!automate || !numericSalary || sumSplits(splits) !== 100) {
+      setNextRun(null);
+      return;
+    }
+    if (needsPayAnchor(salaryFrequency) && !payAnchorDate) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetchWithAuth(
+          `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/automation/preview`,
+          {
+            method: "POST",
+            credentials: "include",
+            headers: {"Content-Type": "application/json"},
+            body: JSON.stringify({
+              payday: {rule: paydayRule, day: Number(paydayDay) || 1},
+              cycleStartDay: validCycleStartDay(cycleStartDay)
+                ? Number(cycleStartDay)
+                : 1,
+              salary: numericSalary,
+              salaryFrequency,
+              payAnchorDate: needsPayAnchor(salaryFrequency)
+                ? payAnchorDate
+                : null,
+              splits,
+            }),
+          }
+        );
+        if (!res.ok) return;
+        const j = await res.json();
+        if (!cancelled) setNextRun(j);
+      } catch (e) {
+        console.error("automation preview error", e);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    automate,
+    paydayRule,
+    paydayDay,
+    cycleStartDay,
+    salary,
+    salaryFrequency,
+    payAnchorDate,
+    splits,
+  ]);
+
+  const updateBucket = (index: number, patch: Partial<Bucket>) =>
+    setBuckets((p) => p.map((b, i) => (i === index ? {...b, ...patch} : b)));
+
+  const addBucket = () =>
+    setBuckets((p) => [
+      ...p,
+      {key: "", name: "", color: "#3b82f6", icon: "", percentage: 0},
+    ]);
+
+  const removeBucket = (index: number) =>
+    setBuckets((p) => p.filter((_, i) => i !== index));
 
   const saveAndDistribute = useCallback(async () => {
     setErr("");
-    if (!splitsAreValid()) {
+    if (sumSplits(splits) !== 100) {
       setErr("Splits must sum to 100");
       return;
     }
+    const keys = buckets.map(bucketKeyOf);
+    if (!keys.every(Boolean) || new Set(keys).size !== keys.length) {
+      setErr("Every bucket needs a unique name");
+      return;
+    }
     const numericSalary = Number(salary);
     if (!numericSalary || numericSalary <= 0) {
-      setErr("Please enter a valid monthly salary");
+      setErr("Please enter a valid salary");
+      return;
+    }
+    if (needsPayAnchor(salaryFrequency) && !payAnchorDate) {
+      setErr(
+        "Pick one of your paydays so we can tell which months get extra paychecks"
+      );
+      return;
+    }
+    if (!validCycleStartDay(cycleStartDay)) {
+      setErr("Cycle start day must be between 1 and 28");
+      return;
+    }
+    const day = Number(paydayDay);
+    if (
+      automate &&
+      paydayRule === "day" &&
+      !(Number.isInteger(day) && day >= 1 && day <= 31)
+    ) {
+      setErr("Payday must be a day between 1 and 31");
       return;
     }
 
@@ -183,13 +358,22 @@ function OnboardingInner() {
 
       const putBody: any = {
         salary: numericSalary,
-        salaryFrequency: "monthly",
+        salaryFrequency,
+        payAnchorDate: needsPayAnchor(salaryFrequency) ? payAnchorDate : null,
+        cycleStartDay: Number(cycleStartDay),
         splits,
+        buckets: buckets.map((b) => ({...b, key: bucketKeyOf(b)})),
         preset,
-        // automation is disabled in the UI for now — keep the field false to avoid accidental enables
-        automate: false,
-        // keep activeTracking false for now
-        activeTracking: false,
+        automate,
+        payday: {rule: paydayRule, day: paydayRule === "day" ? day : 1},
+        rolloverPolicies,
+        // alerts of removed buckets are dropped (the server rejects unknown buckets)
+        bucketAlerts: Object.fromEntries(
+          buckets
+            .map(bucketKeyOf)
+            .filter((k) => bucketAlerts[k])
+            .map((k) => [k, bucketAlerts[k]])
+        ),
       };
 
       // If you later want to let users set a startMonth manually (without starting a "new cycle"),
@@ -230,6 +414,8 @@ function OnboardingInner() {
       // optional: simulate distribution server-side for the profile (keeps client display consistent)
       const simBody: any = {
         salary: numericSalary,
+        salaryFrequency,
+        payAnchorDate: needsPayAnchor(salaryFrequency) ? payAnchorDate : null,
         splits,
         preset,
         month: "", // no new cycle requested from UI
@@ -260,15 +446,40 @@ function OnboardingInner() {
     } finally {
       setSubmitting(false);
     }
-  }, [salary, splits, preset, startMonth, extraIncome, fetchMe, router]);
+  }, [
+    salary,
+    salaryFrequency,
+    payAnchorDate,
+    cycleStartDay,
+    splits,
+    buckets,
+    preset,
+    automate,
+    paydayRule,
+    paydayDay,
+    startMonth,
+    extraIncome,
+    rolloverPolicies,
+    bucketAlerts,
+    fetchMe,
+    router,
+  ]);
 
   // simple reset helper
   function handleReset() {
     setSalary("");
+    setSalaryFrequency("monthly");
+    setPayAnchorDate("");
+    setCycleStartDay(1);
     setPreset(CONFIG.DEFAULT_PRESET);
-    setSplits(CONFIG.PRESETS[CONFIG.DEFAULT_PRESET]);
+    setBuckets(bucketsForPreset(CONFIG.DEFAULT_PRESET, DEFAULT_BUCKETS));
     setStartMonth("");
     setExtraIncome("");
+    setRolloverPolicies({});
+    setBucketAlerts({});
+    setAutomate(false);
+    setPaydayRule("first");
+    setPaydayDay(1);
     setErr("");
   }
 
@@ -278,20 +489,88 @@ function OnboardingInner() {
         <section className="bg-white border border-gray-100 shadow-sm rounded-2xl p-6">
           <h2 className="text-2xl font-semibold text-gray-800">Onboarding</h2>
           <p className="text-sm text-slate-500 mt-1">
-            Enter monthly salary and set your split. Automation and "start new
-            cycle" are temporarily disabled so you can try the app manually
-            first.
+            Enter your salary and set your split. Turn on automation to start
+            each new cycle on payday.
           </p>
+          {user && !canEditBudget && (
+            <p className="text-sm text-amber-700 bg-amber-50 rounded p-2 mt-3">
+              Your role in the household can look at this budget but not change
+              it.
+            </p>
+          )}
 
           <form
             onSubmit={(e) => {
               e.preventDefault();
-              saveAndDistribute();
+              if (canEditBudget) saveAndDistribute();
             }}
             className="mt-5 space-y-5"
           >
             <label className="block">
-              <div className="text-sm text-slate-600 mb-1">Monthly salary</div>
+              <div className="text-sm text-slate-600 mb-1">
+                How often are you paid?
+              </div>
+              <select
+                value={salaryFrequency}
+                onChange={(e) =>
+                  setSalaryFrequency(e.target.value as SalaryFrequency)
+                }
+                className="w-full p-3 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+              >
+                {SALARY_FREQUENCIES.map((f) => (
+                  <option key={f.value} value={f.value}>
+                    {f.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            {needsPayAnchor(salaryFrequency) && (
+              <label className="block">
+                <div className="text-sm text-slate-600 mb-1">
+                  One of your paydays
+                </div>
+                <input
+                  type="date"
+                  value={payAnchorDate}
+                  onChange={(e) => setPayAnchorDate(e.target.value)}
+                  className="w-full p-3 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+                />
+                <p className="text-xs text-slate-500 mt-1">
+                  Months with an extra payday get an extra paycheck&apos;s worth
+                  in every bucket.
+                </p>
+              </label>
+            )}
+
+            <label className="block">
+              <div className="text-sm text-slate-600 mb-1">
+                Budget cycle starts on day
+              </div>
+              <input
+                type="number"
+                min={1}
+                max={28}
+                value={cycleStartDay}
+                onChange={(e) => setCycleStartDay(e.target.value)}
+                className="w-full p-3 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-teal-500"
+              />
+              <p className="text-xs text-slate-500 mt-1">
+                {validCycleStartDay(cycleStartDay) && Number(cycleStartDay) > 1
+                  ? `Spending is tracked per pay period, e.g. ${periodLabel(
+                      "2025-01",
+                      Number(cycleStartDay)
+                    )}.`
+                  : "Use 1 for calendar months, or your payday (e.g. 25) to track pay periods."}
+              </p>
+            </label>
+
+            <label className="block">
+              <div className="text-sm text-slate-600 mb-1">
+                {salaryFrequency === "monthly"
+                  ? "Monthly salary"
+                  : "Salary per paycheck"}
+              </div>
               <input
                 type="number"
                 inputMode="numeric"
@@ -314,7 +593,7 @@ function OnboardingInner() {
                     type="button"
                     onClick={() => {
                       setPreset(p);
-                      setSplits(CONFIG.PRESETS[p]);
+                      setBuckets((current) => bucketsForPreset(p, current));
                     }}
                     className={`px-4 py-2 rounded-lg font-medium transition ${
                       preset === p
@@ -330,26 +609,72 @@ function OnboardingInner() {
 
             <div>
               <h4 className="text-sm font-medium text-slate-700">
-                Customize splits
+                Customize buckets
               </h4>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-3">
-                {(Object.keys(splits) as (keyof Splits)[]).map((k) => (
-                  <div key={k} className="flex items-center gap-3">
-                    <div className="w-40 capitalize text-slate-700">
-                      {k.replace("_", " / ")}
-                    </div>
+              <p className="text-xs text-slate-500 mt-1">
+                Rename, recolour or remove buckets, or add your own (e.g. Pets,
+                Education). Presets restore the five SPEWN buckets.
+              </p>
+              <div className="grid grid-cols-1 gap-3 mt-3">
+                {buckets.map((b, i) => (
+                  <div
+                    key={b.key || `new-${i}`}
+                    className="flex items-center gap-2"
+                  >
+                    <input
+                      value={b.icon}
+                      onChange={(e) => updateBucket(i, {icon: e.target.value})}
+                      maxLength={4}
+                      placeholder="🙂"
+                      aria-label="Icon"
+                      className="p-2 border border-slate-200 rounded w-12 text-center focus:ring-1 focus:ring-teal-500"
+                    />
+                    <input
+                      value={b.name}
+                      onChange={(e) => updateBucket(i, {name: e.target.value})}
+                      maxLength={40}
+                      placeholder="Bucket name"
+                      aria-label="Bucket name"
+                      className="p-2 border border-slate-200 rounded flex-1 min-w-0 focus:ring-1 focus:ring-teal-500"
+                    />
+                    <input
+                      type="color"
+                      value={b.color}
+                      onChange={(e) => updateBucket(i, {color: e.target.value})}
+                      aria-label="Colour"
+                      className="h-10 w-10 border border-slate-200 rounded cursor-pointer"
+                    />
                     <input
                       type="number"
-                      value={splits[k]}
+                      value={b.percentage}
                       onChange={(e) =>
-                        updateSplit(k, Number(e.target.value || 0))
+                        updateBucket(i, {
+                          percentage: Number(e.target.value || 0),
+                        })
                       }
-                      className="p-2 border border-slate-200 rounded w-28 focus:ring-1 focus:ring-teal-500"
+                      aria-label="Percentage"
+                      className="p-2 border border-slate-200 rounded w-20 focus:ring-1 focus:ring-teal-500"
                     />
                     <div className="text-sm text-slate-600">%</div>
+                    <button
+                      type="button"
+                      onClick={() => removeBucket(i)}
+                      disabled={buckets.length <= 1}
+                      aria-label={`Remove ${b.name || "bucket"}`}
+                      className="px-2 py-1 text-sm text-slate-500 hover:text-rose-600 disabled:opacity-40"
+                    >
+                      ✕
+                    </button>
                   </div>
                 ))}
               </div>
+              <button
+                type="button"
+                onClick={addBucket}
+                className="mt-3 text-sm text-teal-600 hover:underline"
+              >
+                + Add bucket
+              </button>
               <div className="mt-2 text-sm text-slate-500">
                 Sum:{" "}
                 <span
@@ -364,22 +689,204 @@ function OnboardingInner() {
               </div>
             </div>
 
-            {/* Automate controls disabled for now */}
-            <div className="mt-3">
-              <div className="text-sm text-slate-600 mb-1">
-                Automate monthly distribution
+            <IncomeSources
+              buckets={buckets.filter((b) => b.key)}
+              canEdit={canEditBudget}
+            />
+
+            <div>
+              <h4 className="text-sm font-medium text-slate-700">
+                Month-end rollover
+              </h4>
+              <p className="text-xs text-slate-500 mt-1">
+                What happens to money left in a bucket when the next month
+                opens.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-3">
+                {buckets
+                  .filter((b) => bucketKeyOf(b))
+                  .map((b) => {
+                    const k = bucketKeyOf(b);
+                    return (
+                      <div key={k} className="flex items-center gap-3">
+                        <div className="w-40 text-slate-700 truncate">
+                          {b.icon} {b.name}
+                        </div>
+                        <select
+                          value={rolloverPolicies[k] ?? "reset"}
+                          onChange={(e) =>
+                            setRolloverPolicies((p) => ({
+                              ...p,
+                              [k]: e.target.value as RolloverPolicy,
+                            }))
+                          }
+                          className="p-2 border border-slate-200 rounded text-sm focus:ring-1 focus:ring-teal-500"
+                        >
+                          {ROLLOVER_POLICIES.filter(
+                            (o) =>
+                              o.value !== "sweep" ||
+                              (k !== "savings" && "savings" in splits)
+                          ).map((o) => (
+                            <option key={o.value} value={o.value}>
+                              {o.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    );
+                  })}
               </div>
-              <div className="p-3 rounded border border-yellow-100 bg-yellow-50 text-sm text-slate-700">
-                Automation and automatic cycle start are currently disabled
-                while we stabilize the manual workflow. You can still enter your
-                salary and try the app manually. Automation will be re-enabled
-                later.
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-slate-700">
+                Budget alerts
+              </h4>
+              <p className="text-xs text-slate-500 mt-1">
+                Get a notification when part of a bucket is spent, or block
+                spends that would take it below zero.
+              </p>
+              <div className="space-y-2 mt-3">
+                {buckets
+                  .filter((b) => bucketKeyOf(b))
+                  .map((b) => {
+                    const k = bucketKeyOf(b);
+                    const alert = bucketAlerts[k] ?? {
+                      warnAt: null,
+                      blockOverspend: false,
+                    };
+                    const setAlert = (patch: Partial<BucketAlert>) =>
+                      setBucketAlerts((p) => ({
+                        ...p,
+                        [k]: {...alert, ...patch},
+                      }));
+                    return (
+                      <div key={k} className="flex items-center gap-3">
+                        <div className="w-40 text-slate-700 truncate">
+                          {b.icon} {b.name}
+                        </div>
+                        <select
+                          value={alert.warnAt ?? ""}
+                          onChange={(e) =>
+                            setAlert({
+                              warnAt: e.target.value
+                                ? Number(e.target.value)
+                                : null,
+                            })
+                          }
+                          className="p-2 border border-slate-200 rounded text-sm focus:ring-1 focus:ring-teal-500"
+                          aria-label={`Alert for ${b.name}`}
+                        >
+                          <option value="">No alert</option>
+                          {WARN_AT_OPTIONS.map((pct) => (
+                            <option key={pct} value={pct}>
+                              Notify at {pct}% spent
+                            </option>
+                          ))}
+                        </select>
+                        <label className="flex items-center gap-1 text-xs text-slate-600">
+                          <input
+                            type="checkbox"
+                            checked={alert.blockOverspend}
+                            onChange={(e) =>
+                              setAlert({blockOverspend: e.target.checked})
+                            }
+                          />
+                          Block overspending
+                        </label>
+                      </div>
+                    );
+                  })}
               </div>
             </div>
 
+            <div className="mt-3">
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={automate}
+                  onChange={(e) => setAutomate(e.target.checked)}
+                />
+                Start a new cycle automatically on payday
+              </label>
+              <p className="text-xs text-slate-500 mt-1">
+                On payday the current cycle is archived to your salary history,
+                the month is locked and the next cycle opens with your current
+                split.
+              </p>
+
+              {automate && (
+                <div className="mt-2 space-y-2">
+                  <div className="grid grid-cols-2 gap-2">
+                    <select
+                      value={paydayRule}
+                      onChange={(e) =>
+                        setPaydayRule(e.target.value as PaydayRule)
+                      }
+                      className="p-2 border border-slate-200 rounded text-sm"
+                      aria-label="Payday"
+                    >
+                      {PAYDAY_RULES.map((r) => (
+                        <option key={r.value} value={r.value}>
+                          {r.label}
+                        </option>
+                      ))}
+                    </select>
+                    {paydayRule === "day" && (
+                      <input
+                        type="number"
+                        min={1}
+                        max={31}
+                        value={paydayDay}
+                        onChange={(e) => setPaydayDay(e.target.value)}
+                        className="p-2 border border-slate-200 rounded text-sm"
+                        aria-label="Day of month"
+                      />
+                    )}
+                  </div>
+
+                  {nextRun && (
+                    <div className="p-3 rounded border border-teal-100 bg-teal-50 text-sm text-slate-700">
+                      <div>
+                        Next run:{" "}
+                        <span className="font-medium">
+                          {new Date(nextRun.runAt) <= new Date()
+                            ? "within the hour"
+                            : formatDate(nextRun.runAt)}
+                        </span>{" "}
+                        opens{" "}
+                        {periodLabel(
+                          nextRun.month,
+                          validCycleStartDay(cycleStartDay)
+                            ? Number(cycleStartDay)
+                            : 1
+                        )}
+                        {typeof nextRun.salary === "number" &&
+                          ` with ${formatCurrency(nextRun.salary)}`}
+                      </div>
+                      {nextRun.distribution && (
+                        <div className="text-xs text-slate-500 mt-1">
+                          {buckets
+                            .map(
+                              (b) =>
+                                `${b.name || bucketKeyOf(b)} ${formatCurrency(
+                                  nextRun.distribution?.[bucketKeyOf(b)] ?? 0
+                                )}`
+                            )
+                            .join(" · ")}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+
             {err && <div className="text-sm text-red-500">{err}</div>}
 
-            <div className="flex gap-3 items-center">
+            <div
+              className={`flex gap-3 items-center ${canEditBudget ? "" : "hidden"}`}
+            >
               <button
                 type="submit"
                 disabled={submitting || authLoading}
@@ -396,7 +903,7 @@ function OnboardingInner() {
               </button>
             </div>
           </form>
-        </section> 
+        </section>
 
         <SpewnSection />
       </div>
@@ -3,11 +3,21 @@
 import React, { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/lib/auth-client";
+import CategoryRules from "@/components/CategoryRules";
+import FxRates from "@/components/FxRates";
+import CurrencyAndFormat from "@/components/CurrencyAndFormat";
+import HouseholdSettings from "@/components/HouseholdSettings";
+import ActivityLog from "@/components/ActivityLog";
+import { DEFAULT_BUCKETS } from "@/app/types/splits";
+import { can } from "@/app/types/household";
 
 export default function SettingsPage() {
   const { user, fetchMe } = useAuth();
   const router = useRouter();
 
+  // "activity" swaps the settings cards for the audit trail
+  const [tab, setTab] = useState<"settings" | "activity">("settings");
+
   // form state (read-only profile)
   const [name, setName] = useState<string>("");
   const [currency, setCurrency] = useState<string>("INR");
@@ -98,6 +108,22 @@ export default function SettingsPage() {
     }
   }
 
+  // home currency and number/date format; the server refuses a new currency once spends are recorded
+  async function handleDisplayPrefs(patch: { currency?: string; locale?: string }) {
+    const res = await fetch(`${process.env.NEXT_PUBLIC_BACKEND_URL}/api/profile`, {
+      method: "PUT",
+      credentials: "include",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(patch),
+    });
+    if (!res.ok) {
+      const j = await res.json().catch(() => ({}));
+      throw new Error(j.message || "Failed to save");
+    }
+    if (patch.currency) setCurrency(patch.currency);
+    if (typeof fetchMe === "function") await fetchMe();
+  }
+
   async function handleChangePassword(e?: React.FormEvent) {
     e?.preventDefault();
     setPwdMsg(null);
@@ -158,6 +184,8 @@ export default function SettingsPage() {
     );
   }
 
+  const canEditBudget = can(user, "budget");
+
   // Page remains on /settings even if user === null
   return (
     <main className="py-8 px-4 lg:px-12">
@@ -168,6 +196,13 @@ export default function SettingsPage() {
             <div>
               <h1 className="text-xl font-semibold text-slate-900">Settings</h1>
               <p className="text-sm text-slate-600 mt-1">Profile (read-only) and change password.</p>
+              <div className="mt-3 inline-flex rounded border text-sm">
+                {(["settings", "activity"] as const).map((t) => (
+                  <button key={t} type="button" onClick={() => setTab(t)} className={`px-3 py-1 ${tab === t ? "bg-teal-600 text-white" : "text-slate-600"}`}>
+                    {t === "settings" ? "Settings" : "Activity"}
+                  </button>
+                ))}
+              </div>
             </div>
 
             <div>
@@ -177,7 +212,7 @@ export default function SettingsPage() {
             </div>
           </div>
 
-          <div className="mt-6 space-y-4">
+          <div className={`mt-6 space-y-4 ${tab === "settings" ? "" : "hidden"}`}>
             <label className="block">
               <div className="text-sm text-slate-600">Full name</div>
               <input
@@ -200,45 +235,61 @@ export default function SettingsPage() {
           </div>
         </div>
 
-        {/* Password change */}
-        <div className="bg-white rounded-2xl p-6 border border-slate-100 shadow-sm">
-          <h2 className="text-lg font-medium text-slate-900">Change password</h2>
-          <p className="text-sm text-slate-600 mt-1">If you know your current password you can change it here. If you forgot it, use "Forgot password" flow.</p>
+        {tab === "activity" && <ActivityLog enabled={!!user} />}
 
-          {/* If user is not authenticated, disable the change-password form and show a hint */}
-          {user === null && (
-            <div className="mt-3 text-sm text-slate-500">
-              You are not logged in. Sign in to change your password.
-            </div>
-          )}
+        <div className={tab === "settings" ? "space-y-6" : "hidden"}>
+          {/* Categorization rules (budget settings are hidden from roles that can't change them) */}
+          {canEditBudget && <CategoryRules enabled={!!user} buckets={user?.buckets?.length ? user.buckets : DEFAULT_BUCKETS} />}
 
-          <form onSubmit={handleChangePassword} className="mt-4 grid gap-3">
-            <label>
-              <div className="text-sm text-slate-600">Current password</div>
-              <input type="password" value={curPwd} onChange={(e) => setCurPwd(e.target.value)} className="w-full mt-1 p-2 border rounded" disabled={user === null} />
-            </label>
+          {/* Household: members and shared buckets */}
+          <HouseholdSettings enabled={!!user} userId={user?.id ?? ""} canManage={can(user, "household")} buckets={user?.buckets?.length ? user.buckets : DEFAULT_BUCKETS} onChange={fetchMe} />
 
-            <label>
-              <div className="text-sm text-slate-600">New password</div>
-              <input type="password" value={newPwd} onChange={(e) => setNewPwd(e.target.value)} className="w-full mt-1 p-2 border rounded" disabled={user === null} />
-            </label>
+          {/* Currency and number/date format */}
+          <CurrencyAndFormat currency={currency} locale={user?.locale ?? "en-IN"} enabled={!!user} canEditCurrency={canEditBudget} onSave={handleDisplayPrefs} />
 
-            {pwdErr && <div className="text-sm text-rose-600">{pwdErr}</div>}
-            {pwdMsg && <div className="text-sm text-teal-600">{pwdMsg}</div>}
+          {/* FX rates (remounted so they reload when the home currency changes) */}
+          {canEditBudget && <FxRates key={currency} enabled={!!user} />}
 
-            <div className="flex gap-3">
-              <button disabled={changingPwd || user === null} type="submit" className="px-4 py-2 bg-teal-600 text-white rounded disabled:opacity-60">
-                {changingPwd ? "Changing…" : "Change password"}
-              </button>
-              <button type="button" onClick={() => { setCurPwd(""); setNewPwd(""); setPwdErr(null); setPwdMsg(null); }} className="px-4 py-2 rounded bg-slate-100" disabled={user === null}>
-                Reset
-              </button>
-            </div>
+          {/* Password change */}
+          <div className="bg-white rounded-2xl p-6 border border-slate-100 shadow-sm">
+            <h2 className="text-lg font-medium text-slate-900">Change password</h2>
+            <p className="text-sm text-slate-600 mt-1">If you know your current password you can change it here. If you forgot it, use "Forgot password" flow.</p>
 
-            <div className="text-xs text-slate-500">
-              Please note: This settings page is still under development.
-            </div>
-          </form>
+            {/* If user is not authenticated, disable the change-password form and show a hint */}
+            {user === null && (
+              <div className="mt-3 text-sm text-slate-500">
+                You are not logged in. Sign in to change your password.
+              </div>
+            )}
+
+            <form onSubmit={handleChangePassword} className="mt-4 grid gap-3">
+              <label>
+                <div className="text-sm text-slate-600">Current password</div>
+                <input type="password" value={curPwd} onChange={(e) => setCurPwd(e.target.value)} className="w-full mt-1 p-2 border rounded" disabled={user === null} />
+              </label>
+
+              <label>
+                <div className="text-sm text-slate-600">New password</div>
+                <input type="password" value={newPwd} onChange={(e) => setNewPwd(e.target.value)} className="w-full mt-1 p-2 border rounded" disabled={user === null} />
+              </label>
+
+              {pwdErr && <div className="text-sm text-rose-600">{pwdErr}</div>}
+              {pwdMsg && <div className="text-sm text-teal-600">{pwdMsg}</div>}
+
+              <div className="flex gap-3">
+                <button disabled={changingPwd || user === null} type="submit" className="px-4 py-2 bg-teal-600 text-white rounded disabled:opacity-60">
+                  {changingPwd ? "Changing…" : "Change password"}
+                </button>
+                <button type="button" onClick={() => { setCurPwd(""); setNewPwd(""); setPwdErr(null); setPwdMsg(null); }} className="px-4 py-2 rounded bg-slate-100" disabled={user === null}>
+                  Reset
+                </button>
+              </div>
+
+              <div className="text-xs text-slate-500">
+                Please note: This settings page is still under development.
+              </div>
+            </form>
+          </div>
         </div>
       </div>
     </main>
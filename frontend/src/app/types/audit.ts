@@ -0,0 +1,38 @@
+export type AuditAction =
+  | "profile.update"
+  | "cycle.start"
+  | "cycle.open"
+  | "distribution.update"
+  | "transaction.update"
+  | "transaction.delete"
+  | "password.change"
+  | "password.reset"
+
+export const AUDIT_ACTIONS: { value: AuditAction; label: string }[] = [
+  { value: "profile.update", label: "Profile changed" },
+  { value: "cycle.start", label: "New cycle started" },
+  { value: "cycle.open", label: "Cycle opened on payday" },
+  { value: "distribution.update", label: "Allocation recalculated" },
+  { value: "transaction.update", label: "Spend edited" },
+  { value: "transaction.delete", label: "Spend deleted" },
+  { value: "password.change", label: "Password changed" },
+  { value: "password.reset", label: "Password reset" }
+]
+
+export function auditActionLabel(action: string) {
+  return AUDIT_ACTIONS.find((a) => a.value === action)?.label ?? action
+}
+
+// one entry of the append-only trail (GET /api/audit); before/after hold only the changed fields
+export type AuditEntry = {
+  _id: string
+  actorId: string | null // null for background jobs
+  actorName: string // "You" for the user's own changes, "Automation" for background jobs
+  action: AuditAction
+  route: string // e.g. "PUT /api/profile" or "job monthly-automation"
+  targetId: string | null
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+  meta: Record<string, unknown> | null // e.g. { month } for cycle.start
+  createdAt: string
+}
@@ -0,0 +1,35 @@
+export type Relation = "parent" | "sibling" | "spouse" | "child" | "other"
+
+export const RELATIONS: { value: Relation; label: string }[] = [
+  { value: "parent", label: "Parent" },
+  { value: "sibling", label: "Sibling" },
+  { value: "spouse", label: "Spouse" },
+  { value: "child", label: "Child" },
+  { value: "other", label: "Other" }
+]
+
+export function relationLabel(value?: string | null) {
+  return RELATIONS.find((r) => r.value === value)?.label ?? ""
+}
+
+// someone the parents_preserve money goes to (GET /api/dependents)
+export type Dependent = {
+  _id: string
+  name: string
+  relation: Relation
+  notes?: string
+  archived?: boolean
+  totalSent: number
+  transfers: number
+}
+
+// one row of the yearly report (GET /api/dependents/summary)
+export type DependentSummary = {
+  _id: string
+  name: string
+  relation: Relation
+  archived?: boolean
+  total: number
+  transfers: number
+  byMonth: number[] // Jan..Dec
+}
@@ -0,0 +1,27 @@
+// one row of the user's rates table: 1 `currency` = `rate` of the home currency from `date`
+export type FxRate = {
+  _id: string
+  currency: string
+  homeCurrency: string
+  rate: number
+  date: string
+  source: "manual" | "import"
+}
+
+// GET /api/fx-rates
+export type FxRates = {
+  homeCurrency: string
+  rates: FxRate[] // newest first
+  latest: Record<string, { rate: number; date: string }> // currency -> its newest rate
+}
+
+// currencies offered in pickers before any rate is saved for them
+export const COMMON_CURRENCIES = ["INR", "USD", "EUR", "GBP", "AED", "SGD", "AUD", "CAD", "JPY"]
+
+// the rate for `currency` on `day` (YYYY-MM-DD): the newest on or before it, else the oldest after it,
+// as the server picks it when a spend is saved
+export function rateOn(rates: FxRate[], currency: string, day: string): number | null {
+  const forCurrency = rates.filter((r) => r.currency === currency)
+  const onOrBefore = forCurrency.find((r) => r.date.slice(0, 10) <= day)
+  return (onOrBefore ?? forCurrency[forCurrency.length - 1])?.rate ?? null
+}
@@ -0,0 +1,23 @@
+// computed by the server from the transactions tagged to the goal
+export type GoalProgress = {
+  saved: number
+  remaining: number
+  percent: number
+  completed: boolean
+  projectedCompletion: string | null // at the monthly contribution, or the pace so far
+  requiredMonthly: number | null // to still make the deadline; null without one
+  onTrack: boolean | null // null without a deadline
+}
+
+// a savings goal (GET /api/goals)
+export type Goal = {
+  _id: string
+  name: string
+  targetAmount: number
+  deadline?: string | null
+  bucket: string
+  monthlyContribution: number
+  archived?: boolean
+  createdAt: string
+  progress: GoalProgress
+}
@@ -0,0 +1,67 @@
+// what a member may do in a shared budget; someone not in a household is the owner of their own
+export type Role = "owner" | "editor" | "contributor" | "viewer"
+
+// the permissions the API checks; GET /api/auth/me lists the ones the user's role grants
+export type Permission = "read" | "spend" | "budget" | "household"
+
+export const ROLES: { value: Role; label: string; hint: string }[] = [
+  { value: "owner", label: "Owner", hint: "Everything, including members and roles" },
+  { value: "editor", label: "Editor", hint: "Splits, buckets, new cycles and spends" },
+  { value: "contributor", label: "Contributor", hint: "Only adds spends, can't change them" },
+  { value: "viewer", label: "Viewer", hint: "Can look, not change" }
+]
+
+// whether the signed-in user may do what `permission` covers; nothing until /me has loaded
+export function can(
+  user: { permissions?: Permission[] } | null | undefined,
+  permission: Permission
+) {
+  return !!user?.permissions?.includes(permission)
+}
+
+export type HouseholdMember = {
+  userId: string
+  name: string
+  email: string
+  joinedAt: string
+  isOwner: boolean
+  role: Role
+}
+
+// the household the user belongs to (GET /api/household)
+export type Household = {
+  _id: string
+  name: string
+  ownerId: string
+  sharedBuckets: string[] // bucket keys pooled across members
+  members: HouseholdMember[]
+  invites: { _id: string; email: string; role: Role; createdAt: string }[]
+}
+
+// an invitation addressed to the user's email
+export type HouseholdInvite = {
+  _id: string
+  householdName: string
+  invitedBy: string
+  role: Role // given on joining
+  createdAt: string
+}
+
+// one shared bucket in GET /api/household/summary; amounts are summed across members
+export type HouseholdBucket = {
+  key: string
+  name: string
+  color: string
+  icon?: string
+  allocated: number // members' allocations plus carry-over
+  spent: number
+  remaining: number
+  members: { userId: string; allocated: number; spent: number }[]
+}
+
+export type HouseholdSummary = {
+  month: string
+  period: { start: string; end: string }
+  buckets: HouseholdBucket[]
+  totals: { allocated: number; spent: number; remaining: number }
+}
@@ -0,0 +1,34 @@
+import type { PaymentMethod } from "./transactions"
+import type { CategorySuggestion } from "./rules"
+
+// a statement debit or pasted bank alert sent to POST /api/transactions/import
+export type ImportRow = {
+  date: string
+  description: string
+  amount: number
+  bucket?: string
+  category?: string
+  externalId?: string // the bank's id for the line (OFX FITID, CAMT reference)
+  paymentMethod?: PaymentMethod
+}
+
+// "imported" = this statement line was imported before; "possible" = a spend of that amount was logged that day
+export type ImportDuplicate = "imported" | "possible"
+
+// one row of the dry-run preview
+export type ImportPreviewRow = {
+  index: number
+  date: string
+  description: string
+  amount: number
+  suggestion: CategorySuggestion | null
+  duplicate: ImportDuplicate | null
+}
+
+export type ImportRowError = { index: number; error: string }
+
+export type ImportResult = {
+  created: number
+  skipped: { index: number; reason: string }[]
+  errors: ImportRowError[]
+}
@@ -0,0 +1,65 @@
+export type SalaryFrequency = "monthly" | "semimonthly" | "biweekly" | "weekly"
+
+export const SALARY_FREQUENCIES: { value: SalaryFrequency; label: string }[] = [
+  { value: "monthly", label: "Monthly" },
+  { value: "semimonthly", label: "Twice a month" },
+  { value: "biweekly", label: "Every two weeks" },
+  { value: "weekly", label: "Weekly" }
+]
+
+// one paycheck and what it put into each bucket
+export type PayEvent = {
+  date: string
+  amount: number
+  distribution: Record<string, number>
+}
+
+// weekly / bi-weekly schedules are counted from a known payday
+export function needsPayAnchor(frequency: SalaryFrequency) {
+  return frequency === "weekly" || frequency === "biweekly"
+}
+
+// when automation opens the next cycle
+export type PaydayRule = "first" | "day" | "last_working_day"
+
+export type Payday = { rule: PaydayRule; day: number }
+
+export const PAYDAY_RULES: { value: PaydayRule; label: string }[] = [
+  { value: "first", label: "When the cycle starts" },
+  { value: "day", label: "On a fixed day of the month" },
+  { value: "last_working_day", label: "Last working day before the cycle starts" }
+]
+
+// the next cycle automation will open (GET /api/auth/me, POST /api/automation/preview)
+export type AutomationRun = {
+  month: string
+  runAt: string
+  salary?: number
+  distribution?: Record<string, number>
+}
+
+export type IncomeSource = "salary" | "freelance" | "rent" | "interest" | "bonus" | "other"
+
+export const INCOME_SOURCES: { value: IncomeSource; label: string }[] = [
+  { value: "salary", label: "Salary" },
+  { value: "freelance", label: "Freelance" },
+  { value: "rent", label: "Rent received" },
+  { value: "interest", label: "Interest" },
+  { value: "bonus", label: "Bonus" },
+  { value: "other", label: "Other" }
+]
+
+// money received on top of the salary schedule (GET /api/incomes)
+export type Income = {
+  _id: string
+  source: IncomeSource
+  label?: string
+  amount: number
+  receivedAt: string
+  splits?: Record<string, number> | null // own split; null = the usual one
+  distribution?: Record<string, number>
+}
+
+export function incomeSourceLabel(value?: string | null) {
+  return INCOME_SOURCES.find((s) => s.value === value)?.label ?? ""
+}
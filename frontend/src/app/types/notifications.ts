@@ -0,0 +1,23 @@
+// per-bucket alert settings (user.bucketAlerts)
+export type BucketAlert = {
+  warnAt: number | null // notify once this % of the bucket is spent
+  blockOverspend: boolean // the server rejects spends that take the bucket below zero
+}
+
+export const WARN_AT_OPTIONS = [50, 75, 80, 90, 100]
+
+export type NotificationType = "threshold" | "overspent"
+
+// a budget alert recorded by the server when a spend is added or edited (GET /api/notifications)
+export type BudgetNotification = {
+  _id: string
+  type: NotificationType
+  bucket: string
+  month: string
+  percentSpent: number
+  threshold?: number | null
+  message: string
+  transactionId?: string | null
+  readAt?: string | null
+  createdAt: string
+}
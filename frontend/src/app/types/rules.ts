@@ -0,0 +1,35 @@
+import type { PaymentMethod } from "./transactions"
+
+// a user-defined categorization rule (GET /api/rules); unset conditions match anything
+export type CategoryRule = {
+  _id: string
+  contains: string // matched against the description / notes, ignoring case and reference numbers
+  minAmount: number | null
+  maxAmount: number | null
+  paymentMethod: PaymentMethod | null
+  bucket: string
+  category: string
+  enabled: boolean
+  createdAt: string
+}
+
+// a rule learnt from past categorizations (GET /api/rules/learned)
+export type RuleSuggestion = {
+  contains: string
+  bucket: string
+  category: string
+  count: number // spends it would have covered in the last year
+}
+
+// what a spend would be filed under (POST /api/rules/match, import previews)
+export type CategorySuggestion = {
+  bucket: string
+  category: string
+  source: "rule" | "history" | "keyword" // your rule, a past spend with the same description, or a built-in keyword
+  ruleId?: string
+}
+
+export type LearnedRules = {
+  suggestions: RuleSuggestion[]
+  categories: Record<string, string[]> // bucket key -> categories used there, most used first
+}
@@ -1,9 +1,30 @@
-export type Splits = {
-  savings: number
-  parents_preserve: number
-  extras_buffer: number
-  wants: number
-  needs: number
+// bucket key -> percentage of income
+export type Splits = Record<string, number>
+
+export type Bucket = {
+  key: string // what transactions store; kept when the bucket is renamed
+  name: string
+  color: string
+  icon: string
+  percentage: number
+}
+
+// the five SPEWN buckets every account starts with (mirrors DEFAULT_BUCKETS in backend/models/User.js)
+export const DEFAULT_BUCKETS: Bucket[] = [
+  { key: "savings", name: "Savings", color: "#06b6a4", icon: "💰", percentage: 30 },
+  { key: "parents_preserve", name: "Parents / Preserve", color: "#0ea5a3", icon: "🏡", percentage: 10 },
+  { key: "extras_buffer", name: "Extras / Buffer", color: "#f59e0b", icon: "🛟", percentage: 10 },
+  { key: "wants", name: "Wants", color: "#ec4899", icon: "🎉", percentage: 15 },
+  { key: "needs", name: "Needs", color: "#3b82f6", icon: "🛒", percentage: 35 }
+]
+
+export function splitsFromBuckets(buckets: Bucket[]): Splits {
+  return Object.fromEntries(buckets.map((b) => [b.key, Number(b.percentage || 0)]))
+}
+
+// display name for a bucket key, falling back to the key itself for buckets that were since deleted
+export function bucketLabel(key: string, buckets?: Bucket[]) {
+  return buckets?.find((b) => b.key === key)?.name ?? key.replace(/_/g, " ")
 }
 
 export const PRESETS = {
@@ -11,3 +32,12 @@ export const PRESETS = {
   conservative: { savings:35, parents_preserve:10, extras_buffer:5, wants:10, needs:40 },
   aggressive: { savings:40, parents_preserve:5, extras_buffer:10, wants:20, needs:25 }
 } as const
+
+// what happens to a bucket's unspent balance when a new month is opened
+export type RolloverPolicy = "carry" | "sweep" | "reset"
+
+export const ROLLOVER_POLICIES: { value: RolloverPolicy; label: string }[] = [
+  { value: "reset", label: "Reset to zero" },
+  { value: "carry", label: "Carry forward" },
+  { value: "sweep", label: "Sweep into savings" }
+]
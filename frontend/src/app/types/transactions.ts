@@ -0,0 +1,62 @@
+export type PaymentMethod = "cash" | "upi" | "card" | "netbanking"
+
+export type Txn = {
+  _id?: string
+  userId: string
+  bucket: string
+  category?: string
+  amount: number // in the user's home currency
+  originalAmount?: number | null // what was paid, for spends in another currency
+  originalCurrency?: string | null
+  fxRate?: number | null // home currency per 1 unit of originalCurrency
+  occurredAt?: string
+  notes?: string
+  paymentMethod?: PaymentMethod | null
+  goalId?: string | null // savings goal it contributes to
+  dependentId?: string | null // who received it (parents_preserve transfers)
+  householdId?: string | null // set while the bucket is shared with a household
+  createdAt?: string
+}
+
+export const PAYMENT_METHODS: { value: PaymentMethod; label: string }[] = [
+  { value: "cash", label: "Cash" },
+  { value: "upi", label: "UPI" },
+  { value: "card", label: "Card" },
+  { value: "netbanking", label: "Net banking" }
+]
+
+export function paymentMethodLabel(value?: string | null) {
+  return PAYMENT_METHODS.find((m) => m.value === value)?.label ?? ""
+}
+
+export type Cadence = "weekly" | "monthly" | "yearly"
+
+export const CADENCES: { value: Cadence; label: string }[] = [
+  { value: "weekly", label: "Every week" },
+  { value: "monthly", label: "Every month" },
+  { value: "yearly", label: "Every year" }
+]
+
+// template the server books as a real transaction on every nextRunAt (GET /api/recurring)
+export type RecurringTxn = {
+  _id: string
+  bucket: string
+  category?: string
+  amount: number
+  notes?: string
+  paymentMethod?: PaymentMethod | null
+  cadence: Cadence
+  startDate: string
+  nextRunAt: string
+  endDate?: string | null
+  paused: boolean
+}
+
+export type UpcomingTxn = {
+  recurringId: string
+  date: string
+  amount: number
+  bucket: string
+  category?: string
+  cadence: Cadence
+}
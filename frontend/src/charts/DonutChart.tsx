@@ -1,11 +1,12 @@
 /* --------------------------- DonutChart --------------------------------
    Very small SVG donut showing relative portions.
    props:
-     - data: array of { key, value } where value is percent (0-100)
+     - data: array of { key, value, color? } where value is percent (0-100);
+       entries without a color cycle through the default palette
      - size: px square (default 140)
 */
 
-export function DonutChart({ data, size = 140 }: { data: { key: string; value: number }[]; size?: number }) {
+export function DonutChart({ data, size = 140 }: { data: { key: string; value: number; color?: string }[]; size?: number }) {
   const radius = size / 2;
   const thickness = Math.max(10, Math.round(size * 0.18));
   const circumference = 2 * Math.PI * (radius - thickness / 2);
@@ -32,7 +33,7 @@ export function DonutChart({ data, size = 140 }: { data: { key: string; value: n
           cy={radius}
           r={radius - thickness / 2}
           fill="none"
-          stroke={colors[i % colors.length]}
+          stroke={a.color ?? colors[i % colors.length]}
           strokeWidth={thickness}
           strokeDasharray={`${a.len} ${circumference - a.len}`}
           strokeDashoffset={-a.offset}
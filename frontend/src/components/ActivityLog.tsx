@@ -0,0 +1,140 @@
+// components/ActivityLog.tsx
+"use client";
+import React, {useState} from "react";
+import {formatDate, formatDateTime} from "@/utils/locale";
+import {useAuditLog} from "@/lib/useAuditLog";
+import {
+  AUDIT_ACTIONS,
+  auditActionLabel,
+  type AuditAction,
+  type AuditEntry,
+} from "@/app/types/audit";
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T/;
+
+// "salaryFrequency" -> "salary frequency"
+function fieldLabel(field: string) {
+  return field.replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase();
+}
+
+// compact text for a before/after value: bucket lists by name, maps as "key value" pairs
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "string" && ISO_DATE.test(value)) {
+    return formatDate(value);
+  }
+  if (Array.isArray(value)) {
+    return value
+      .map((v) =>
+        v && typeof v === "object" && "name" in v
+          ? `${(v as {name: string}).name}${"percentage" in v ? ` ${(v as {percentage: number}).percentage}%` : ""}`
+          : formatValue(v)
+      )
+      .join(", ");
+  }
+  if (typeof value === "object") {
+    return Object.entries(value as Record<string, unknown>)
+      .map(([k, v]) => `${k.replace(/_/g, " ")} ${formatValue(v)}`)
+      .join(", ");
+  }
+  return String(value);
+}
+
+function EntryChanges({entry}: {entry: AuditEntry}) {
+  const fields = Object.keys({...entry.before, ...entry.after});
+  if (!fields.length) return null;
+  return (
+    <div className="mt-1 space-y-0.5 text-xs">
+      {fields.map((f) => (
+        <div key={f} className="text-slate-600">
+          <span className="text-slate-400">{fieldLabel(f)}:</span>{" "}
+          {entry.action === "transaction.delete" ? (
+            formatValue(entry.before?.[f])
+          ) : (
+            <>
+              <span className="line-through text-slate-400">
+                {formatValue(entry.before?.[f])}
+              </span>{" "}
+              → {formatValue(entry.after?.[f])}
+            </>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/*
+  Settings "Activity" tab: who changed the profile and splits, started a cycle, edited or deleted
+  a spend or changed the password, and when — with the values before and after. The trail is
+  append-only, so nothing here can be edited.
+*/
+export default function ActivityLog({enabled}: {enabled: boolean}) {
+  const [action, setAction] = useState<AuditAction | "">("");
+  const {entries, hasMore, loading, error, loadMore} = useAuditLog(
+    enabled,
+    action
+  );
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-slate-100 shadow-sm">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-lg font-medium text-slate-900">Activity</h2>
+        <select
+          value={action}
+          onChange={(e) => setAction(e.target.value as AuditAction | "")}
+          className="p-2 border rounded text-sm"
+          aria-label="Filter activity"
+        >
+          <option value="">Everything</option>
+          {AUDIT_ACTIONS.map((a) => (
+            <option key={a.value} value={a.value}>
+              {a.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <p className="text-sm text-slate-600 mt-1">
+        Changes to your profile, splits, cycles, spends and password.
+      </p>
+
+      {error && <div className="mt-3 text-sm text-rose-600">{error}</div>}
+
+      <div className="mt-4 divide-y divide-slate-100">
+        {entries.length === 0 && !loading && (
+          <div className="py-2 text-sm text-slate-400">No activity yet.</div>
+        )}
+        {entries.map((e) => (
+          <div key={e._id} className="py-2">
+            <div className="flex items-baseline justify-between gap-3 text-sm">
+              <span className="font-medium text-slate-800">
+                {auditActionLabel(e.action)}
+                {e.action === "cycle.start" && e.meta?.month
+                  ? ` (${String(e.meta.month)})`
+                  : ""}
+              </span>
+              <span className="text-xs text-slate-400 whitespace-nowrap">
+                {formatDateTime(e.createdAt)}
+              </span>
+            </div>
+            <div className="text-xs text-slate-500">
+              {e.actorName} · {e.route}
+            </div>
+            <EntryChanges entry={e} />
+          </div>
+        ))}
+      </div>
+
+      {hasMore && (
+        <button
+          type="button"
+          onClick={loadMore}
+          disabled={loading}
+          className="mt-3 text-sm text-teal-600 hover:underline disabled:opacity-60"
+        >
+          {loading ? "Loading…" : "Show older"}
+        </button>
+      )}
+    </div>
+  );
+}
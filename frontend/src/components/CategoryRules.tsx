@@ -0,0 +1,265 @@
+// components/CategoryRules.tsx
+"use client";
+import React, {useState} from "react";
+import {formatCurrency} from "@/utils/formatCurrency";
+import {useRules} from "@/lib/useRules";
+import {bucketLabel, type Bucket} from "@/app/types/splits";
+import {
+  PAYMENT_METHODS,
+  paymentMethodLabel,
+  type PaymentMethod,
+} from "@/app/types/transactions";
+import type {CategoryRule} from "@/app/types/rules";
+
+function describeRule(r: CategoryRule) {
+  const parts: string[] = [];
+  if (r.contains) parts.push(`mentions "${r.contains}"`);
+  if (r.minAmount != null && r.maxAmount != null) {
+    parts.push(`${formatCurrency(r.minAmount)}–${formatCurrency(r.maxAmount)}`);
+  } else if (r.minAmount != null) {
+    parts.push(`at least ${formatCurrency(r.minAmount)}`);
+  } else if (r.maxAmount != null) {
+    parts.push(`up to ${formatCurrency(r.maxAmount)}`);
+  }
+  if (r.paymentMethod) {
+    parts.push(`paid by ${paymentMethodLabel(r.paymentMethod)}`);
+  }
+  return parts.join(", ");
+}
+
+/*
+  Settings section for categorization rules. Rules fill in the bucket and category of quick-add
+  spends, statement imports and pasted bank messages; they are tried top to bottom and the first
+  match wins. Below them, rules learnt from how past spends were filed can be added in one click.
+*/
+export default function CategoryRules({
+  enabled,
+  buckets,
+}: {
+  enabled: boolean;
+  buckets: Bucket[];
+}) {
+  const {rules, learned, create, update, remove} = useRules(enabled);
+  const [contains, setContains] = useState("");
+  const [minAmount, setMinAmount] = useState("");
+  const [maxAmount, setMaxAmount] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod | "">("");
+  const [bucket, setBucket] = useState("");
+  const [category, setCategory] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [err, setErr] = useState("");
+
+  async function run(action: () => Promise<unknown>, failure: string) {
+    setErr("");
+    setSaving(true);
+    try {
+      await action();
+      return true;
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : failure);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function addRule(e: React.FormEvent) {
+    e.preventDefault();
+    if (!bucket) return setErr("Pick a bucket");
+    const ok = await run(
+      () =>
+        create({
+          contains: contains.trim(),
+          minAmount: minAmount ? Number(minAmount) : null,
+          maxAmount: maxAmount ? Number(maxAmount) : null,
+          paymentMethod: paymentMethod || null,
+          bucket,
+          category: category.trim(),
+        }),
+      "Failed to save rule"
+    );
+    if (ok) {
+      setContains("");
+      setMinAmount("");
+      setMaxAmount("");
+      setPaymentMethod("");
+      setCategory("");
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-slate-100 shadow-sm">
+      <h2 className="text-lg font-medium text-slate-900">
+        Categorization rules
+      </h2>
+      <p className="text-sm text-slate-600 mt-1">
+        New spends, imports and pasted bank messages that match a rule get its
+        bucket and category. Rules are tried top to bottom.
+      </p>
+
+      <div className="mt-4 space-y-2">
+        {rules.length === 0 && (
+          <div className="text-xs text-slate-400">
+            No rules yet — e.g. anything mentioning &quot;swiggy&quot; goes to
+            Wants / Food.
+          </div>
+        )}
+        {rules.map((r) => (
+          <div
+            key={r._id}
+            className={`flex items-center gap-3 rounded p-2 text-sm ${r.enabled ? "bg-slate-50" : "bg-white opacity-60"}`}
+          >
+            <input
+              type="checkbox"
+              checked={r.enabled}
+              onChange={(e) =>
+                run(
+                  () => update(r._id, {enabled: e.target.checked}),
+                  "Failed to update rule"
+                )
+              }
+              aria-label="Rule enabled"
+            />
+            <div className="flex-1 min-w-0">
+              <div className="truncate text-slate-800">{describeRule(r)}</div>
+              <div className="text-xs text-slate-500">
+                → {bucketLabel(r.bucket, buckets)}
+                {r.category ? ` / ${r.category}` : ""}
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={() => run(() => remove(r._id), "Failed to delete rule")}
+              className="text-xs text-slate-500 hover:underline"
+            >
+              Delete
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={addRule} className="mt-4 grid grid-cols-2 gap-2">
+        <input
+          value={contains}
+          onChange={(e) => setContains(e.target.value)}
+          placeholder="Description contains (e.g. swiggy)"
+          className="col-span-2 p-2 border rounded text-sm"
+          aria-label="Description contains"
+        />
+        <input
+          value={minAmount}
+          onChange={(e) => setMinAmount(e.target.value)}
+          inputMode="numeric"
+          placeholder="Min amount (optional)"
+          className="p-2 border rounded text-sm"
+          aria-label="Minimum amount"
+        />
+        <input
+          value={maxAmount}
+          onChange={(e) => setMaxAmount(e.target.value)}
+          inputMode="numeric"
+          placeholder="Max amount (optional)"
+          className="p-2 border rounded text-sm"
+          aria-label="Maximum amount"
+        />
+        <select
+          value={paymentMethod}
+          onChange={(e) =>
+            setPaymentMethod(e.target.value as PaymentMethod | "")
+          }
+          className="col-span-2 p-2 border rounded text-sm"
+          aria-label="Payment method"
+        >
+          <option value="">Any payment method</option>
+          {PAYMENT_METHODS.map((m) => (
+            <option key={m.value} value={m.value}>
+              {m.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={bucket}
+          onChange={(e) => setBucket(e.target.value)}
+          className="p-2 border rounded text-sm"
+          aria-label="Bucket"
+        >
+          <option value="">Bucket…</option>
+          {buckets.map((b) => (
+            <option key={b.key} value={b.key}>
+              {b.name}
+            </option>
+          ))}
+        </select>
+        <input
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          list="rule-categories"
+          placeholder="Category (optional)"
+          className="p-2 border rounded text-sm"
+          aria-label="Category"
+        />
+        <datalist id="rule-categories">
+          {(learned.categories[bucket] ?? []).map((c) => (
+            <option key={c} value={c} />
+          ))}
+        </datalist>
+        {err && <div className="col-span-2 text-sm text-rose-600">{err}</div>}
+        <div className="col-span-2">
+          <button
+            type="submit"
+            disabled={saving || !enabled}
+            className="px-4 py-2 bg-teal-600 text-white rounded text-sm disabled:opacity-60"
+          >
+            {saving ? "Saving…" : "Add rule"}
+          </button>
+        </div>
+      </form>
+
+      {learned.suggestions.length > 0 && (
+        <div className="mt-6">
+          <div className="text-sm text-slate-600">
+            Suggested from your spends
+          </div>
+          <div className="mt-2 space-y-2">
+            {learned.suggestions.map((s) => (
+              <div
+                key={`${s.contains}:${s.bucket}`}
+                className="flex items-center gap-3 rounded bg-slate-50 p-2 text-sm"
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="truncate text-slate-800">
+                    mentions &quot;{s.contains}&quot; →{" "}
+                    {bucketLabel(s.bucket, buckets)}
+                    {s.category ? ` / ${s.category}` : ""}
+                  </div>
+                  <div className="text-xs text-slate-500">
+                    {s.count} past spend{s.count === 1 ? "" : "s"} filed this
+                    way
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  disabled={saving}
+                  onClick={() =>
+                    run(
+                      () =>
+                        create({
+                          contains: s.contains,
+                          bucket: s.bucket,
+                          category: s.category,
+                        }),
+                      "Failed to save rule"
+                    )
+                  }
+                  className="text-xs text-teal-600 hover:underline disabled:opacity-60"
+                >
+                  Add rule
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+// components/CurrencyAndFormat.tsx
+"use client";
+import React, {useState} from "react";
+import {LOCALES} from "@/utils/locale";
+import {COMMON_CURRENCIES} from "@/app/types/fx";
+
+// how an amount and today's date look with the given choices
+function preview(currency: string, locale: string) {
+  const amount = new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency,
+    maximumFractionDigits: 0,
+  }).format(123456);
+  return `${amount} · ${new Date().toLocaleDateString(locale)}`;
+}
+
+/*
+  Settings section for the home currency and the number/date format used across the app, CSV
+  exports and printed reports. Amounts are stored in the home currency, so the server only lets
+  it change before any spends are recorded. The format is personal; the currency belongs to the
+  budget, so roles that can't edit it (canEditCurrency=false) only see it.
+*/
+export default function CurrencyAndFormat({
+  currency,
+  locale,
+  enabled,
+  canEditCurrency = true,
+  onSave,
+}: {
+  currency: string;
+  locale: string;
+  enabled: boolean;
+  canEditCurrency?: boolean;
+  onSave: (patch: {currency?: string; locale?: string}) => Promise<unknown>;
+}) {
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState("");
+
+  async function save(patch: {currency?: string; locale?: string}) {
+    setErr("");
+    setBusy(true);
+    try {
+      await onSave(patch);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Failed to save");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const locales = LOCALES.some((l) => l.value === locale)
+    ? LOCALES
+    : [{value: locale, label: locale}, ...LOCALES];
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-slate-100 shadow-sm">
+      <h2 className="text-lg font-medium text-slate-900">
+        Currency and format
+      </h2>
+      <p className="text-sm text-slate-600 mt-1">
+        Used for every amount and date in the app, CSV exports and printed
+        reports.
+      </p>
+
+      <div className="mt-4 grid grid-cols-2 gap-3">
+        <label className="text-sm">
+          <div className="text-slate-600">Home currency</div>
+          <select
+            value={currency}
+            onChange={(e) => save({currency: e.target.value})}
+            disabled={!enabled || busy || !canEditCurrency}
+            className="w-full mt-1 p-2 border rounded"
+          >
+            {Array.from(new Set([currency, ...COMMON_CURRENCIES])).map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+          <div className="text-xs text-slate-400 mt-1">
+            Fixed once spends are recorded.
+          </div>
+        </label>
+        <label className="text-sm">
+          <div className="text-slate-600">Number and date format</div>
+          <select
+            value={locale}
+            onChange={(e) => save({locale: e.target.value})}
+            disabled={!enabled || busy}
+            className="w-full mt-1 p-2 border rounded"
+          >
+            {locales.map((l) => (
+              <option key={l.value} value={l.value}>
+                {l.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="mt-3 text-sm text-slate-500">
+        Looks like: {preview(currency, locale)}
+      </div>
+      {err && <div className="mt-3 text-sm text-rose-600">{err}</div>}
+    </div>
+  );
+}
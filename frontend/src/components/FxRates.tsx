@@ -0,0 +1,194 @@
+// components/FxRates.tsx
+"use client";
+import React, {useState} from "react";
+import {formatDate} from "@/utils/locale";
+import {parseCsv, parseStatementDate} from "@/utils/csv";
+import {useFxRates, type FxRateInput} from "@/lib/useFxRates";
+import {COMMON_CURRENCIES} from "@/app/types/fx";
+
+// a rates file: a header row naming currency, rate and date columns (any order), dates as YYYY-MM-DD
+function parseRatesFile(text: string): FxRateInput[] | null {
+  const [header, ...rows] = parseCsv(text);
+  const col = (name: string) =>
+    (header ?? []).findIndex((h) => h.toLowerCase().includes(name));
+  const currencyCol = col("currency");
+  const rateCol = col("rate");
+  const dateCol = col("date");
+  if (currencyCol < 0 || rateCol < 0) return null;
+  return rows.map((r) => ({
+    currency: (r[currencyCol] ?? "").toUpperCase(),
+    rate: Number(r[rateCol]),
+    // unreadable dates go through as-is so the server reports the row
+    date:
+      dateCol >= 0
+        ? (parseStatementDate(r[dateCol] ?? "", "YYYY-MM-DD") ?? r[dateCol])
+        : undefined,
+  }));
+}
+
+/*
+  Settings section for the rates used to convert spends made in other currencies. Bucket math is
+  all in the home currency; a spend keeps its original amount and the rate it was converted at, so
+  editing or deleting a rate later never changes spends already recorded.
+*/
+export default function FxRates({enabled}: {enabled: boolean}) {
+  const {homeCurrency, rates, latest, save, importRates, remove} =
+    useFxRates(enabled);
+  const [currency, setCurrency] = useState("USD");
+  const [rate, setRate] = useState("");
+  const [date, setDate] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState("");
+  const [msg, setMsg] = useState("");
+
+  async function run(action: () => Promise<string | void>, failure: string) {
+    setErr("");
+    setMsg("");
+    setBusy(true);
+    try {
+      const done = await action();
+      if (done) setMsg(done);
+      return true;
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : failure);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function addRate(e: React.FormEvent) {
+    e.preventDefault();
+    const value = Number(rate);
+    if (!value || value <= 0) return setErr("Enter a valid rate");
+    const ok = await run(
+      () => save({currency, rate: value, date: date || undefined}),
+      "Failed to save rate"
+    );
+    if (ok) setRate("");
+  }
+
+  async function onFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    const rows = parseRatesFile(await file.text());
+    if (!rows) return setErr("The file needs currency and rate columns");
+    if (!rows.length) return setErr("No rates in the file");
+    await run(async () => {
+      const result = await importRates(rows);
+      return (
+        `Imported ${result.saved} rate${result.saved === 1 ? "" : "s"}.` +
+        (result.errors.length
+          ? ` ${result.errors.length} rows skipped (first: ${result.errors[0].error}).`
+          : "")
+      );
+    }, "Failed to import rates");
+  }
+
+  const others = COMMON_CURRENCIES.filter((c) => c !== homeCurrency);
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-slate-100 shadow-sm">
+      <h2 className="text-lg font-medium text-slate-900">
+        Currencies and exchange rates
+      </h2>
+      <p className="text-sm text-slate-600 mt-1">
+        Budgets are kept in your home currency ({homeCurrency}). Spends in other
+        currencies are converted with the latest rate on or before the day they
+        happened.
+      </p>
+
+      {Object.keys(latest).length > 0 && (
+        <div className="mt-4 flex flex-wrap gap-2 text-xs">
+          {Object.entries(latest).map(([c, r]) => (
+            <span key={c} className="rounded bg-slate-50 px-2 py-1">
+              1 {c} = {r.rate} {homeCurrency}
+              <span className="text-slate-400"> · {formatDate(r.date)}</span>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={addRate} className="mt-4 grid grid-cols-3 gap-2">
+        <select
+          value={currency}
+          onChange={(e) => setCurrency(e.target.value)}
+          className="p-2 border rounded text-sm"
+          aria-label="Currency"
+        >
+          {others.map((c) => (
+            <option key={c} value={c}>
+              1 {c} =
+            </option>
+          ))}
+        </select>
+        <input
+          value={rate}
+          onChange={(e) => setRate(e.target.value)}
+          inputMode="decimal"
+          placeholder={`Rate in ${homeCurrency}`}
+          className="p-2 border rounded text-sm"
+          aria-label="Rate"
+        />
+        <input
+          type="date"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          className="p-2 border rounded text-sm"
+          aria-label="From date (default today)"
+        />
+        <div className="col-span-3 flex flex-wrap items-center gap-3">
+          <button
+            type="submit"
+            disabled={busy || !enabled}
+            className="px-4 py-2 bg-teal-600 text-white rounded text-sm disabled:opacity-60"
+          >
+            {busy ? "Saving…" : "Add rate"}
+          </button>
+          <label className="text-xs text-slate-500">
+            or import a CSV (currency, rate, date columns){" "}
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={onFile}
+              disabled={busy || !enabled}
+              className="text-xs"
+            />
+          </label>
+        </div>
+      </form>
+
+      {msg && <div className="mt-3 text-sm text-teal-600">{msg}</div>}
+      {err && <div className="mt-3 text-sm text-rose-600">{err}</div>}
+
+      {rates.length > 0 && (
+        <div className="mt-4 max-h-60 overflow-y-auto text-sm">
+          {rates.map((r) => (
+            <div
+              key={r._id}
+              className="flex items-center gap-3 border-b border-slate-100 py-1"
+            >
+              <span className="w-24 text-slate-500">{formatDate(r.date)}</span>
+              <span className="flex-1">
+                1 {r.currency} = {r.rate} {r.homeCurrency}
+              </span>
+              <span className="text-xs text-slate-400">
+                {r.source === "import" ? "imported" : ""}
+              </span>
+              <button
+                type="button"
+                onClick={() =>
+                  run(() => remove(r._id), "Failed to delete rate")
+                }
+                className="text-xs text-slate-500 hover:underline"
+              >
+                Delete
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
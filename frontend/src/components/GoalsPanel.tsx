@@ -0,0 +1,218 @@
+// components/GoalsPanel.tsx
+"use client";
+import React, {useState} from "react";
+import {formatCurrency} from "@/utils/formatCurrency";
+import {formatDate} from "@/utils/locale";
+import type {Bucket} from "@/app/types/splits";
+import type {Goal} from "@/app/types/goals";
+import type {GoalInput} from "@/lib/useGoals";
+
+function shortDate(value?: string | null) {
+  if (!value) return "";
+  return formatDate(value, {
+    month: "short",
+    year: "numeric",
+  });
+}
+
+/*
+  Savings goals with progress from the spends tagged to them. "Add to goal" opens the
+  usual Add spend form with the goal (and its bucket) preselected. Actions whose handler is left
+  out (the user's role can't do them) are hidden.
+*/
+export default function GoalsPanel({
+  goals,
+  buckets,
+  onCreate,
+  onArchive,
+  onContribute,
+}: {
+  goals: Goal[];
+  buckets: Bucket[];
+  onCreate?: (goal: GoalInput) => Promise<unknown>;
+  onArchive?: (id: string) => Promise<unknown>;
+  onContribute?: (goal: Goal) => void;
+}) {
+  const [adding, setAdding] = useState(false);
+  const [name, setName] = useState("");
+  const [target, setTarget] = useState("");
+  const [deadline, setDeadline] = useState("");
+  const [monthly, setMonthly] = useState("");
+  const [bucket, setBucket] = useState(
+    () => buckets.find((b) => b.key === "savings")?.key ?? ""
+  );
+  const [saving, setSaving] = useState(false);
+  const [err, setErr] = useState("");
+
+  async function addGoal() {
+    if (!onCreate) return;
+    setErr("");
+    const amt = Number(target);
+    if (!name.trim()) return setErr("Give the goal a name");
+    if (!amt || amt <= 0) return setErr("Enter a valid target amount");
+    setSaving(true);
+    try {
+      await onCreate({
+        name: name.trim(),
+        targetAmount: amt,
+        deadline: deadline
+          ? new Date(`${deadline}T12:00:00`).toISOString()
+          : null,
+        bucket: bucket || buckets[0]?.key,
+        monthlyContribution: Number(monthly || 0),
+      });
+      setName("");
+      setTarget("");
+      setDeadline("");
+      setMonthly("");
+      setAdding(false);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Failed to save goal");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-slate-600">Goals</div>
+        {onCreate && (
+          <button
+            type="button"
+            onClick={() => setAdding((v) => !v)}
+            className="text-xs text-teal-600 hover:underline"
+          >
+            {adding ? "Cancel" : "+ New goal"}
+          </button>
+        )}
+      </div>
+
+      {adding && (
+        <div className="grid grid-cols-2 gap-2 mt-3">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Goal (e.g. Emergency fund)"
+            className="col-span-2 p-2 border border-slate-200 rounded text-sm"
+            aria-label="Goal name"
+          />
+          <input
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            inputMode="numeric"
+            placeholder="Target amount"
+            className="p-2 border border-slate-200 rounded text-sm"
+            aria-label="Target amount"
+          />
+          <input
+            value={monthly}
+            onChange={(e) => setMonthly(e.target.value)}
+            inputMode="numeric"
+            placeholder="Per month (optional)"
+            className="p-2 border border-slate-200 rounded text-sm"
+            aria-label="Monthly contribution"
+          />
+          <input
+            type="date"
+            value={deadline}
+            onChange={(e) => setDeadline(e.target.value)}
+            className="p-2 border border-slate-200 rounded text-sm"
+            aria-label="Deadline"
+          />
+          <select
+            value={bucket}
+            onChange={(e) => setBucket(e.target.value)}
+            className="p-2 border border-slate-200 rounded text-sm"
+            aria-label="Bucket"
+          >
+            {buckets.map((b) => (
+              <option key={b.key} value={b.key}>
+                From {b.name}
+              </option>
+            ))}
+          </select>
+          {err && <div className="col-span-2 text-sm text-rose-600">{err}</div>}
+          <button
+            type="button"
+            onClick={addGoal}
+            disabled={saving}
+            className="col-span-2 px-3 py-2 rounded bg-teal-600 text-white text-sm disabled:opacity-60"
+          >
+            {saving ? "Saving…" : "Save goal"}
+          </button>
+        </div>
+      )}
+
+      <div className="mt-3 space-y-3">
+        {goals.length === 0 && !adding && (
+          <div className="text-xs text-slate-400">
+            No goals yet — track an emergency fund, a trip or a down payment.
+          </div>
+        )}
+        {goals.map((g) => {
+          const p = g.progress;
+          return (
+            <div key={g._id} className="bg-slate-50 rounded p-2 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <div className="font-medium text-slate-800 truncate">
+                  {g.name}
+                </div>
+                <div className="text-xs text-slate-500 whitespace-nowrap">
+                  {formatCurrency(p.saved)} / {formatCurrency(g.targetAmount)}
+                </div>
+              </div>
+              <div className="w-full bg-slate-200 rounded-full h-2 mt-2 overflow-hidden">
+                <div
+                  className="h-2 rounded-full bg-teal-500"
+                  style={{width: `${p.percent}%`}}
+                />
+              </div>
+              <div className="mt-1 text-xs text-slate-500">
+                {p.completed
+                  ? "Goal reached 🎉"
+                  : p.projectedCompletion
+                    ? `On pace for ${shortDate(p.projectedCompletion)}`
+                    : "Add a contribution to see a projection"}
+                {g.deadline && !p.completed && (
+                  <>
+                    {" · "}
+                    <span
+                      className={p.onTrack ? "text-teal-700" : "text-rose-600"}
+                    >
+                      {p.onTrack ? "on track" : "behind"} for{" "}
+                      {shortDate(g.deadline)}
+                    </span>
+                    {!p.onTrack && p.requiredMonthly
+                      ? ` (needs ${formatCurrency(p.requiredMonthly)}/month)`
+                      : ""}
+                  </>
+                )}
+              </div>
+              <div className="mt-2 flex gap-3">
+                {!p.completed && onContribute && (
+                  <button
+                    type="button"
+                    onClick={() => onContribute(g)}
+                    className="text-xs text-teal-600 hover:underline"
+                  >
+                    Add to goal
+                  </button>
+                )}
+                {onArchive && (
+                  <button
+                    type="button"
+                    onClick={() => onArchive(g._id)}
+                    className="text-xs text-slate-500 hover:underline"
+                  >
+                    Archive
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
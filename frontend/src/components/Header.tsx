@@ -235,6 +235,14 @@ export default function Header() {
                     aria-label="Account menu"
                     className="absolute right-0 mt-2 w-48 bg-white border border-slate-100 rounded-md shadow-lg py-1 z-50"
                   >
+                    <Link
+                      href="/dependents"
+                      className="block px-3 py-2 text-sm text-slate-700 hover:bg-slate-50"
+                      role="menuitem"
+                      onClick={() => setDropdownOpen(false)}
+                    >
+                      Dependents
+                    </Link>
                     <Link
                       href="/settings"
                       className="block px-3 py-2 text-sm text-slate-700 hover:bg-slate-50"
@@ -367,6 +375,14 @@ export default function Header() {
             ) : null}
 
             <div className="mt-4 grid gap-2 text-sm">
+              <Link
+                href="/dependents"
+                className="block px-3 py-2 text-sm text-slate-700 hover:bg-slate-50"
+                role="menuitem"
+                onClick={() => setDropdownOpen(false)}
+              >
+                Dependents
+              </Link>
               <Link
                 href="/settings"
                 className="block px-3 py-2 text-sm text-slate-700 hover:bg-slate-50"
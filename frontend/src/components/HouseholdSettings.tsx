@@ -0,0 +1,300 @@
+// components/HouseholdSettings.tsx
+"use client";
+import React, {useState} from "react";
+import {formatDate} from "@/utils/locale";
+import {useHousehold} from "@/lib/useHousehold";
+import type {Bucket} from "@/app/types/splits";
+import {ROLES, type Role} from "@/app/types/household";
+
+/*
+  Settings section for budgeting together. Members keep their own salaries and buckets; the
+  buckets ticked here are pooled, so everyone sees the household's combined allocation and spend
+  for them on the dashboard. Spends from before someone leaves stay in the household's history.
+  Only the owner manages members, roles and shared buckets; everyone can leave.
+*/
+export default function HouseholdSettings({
+  enabled,
+  userId,
+  canManage,
+  buckets,
+  onChange,
+}: {
+  enabled: boolean;
+  userId: string;
+  canManage: boolean; // the user's role has the "household" permission
+  buckets: Bucket[];
+  onChange?: () => unknown; // after any change, e.g. to refresh the user's own role
+}) {
+  const {
+    household,
+    invites,
+    create,
+    update,
+    invite,
+    accept,
+    dismissInvite,
+    setRole,
+    removeMember,
+  } = useHousehold(enabled);
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<Role>("editor");
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState("");
+
+  async function run(action: () => Promise<unknown>, failure: string) {
+    setErr("");
+    setBusy(true);
+    try {
+      await action();
+      onChange?.();
+      return true;
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : failure);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function createHousehold(e: React.FormEvent) {
+    e.preventDefault();
+    if (!name.trim()) return setErr("Give the household a name");
+    const ok = await run(
+      () => create({name: name.trim(), sharedBuckets: []}),
+      "Failed to create household"
+    );
+    if (ok) setName("");
+  }
+
+  async function sendInvite(e: React.FormEvent) {
+    e.preventDefault();
+    if (!email.trim()) return setErr("Enter an email");
+    const ok = await run(
+      () => invite(email.trim(), inviteRole),
+      "Failed to invite"
+    );
+    if (ok) setEmail("");
+  }
+
+  function toggleBucket(key: string, shared: boolean) {
+    if (!household) return;
+    const next = shared
+      ? [...household.sharedBuckets, key]
+      : household.sharedBuckets.filter((k) => k !== key);
+    run(() => update({sharedBuckets: next}), "Failed to update buckets");
+  }
+
+  const manages = !!household && canManage;
+  const roleLabel = (r: Role) => ROLES.find((x) => x.value === r)?.label ?? r;
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-slate-100 shadow-sm">
+      <h2 className="text-lg font-medium text-slate-900">Household</h2>
+      <p className="text-sm text-slate-600 mt-1">
+        Budget with a partner or family: pick buckets to share and everyone sees
+        what is left in them across the household.
+      </p>
+
+      {invites.length > 0 && (
+        <div className="mt-4 space-y-2">
+          {invites.map((i) => (
+            <div
+              key={i._id}
+              className="flex items-center gap-3 rounded bg-teal-50 p-2 text-sm"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="truncate text-slate-800">
+                  Join &quot;{i.householdName}&quot;
+                </div>
+                <div className="text-xs text-slate-500">
+                  as {roleLabel(i.role).toLowerCase()}
+                  {i.invitedBy ? ` · from ${i.invitedBy}` : ""} ·{" "}
+                  {formatDate(i.createdAt)}
+                </div>
+              </div>
+              <button
+                type="button"
+                disabled={busy || !!household}
+                title={household ? "Leave your household first" : undefined}
+                onClick={() => run(() => accept(i._id), "Failed to join")}
+                className="text-xs text-teal-600 hover:underline disabled:opacity-60"
+              >
+                Join
+              </button>
+              <button
+                type="button"
+                disabled={busy}
+                onClick={() =>
+                  run(() => dismissInvite(i._id), "Failed to decline")
+                }
+                className="text-xs text-slate-500 hover:underline"
+              >
+                Decline
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!household && (
+        <form onSubmit={createHousehold} className="mt-4 flex gap-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Household name (e.g. Home)"
+            className="flex-1 p-2 border rounded text-sm"
+            aria-label="Household name"
+          />
+          <button
+            type="submit"
+            disabled={busy || !enabled}
+            className="px-4 py-2 bg-teal-600 text-white rounded text-sm disabled:opacity-60"
+          >
+            Start a household
+          </button>
+        </form>
+      )}
+
+      {household && (
+        <>
+          <div className="mt-4 text-sm font-medium text-slate-800">
+            {household.name}
+          </div>
+
+          <div className="mt-2 space-y-1">
+            {household.members.map((m) => (
+              <div
+                key={m.userId}
+                className="flex items-center gap-3 border-b border-slate-100 py-1 text-sm"
+              >
+                <span className="flex-1 min-w-0 truncate">
+                  {m.name || m.email}
+                  {m.userId === userId ? " (you)" : ""}
+                </span>
+                {manages && !m.isOwner ? (
+                  <select
+                    value={m.role}
+                    onChange={(e) =>
+                      run(
+                        () => setRole(m.userId, e.target.value as Role),
+                        "Failed to change role"
+                      )
+                    }
+                    disabled={busy}
+                    className="p-1 border rounded text-xs"
+                    aria-label={`Role of ${m.name || m.email}`}
+                  >
+                    {ROLES.map((r) => (
+                      <option key={r.value} value={r.value} title={r.hint}>
+                        {r.value === "owner" ? "Make owner" : r.label}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="text-xs text-slate-500">
+                    {roleLabel(m.role)}
+                  </span>
+                )}
+                <span className="text-xs text-slate-400">
+                  since {formatDate(m.joinedAt)}
+                </span>
+                {(m.userId === userId || manages) && (
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() =>
+                      run(
+                        () => removeMember(m.userId),
+                        "Failed to remove member"
+                      )
+                    }
+                    className="text-xs text-slate-500 hover:underline"
+                  >
+                    {m.userId === userId ? "Leave" : "Remove"}
+                  </button>
+                )}
+              </div>
+            ))}
+            {household.invites.map((i) => (
+              <div
+                key={i._id}
+                className="flex items-center gap-3 border-b border-slate-100 py-1 text-sm text-slate-500"
+              >
+                <span className="flex-1 min-w-0 truncate">{i.email}</span>
+                <span className="text-xs text-slate-400">
+                  invited as {roleLabel(i.role).toLowerCase()}
+                </span>
+                {manages && (
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() =>
+                      run(() => dismissInvite(i._id), "Failed to cancel invite")
+                    }
+                    className="text-xs text-slate-500 hover:underline"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {manages && (
+            <form onSubmit={sendInvite} className="mt-3 flex gap-2">
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="Invite by email"
+                className="flex-1 p-2 border rounded text-sm"
+                aria-label="Invite by email"
+              />
+              <select
+                value={inviteRole}
+                onChange={(e) => setInviteRole(e.target.value as Role)}
+                className="p-2 border rounded text-sm"
+                aria-label="Role"
+              >
+                {ROLES.filter((r) => r.value !== "owner").map((r) => (
+                  <option key={r.value} value={r.value} title={r.hint}>
+                    {r.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="submit"
+                disabled={busy || !enabled}
+                className="px-4 py-2 bg-teal-600 text-white rounded text-sm disabled:opacity-60"
+              >
+                Invite
+              </button>
+            </form>
+          )}
+
+          <div className="mt-4 text-sm text-slate-600">Shared buckets</div>
+          <div className="mt-2 flex flex-wrap gap-3 text-sm">
+            {buckets.map((b) => (
+              <label key={b.key} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={household.sharedBuckets.includes(b.key)}
+                  onChange={(e) => toggleBucket(b.key, e.target.checked)}
+                  disabled={busy || !manages}
+                />
+                {b.name}
+              </label>
+            ))}
+          </div>
+          <div className="text-xs text-slate-400 mt-1">
+            Members share buckets by their key, so give shared buckets the same
+            one on every account.
+          </div>
+        </>
+      )}
+
+      {err && <div className="mt-3 text-sm text-rose-600">{err}</div>}
+    </div>
+  );
+}
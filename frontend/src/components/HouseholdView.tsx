@@ -0,0 +1,190 @@
+// components/HouseholdView.tsx
+"use client";
+import React, {useEffect, useState} from "react";
+import fetchWithAuth from "@/lib/fetchWithAuth";
+import {formatCurrency, formatOriginalAmount} from "@/utils/formatCurrency";
+import {formatDate} from "@/utils/locale";
+import {bucketLabel} from "@/app/types/splits";
+import type {Household, HouseholdSummary} from "@/app/types/household";
+import type {Txn} from "@/app/types/transactions";
+
+/*
+  Dashboard view of the household for one budget period: each shared bucket with the pooled
+  allocation, what is left and who spent what, then every member's spends from those buckets.
+  Read-only — members edit their own spends from the personal view.
+*/
+export default function HouseholdView({
+  household,
+  month,
+  userId,
+}: {
+  household: Household;
+  month: string;
+  userId: string;
+}) {
+  const [summary, setSummary] = useState<HouseholdSummary | null>(null);
+  const [txns, setTxns] = useState<Txn[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [err, setErr] = useState("");
+  const shared = household.sharedBuckets.join(",");
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      setLoading(true);
+      setErr("");
+      try {
+        const api = process.env.NEXT_PUBLIC_BACKEND_URL;
+        const [summaryRes, txnsRes] = await Promise.all([
+          fetchWithAuth(`${api}/api/household/summary?month=${month}`, {
+            credentials: "include",
+          }),
+          fetchWithAuth(
+            `${api}/api/transactions?scope=household&from=${month}&to=${month}&limit=0`,
+            {credentials: "include"}
+          ),
+        ]);
+        if (!summaryRes.ok || !txnsRes.ok) {
+          throw new Error("Failed to load household");
+        }
+        const s = await summaryRes.json();
+        const t = await txnsRes.json();
+        if (cancelled) return;
+        setSummary(s);
+        setTxns(Array.isArray(t.transactions) ? t.transactions : []);
+      } catch (e) {
+        if (!cancelled) {
+          setErr(e instanceof Error ? e.message : "Failed to load household");
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [month, household._id, shared]);
+
+  // spends by people who have since left stay in the history
+  const memberName = (id: string) => {
+    if (id === userId) return "You";
+    const m = household.members.find((x) => x.userId === id);
+    return m ? m.name || m.email : "Former member";
+  };
+
+  if (!household.sharedBuckets.length) {
+    return (
+      <section className="mt-6 bg-white rounded-2xl p-6 border border-gray-100 shadow-sm text-sm text-slate-600">
+        {household.name} has no shared buckets yet. Pick them in Settings →
+        Household.
+      </section>
+    );
+  }
+
+  return (
+    <section className="mt-6 space-y-6">
+      {err && <div className="text-sm text-rose-600">{err}</div>}
+
+      <div className="bg-white rounded-2xl p-4 md:p-5 border border-gray-100 shadow-sm">
+        <div className="flex items-baseline justify-between">
+          <h2 className="text-lg font-medium text-slate-900">
+            {household.name}
+          </h2>
+          {summary && (
+            <div className="text-sm text-slate-600">
+              {formatCurrency(summary.totals.remaining)} left of{" "}
+              {formatCurrency(summary.totals.allocated)}
+            </div>
+          )}
+        </div>
+
+        {loading && !summary && (
+          <div className="mt-4 text-sm text-slate-400">Loading…</div>
+        )}
+
+        <div className="mt-4 grid gap-4 md:grid-cols-2">
+          {summary?.buckets.map((b) => {
+            const pct = b.allocated
+              ? Math.min(100, Math.round((b.spent / b.allocated) * 100))
+              : 0;
+            return (
+              <div key={b.key} className="rounded-xl bg-slate-50 p-3">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium text-slate-800">
+                    {b.icon} {b.name}
+                  </span>
+                  <span
+                    className={
+                      b.remaining < 0 ? "text-rose-600" : "text-slate-600"
+                    }
+                  >
+                    {formatCurrency(b.remaining)} left
+                  </span>
+                </div>
+                <div className="mt-2 h-2 rounded bg-slate-200">
+                  <div
+                    className="h-2 rounded"
+                    style={{width: `${pct}%`, backgroundColor: b.color}}
+                  />
+                </div>
+                <div className="mt-1 text-xs text-slate-500">
+                  {formatCurrency(b.spent)} spent of{" "}
+                  {formatCurrency(b.allocated)}
+                </div>
+                <div className="mt-2 space-y-1 text-xs">
+                  {b.members.map((m) => (
+                    <div key={m.userId} className="flex justify-between">
+                      <span className="text-slate-600">
+                        {memberName(m.userId)}
+                      </span>
+                      <span className="text-slate-500">
+                        {formatCurrency(m.spent)} of{" "}
+                        {formatCurrency(m.allocated)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl p-4 md:p-5 border border-gray-100 shadow-sm">
+        <h3 className="text-sm font-medium text-slate-800">Household spends</h3>
+        {txns.length === 0 && !loading && (
+          <div className="mt-3 text-sm text-slate-400">
+            No shared spends this period.
+          </div>
+        )}
+        <div className="mt-2 divide-y divide-slate-100">
+          {txns.map((t) => (
+            <div key={t._id} className="flex items-center gap-3 py-2">
+              <div className="flex-1 min-w-0">
+                <div className="truncate text-sm text-slate-800">
+                  {t.category || t.notes || bucketLabel(t.bucket)}
+                </div>
+                <div className="text-xs text-slate-500">
+                  {memberName(t.userId)} ·{" "}
+                  {summary?.buckets.find((b) => b.key === t.bucket)?.name ??
+                    bucketLabel(t.bucket)}{" "}
+                  · {formatDate(t.occurredAt ?? t.createdAt ?? "")}
+                </div>
+              </div>
+              <div className="text-right">
+                <div className="text-sm font-semibold text-rose-600">
+                  {formatCurrency(t.amount)}
+                </div>
+                {t.originalCurrency && (
+                  <div className="text-xs text-slate-400">
+                    {formatOriginalAmount(t)}
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+}
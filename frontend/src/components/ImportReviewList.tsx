@@ -0,0 +1,98 @@
+// components/ImportReviewList.tsx
+"use client";
+import React from "react";
+import {formatCurrency} from "@/utils/formatCurrency";
+import {formatDate} from "@/utils/locale";
+import type {Bucket} from "@/app/types/splits";
+import type {ImportPreviewRow} from "@/app/types/imports";
+import type {ImportDraft} from "@/lib/useImportReview";
+
+/*
+  Rows waiting to be imported: tick the ones to keep and confirm their bucket/category.
+  State lives in useImportReview; this only renders it.
+*/
+export default function ImportReviewList({
+  preview,
+  drafts,
+  buckets,
+  onChange,
+}: {
+  preview: ImportPreviewRow[];
+  drafts: Record<number, ImportDraft>;
+  buckets: Bucket[];
+  onChange: (index: number, patch: Partial<ImportDraft>) => void;
+}) {
+  return (
+    <div className="max-h-[50vh] overflow-y-auto space-y-2 pr-1">
+      {preview.map((r) => {
+        const d = drafts[r.index];
+        if (!d) return null;
+        return (
+          <div
+            key={r.index}
+            className={`rounded p-2 text-sm ${d.include ? "bg-slate-50" : "bg-white opacity-60"}`}
+          >
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={d.include}
+                onChange={(e) => onChange(r.index, {include: e.target.checked})}
+                aria-label="Import this row"
+              />
+              <div className="flex-1 min-w-0 truncate text-slate-800">
+                {r.description || "—"}
+              </div>
+              <div className="font-medium whitespace-nowrap">
+                {formatCurrency(r.amount)}
+              </div>
+            </div>
+            <div className="mt-1 flex items-center gap-2 text-xs text-slate-500">
+              <span>{formatDate(r.date)}</span>
+              {r.duplicate === "imported" && (
+                <span className="text-rose-600">Imported before</span>
+              )}
+              {r.duplicate === "possible" && (
+                <span className="text-amber-600">Possible duplicate</span>
+              )}
+              {r.suggestion && !r.duplicate && (
+                <span>
+                  {r.suggestion.source === "rule"
+                    ? "Your rule"
+                    : r.suggestion.source === "history"
+                      ? "Like your past spends"
+                      : "Suggested"}
+                </span>
+              )}
+            </div>
+            {d.include && (
+              <div className="mt-2 grid grid-cols-2 gap-2">
+                <select
+                  value={d.bucket}
+                  onChange={(e) => onChange(r.index, {bucket: e.target.value})}
+                  className="p-1 border rounded text-xs"
+                  aria-label="Bucket"
+                >
+                  <option value="">Bucket…</option>
+                  {buckets.map((b) => (
+                    <option key={b.key} value={b.key}>
+                      {b.name}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  value={d.category}
+                  onChange={(e) =>
+                    onChange(r.index, {category: e.target.value})
+                  }
+                  placeholder="Category"
+                  className="p-1 border rounded text-xs"
+                  aria-label="Category"
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,400 @@
+// components/ImportStatementModal.tsx
+"use client";
+import React, {useState} from "react";
+import {Modal} from "@/modals/Modal";
+import {useImportReview} from "@/lib/useImportReview";
+import ImportReviewList from "@/components/ImportReviewList";
+import {
+  DATE_FORMATS,
+  SIGN_CONVENTIONS,
+  guessMapping,
+  parseAmount,
+  parseCsv,
+  parseSignedAmount,
+  parseStatementDate,
+  type ColumnMapping,
+  type DateFormat,
+  type SignConvention,
+} from "@/utils/csv";
+import {
+  detectStatementFormat,
+  parseCamt,
+  parseOfx,
+  parseQif,
+  type ParsedStatement,
+  type StatementEntry,
+  type StatementFormat,
+} from "@/utils/statements";
+import type {Bucket} from "@/app/types/splits";
+import type {ImportResult, ImportRow} from "@/app/types/imports";
+
+type Step = "upload" | "map" | "preview" | "done";
+
+const FIELDS: {key: keyof ColumnMapping; label: string; optional?: boolean}[] =
+  [
+    {key: "date", label: "Date"},
+    {key: "description", label: "Description"},
+    {key: "debit", label: "Debit / withdrawal"},
+    {key: "credit", label: "Credit / deposit", optional: true},
+  ];
+
+// CSV lines through the user's column mapping; rows with neither a debit nor a credit are unreadable.
+// Without a credit column the debit column is signed and read by the user's sign convention.
+function entriesFromCsv(
+  lines: string[][],
+  mapping: ColumnMapping,
+  dateFormat: DateFormat,
+  sign: SignConvention
+): ParsedStatement {
+  const entries: StatementEntry[] = [];
+  let unreadable = 0;
+  for (const line of lines) {
+    let debit: number, credit: number;
+    if (mapping.credit >= 0) {
+      debit = parseAmount(line[mapping.debit]);
+      credit = parseAmount(line[mapping.credit]);
+    } else {
+      const signed = parseSignedAmount(line[mapping.debit], sign);
+      debit = Math.max(signed, 0);
+      credit = Math.max(-signed, 0);
+    }
+    const date = parseStatementDate(line[mapping.date], dateFormat);
+    if (!date || (!debit && !credit)) {
+      unreadable++;
+      continue;
+    }
+    entries.push({
+      date,
+      description: line[mapping.description] ?? "",
+      amount: debit || credit,
+      direction: debit ? "debit" : "credit",
+    });
+  }
+  return {entries, unreadable};
+}
+
+/*
+  Bank statement import (CSV, OFX/QFX, QIF or CAMT.053): pick the file, map its columns (CSV) or
+  confirm its date format (QIF), then review every debit with a suggested bucket/category before
+  anything is saved. Money coming in is left out, and lines imported before are unticked (the
+  server skips them anyway).
+*/
+export default function ImportStatementModal({
+  open,
+  onClose,
+  buckets,
+  onImported,
+}: {
+  open: boolean;
+  onClose: () => void;
+  buckets: Bucket[];
+  onImported: () => Promise<unknown> | void;
+}) {
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [format, setFormat] = useState<StatementFormat>("csv");
+  const [fileText, setFileText] = useState(""); // non-CSV files are parsed whole
+  const [header, setHeader] = useState<string[]>([]);
+  const [lines, setLines] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({
+    date: -1,
+    description: -1,
+    debit: -1,
+    credit: -1,
+  });
+  const [dateFormat, setDateFormat] = useState<DateFormat>("DD/MM/YYYY");
+  const [sign, setSign] = useState<SignConvention>("negative_debit");
+  const review = useImportReview();
+  const [left, setLeft] = useState({moneyIn: 0, unreadable: 0});
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState("");
+
+  function reset() {
+    setStep("upload");
+    setFileName("");
+    setFormat("csv");
+    setFileText("");
+    setHeader([]);
+    setLines([]);
+    review.reset();
+    setResult(null);
+    setErr("");
+  }
+
+  function close() {
+    reset();
+    onClose();
+  }
+
+  async function onFile(e: React.ChangeEvent<HTMLInputElement>) {
+    setErr("");
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    const kind = detectStatementFormat(file.name, text);
+    setFileName(file.name);
+    setFormat(kind);
+    if (kind !== "csv") {
+      setFileText(text);
+      // OFX and CAMT dates are unambiguous; QIF dates follow the bank's locale
+      if (kind === "qif") return setStep("map");
+      return loadPreview(kind, text);
+    }
+    const parsed = parseCsv(text);
+    if (parsed.length < 2) return setErr("That file has no rows to import");
+    setHeader(parsed[0]);
+    setLines(parsed.slice(1));
+    setMapping(guessMapping(parsed[0]));
+    setStep("map");
+  }
+
+  function readEntries(kind: StatementFormat, text: string) {
+    if (kind === "ofx") return parseOfx(text);
+    if (kind === "qif") return parseQif(text, dateFormat);
+    if (kind === "camt") return parseCamt(text);
+    return entriesFromCsv(lines, mapping, dateFormat, sign);
+  }
+
+  async function loadPreview(kind = format, text = fileText) {
+    setErr("");
+    if (
+      kind === "csv" &&
+      (mapping.date < 0 || mapping.description < 0 || mapping.debit < 0)
+    ) {
+      return setErr("Map the date, description and debit columns");
+    }
+
+    const {entries, unreadable} = readEntries(kind, text);
+    const out: ImportRow[] = entries
+      .filter((e) => e.direction === "debit")
+      .map((e) => ({
+        date: new Date(`${e.date}T12:00:00`).toISOString(),
+        description: e.description,
+        amount: e.amount,
+        externalId: e.externalId,
+      }));
+    setLeft({moneyIn: entries.length - out.length, unreadable});
+    if (!out.length) {
+      return setErr(
+        kind === "csv"
+          ? "No debits found with these columns"
+          : "No debits found in this file"
+      );
+    }
+
+    setBusy(true);
+    try {
+      await review.load(out);
+      setStep("preview");
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Failed to preview");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function runImport() {
+    setErr("");
+    setBusy(true);
+    try {
+      setResult(await review.submit());
+      setStep("done");
+      await onImported();
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Import failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Modal open={open} title="Import bank statement" onClose={close}>
+      {step === "upload" && (
+        <div className="grid gap-3">
+          <p className="text-sm text-slate-600">
+            Download your statement from your bank&apos;s website as CSV, OFX,
+            QIF or CAMT.053 (XML) and pick it here. Nothing is saved until you
+            review the rows.
+          </p>
+          <input
+            type="file"
+            accept=".csv,.ofx,.qfx,.qif,.xml,text/csv"
+            onChange={onFile}
+            className="text-sm"
+            aria-label="Statement file"
+          />
+        </div>
+      )}
+
+      {step === "map" && (
+        <div className="grid gap-3">
+          <div className="text-sm text-slate-600">
+            {format === "csv"
+              ? `${fileName} · ${lines.length} rows. Which column holds what?`
+              : `${fileName}. Which date format does your bank use?`}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {format === "csv" &&
+              FIELDS.map((f) => (
+                <label key={f.key} className="text-xs text-slate-500">
+                  {f.label}
+                  <select
+                    value={mapping[f.key]}
+                    onChange={(e) =>
+                      setMapping((m) => ({
+                        ...m,
+                        [f.key]: Number(e.target.value),
+                      }))
+                    }
+                    className="w-full mt-1 p-2 border rounded text-sm text-slate-800"
+                  >
+                    <option value={-1}>{f.optional ? "None" : "—"}</option>
+                    {header.map((h, i) => (
+                      <option key={i} value={i}>
+                        {h || `Column ${i + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            <label className="text-xs text-slate-500">
+              Date format
+              <select
+                value={dateFormat}
+                onChange={(e) => setDateFormat(e.target.value as DateFormat)}
+                className="w-full mt-1 p-2 border rounded text-sm text-slate-800"
+              >
+                {DATE_FORMATS.map((f) => (
+                  <option key={f} value={f}>
+                    {f}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {format === "csv" && mapping.debit >= 0 && mapping.credit < 0 && (
+            <label className="text-xs text-slate-500">
+              With no credit column, the amount&apos;s sign tells spends from
+              money coming in (which is left out). Amounts marked Dr or Cr
+              follow the mark.
+              <select
+                value={sign}
+                onChange={(e) => setSign(e.target.value as SignConvention)}
+                className="w-full mt-1 p-2 border rounded text-sm text-slate-800"
+              >
+                {SIGN_CONVENTIONS.map((c) => (
+                  <option key={c.value} value={c.value}>
+                    {c.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          {format === "csv" && mapping.date >= 0 && lines[0] && (
+            <div className="text-xs text-slate-500">
+              First row: {lines[0][mapping.date]} →{" "}
+              {parseStatementDate(lines[0][mapping.date], dateFormat) ??
+                "unreadable date"}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => loadPreview()}
+              disabled={busy}
+              className="px-3 py-2 rounded bg-teal-600 text-white text-sm disabled:opacity-60"
+            >
+              {busy ? "Reading…" : "Preview"}
+            </button>
+            <button
+              type="button"
+              onClick={reset}
+              className="px-3 py-2 rounded bg-slate-100 text-sm"
+            >
+              Pick another file
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === "preview" && (
+        <div className="grid gap-3">
+          <div className="text-xs text-slate-500">
+            {review.preview.length} debits
+            {left.moneyIn ? ` · ${left.moneyIn} credits left out` : ""}
+            {left.unreadable ? ` · ${left.unreadable} unreadable rows` : ""}
+          </div>
+
+          <ImportReviewList
+            preview={review.preview}
+            drafts={review.drafts}
+            buckets={buckets}
+            onChange={review.update}
+          />
+
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={runImport}
+              disabled={busy || !review.chosen.length}
+              className="px-3 py-2 rounded bg-teal-600 text-white text-sm disabled:opacity-60"
+            >
+              {busy
+                ? "Importing…"
+                : `Import ${review.chosen.length} spend${review.chosen.length === 1 ? "" : "s"}`}
+            </button>
+            <button
+              type="button"
+              onClick={() =>
+                format === "csv" || format === "qif" ? setStep("map") : reset()
+              }
+              className="px-3 py-2 rounded bg-slate-100 text-sm"
+            >
+              Back
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === "done" && result && (
+        <div className="grid gap-3 text-sm text-slate-700">
+          <div>
+            Imported {result.created} spend{result.created === 1 ? "" : "s"}.
+            {result.skipped.length
+              ? ` ${result.skipped.length} already imported before were skipped.`
+              : ""}
+          </div>
+          {result.errors.length > 0 && (
+            <div className="text-rose-600">
+              {result.errors.length} row
+              {result.errors.length === 1 ? "" : "s"} could not be imported (
+              {result.errors[0].error}).
+            </div>
+          )}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={close}
+              className="px-3 py-2 rounded bg-teal-600 text-white text-sm"
+            >
+              Done
+            </button>
+            <button
+              type="button"
+              onClick={reset}
+              className="px-3 py-2 rounded bg-slate-100 text-sm"
+            >
+              Import another file
+            </button>
+          </div>
+        </div>
+      )}
+
+      {err && <div className="mt-3 text-sm text-rose-600">{err}</div>}
+    </Modal>
+  );
+}
@@ -0,0 +1,221 @@
+// components/IncomeSources.tsx
+"use client";
+import React, {useCallback, useEffect, useState} from "react";
+import fetchWithAuth from "@/lib/fetchWithAuth";
+import {formatCurrency} from "@/utils/formatCurrency";
+import {formatDate} from "@/utils/locale";
+import type {Bucket} from "@/app/types/splits";
+import {
+  INCOME_SOURCES,
+  incomeSourceLabel,
+  type Income,
+  type IncomeSource,
+} from "@/app/types/income";
+
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/*
+  Income received this month on top of the salary (freelance, rent, interest, bonus...).
+  Each entry is saved straight away and distributed on its own: with the usual split,
+  or entirely into one bucket (e.g. a bonus straight into savings). Without `canEdit` the
+  list is shown read-only.
+*/
+export default function IncomeSources({
+  buckets,
+  canEdit = true,
+}: {
+  buckets: Bucket[];
+  canEdit?: boolean;
+}) {
+  const [incomes, setIncomes] = useState<Income[]>([]);
+  const [source, setSource] = useState<IncomeSource>("freelance");
+  const [label, setLabel] = useState("");
+  const [amount, setAmount] = useState("");
+  const [date, setDate] = useState(today);
+  const [intoBucket, setIntoBucket] = useState(""); // "" = usual split
+  const [saving, setSaving] = useState(false);
+  const [err, setErr] = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetchWithAuth(
+        `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/incomes`,
+        {credentials: "include"}
+      );
+      if (!res.ok) return;
+      const j = await res.json();
+      setIncomes(Array.isArray(j.incomes) ? j.incomes : []);
+    } catch (e) {
+      console.error("load incomes error", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function addIncome() {
+    setErr("");
+    const amt = Number(amount);
+    if (!amt || amt <= 0) return setErr("Enter a valid amount");
+    setSaving(true);
+    try {
+      const res = await fetchWithAuth(
+        `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/incomes`,
+        {
+          method: "POST",
+          credentials: "include",
+          headers: {"Content-Type": "application/json"},
+          body: JSON.stringify({
+            source,
+            label,
+            amount: amt,
+            date: new Date(`${date}T12:00:00`).toISOString(),
+            splits: intoBucket ? {[intoBucket]: 100} : null,
+          }),
+        }
+      );
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(j.error || "Failed to save income");
+      setLabel("");
+      setAmount("");
+      await load();
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Failed to save income");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function removeIncome(id: string) {
+    const prev = incomes;
+    setIncomes((p) => p.filter((i) => i._id !== id));
+    try {
+      const res = await fetchWithAuth(
+        `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/incomes/${id}`,
+        {method: "DELETE", credentials: "include"}
+      );
+      if (!res.ok) throw new Error("Failed to delete income");
+    } catch (e) {
+      console.error("delete income error", e);
+      setIncomes(prev);
+    }
+  }
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-slate-700">
+        Other income this month
+      </h4>
+      <p className="text-xs text-slate-500 mt-1">
+        Freelance work, rent, interest or a bonus is distributed on top of your
+        salary.
+      </p>
+
+      {incomes.length > 0 && (
+        <div className="mt-3 space-y-2">
+          {incomes.map((i) => (
+            <div
+              key={i._id}
+              className="flex items-center justify-between bg-slate-50 rounded p-2 text-sm"
+            >
+              <div className="min-w-0">
+                <div className="font-medium text-slate-800 truncate">
+                  {incomeSourceLabel(i.source)}
+                  {i.label ? ` · ${i.label}` : ""}
+                </div>
+                <div className="text-xs text-slate-500">
+                  {formatDate(i.receivedAt)}
+                  {i.splits
+                    ? ` · into ${Object.keys(i.splits)
+                        .map((k) => buckets.find((b) => b.key === k)?.name ?? k)
+                        .join(", ")}`
+                    : ""}
+                </div>
+              </div>
+              <div className="flex items-center gap-3">
+                <div className="font-medium">{formatCurrency(i.amount)}</div>
+                {canEdit && (
+                  <button
+                    type="button"
+                    onClick={() => removeIncome(i._id)}
+                    className="text-xs text-rose-600"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canEdit && (
+        <>
+          <div className="grid grid-cols-2 gap-2 mt-3">
+            <select
+              value={source}
+              onChange={(e) => setSource(e.target.value as IncomeSource)}
+              className="p-2 border border-slate-200 rounded text-sm"
+              aria-label="Source"
+            >
+              {INCOME_SOURCES.map((s) => (
+                <option key={s.value} value={s.value}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+            <input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Label (optional)"
+              className="p-2 border border-slate-200 rounded text-sm"
+              aria-label="Label"
+            />
+            <input
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              inputMode="numeric"
+              placeholder="Amount"
+              className="p-2 border border-slate-200 rounded text-sm"
+              aria-label="Amount"
+            />
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="p-2 border border-slate-200 rounded text-sm"
+              aria-label="Date received"
+            />
+            <select
+              value={intoBucket}
+              onChange={(e) => setIntoBucket(e.target.value)}
+              className="col-span-2 p-2 border border-slate-200 rounded text-sm"
+              aria-label="Split"
+            >
+              <option value="">Split like my salary</option>
+              {buckets.map((b) => (
+                <option key={b.key} value={b.key}>
+                  All into {b.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {err && <div className="text-sm text-red-500 mt-2">{err}</div>}
+
+          <button
+            type="button"
+            onClick={addIncome}
+            disabled={saving}
+            className="mt-2 text-sm text-teal-600 hover:underline disabled:opacity-60"
+          >
+            {saving ? "Adding..." : "+ Add income"}
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+// components/PasteMessagesModal.tsx
+"use client";
+import React, {useState} from "react";
+import {Modal} from "@/modals/Modal";
+import {useImportReview} from "@/lib/useImportReview";
+import ImportReviewList from "@/components/ImportReviewList";
+import {parseBankMessage, splitMessages} from "@/utils/bankMessages";
+import type {Bucket} from "@/app/types/splits";
+import type {ImportRow} from "@/app/types/imports";
+
+function today() {
+  const d = new Date();
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000)
+    .toISOString()
+    .slice(0, 10);
+}
+
+/*
+  Quick entry from bank SMS / UPI alerts: paste one or many, check the spends read from them and
+  save. Goes through the same review and duplicate checks as a statement import, so pasting a
+  message twice doesn't log the spend twice.
+*/
+export default function PasteMessagesModal({
+  open,
+  onClose,
+  buckets,
+  onSaved,
+}: {
+  open: boolean;
+  onClose: () => void;
+  buckets: Bucket[];
+  onSaved: () => Promise<unknown> | void;
+}) {
+  const [text, setText] = useState("");
+  const [reviewing, setReviewing] = useState(false);
+  const [left, setLeft] = useState({credits: 0, unread: 0});
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState("");
+  const [msg, setMsg] = useState("");
+  const review = useImportReview();
+
+  function close() {
+    setText("");
+    setReviewing(false);
+    setErr("");
+    setMsg("");
+    review.reset();
+    onClose();
+  }
+
+  async function readMessages() {
+    setErr("");
+    setMsg("");
+    const rows: ImportRow[] = [];
+    let credits = 0;
+    let unread = 0;
+    for (const message of splitMessages(text)) {
+      const parsed = parseBankMessage(message, today());
+      if (!parsed) unread++;
+      else if (parsed.direction === "credit") credits++;
+      else {
+        rows.push({
+          date: new Date(`${parsed.date}T12:00:00`).toISOString(),
+          description: parsed.merchant || parsed.raw.slice(0, 80),
+          amount: parsed.amount,
+          paymentMethod: parsed.paymentMethod ?? undefined,
+        });
+      }
+    }
+    setLeft({credits, unread});
+    if (!rows.length) return setErr("No spends found in the pasted text");
+
+    setBusy(true);
+    try {
+      await review.load(rows);
+      setReviewing(true);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Failed to read messages");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function save() {
+    setErr("");
+    setBusy(true);
+    try {
+      const result = await review.submit();
+      await onSaved();
+      setReviewing(false);
+      setText("");
+      review.reset();
+      setMsg(
+        `Saved ${result.created} spend${result.created === 1 ? "" : "s"}.` +
+          (result.skipped.length
+            ? ` ${result.skipped.length} already saved before were skipped.`
+            : "")
+      );
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Failed to save");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Modal open={open} title="Paste bank messages" onClose={close}>
+      {!reviewing ? (
+        <div className="grid gap-3">
+          <p className="text-sm text-slate-600">
+            Paste debit SMS or UPI alerts, one per line or separated by blank
+            lines.
+          </p>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={6}
+            placeholder="Rs.450 debited from A/c XX1234 to SWIGGY on 12-10-25"
+            className="w-full p-2 border rounded text-sm"
+            aria-label="Bank messages"
+          />
+          <div>
+            <button
+              type="button"
+              onClick={readMessages}
+              disabled={busy || !text.trim()}
+              className="px-3 py-2 rounded bg-teal-600 text-white text-sm disabled:opacity-60"
+            >
+              {busy ? "Reading…" : "Read messages"}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="grid gap-3">
+          <div className="text-xs text-slate-500">
+            {review.preview.length} spends
+            {left.credits ? ` · ${left.credits} credits left out` : ""}
+            {left.unread ? ` · ${left.unread} not recognised` : ""}
+          </div>
+
+          <ImportReviewList
+            preview={review.preview}
+            drafts={review.drafts}
+            buckets={buckets}
+            onChange={review.update}
+          />
+
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={save}
+              disabled={busy || !review.chosen.length}
+              className="px-3 py-2 rounded bg-teal-600 text-white text-sm disabled:opacity-60"
+            >
+              {busy
+                ? "Saving…"
+                : `Save ${review.chosen.length} spend${review.chosen.length === 1 ? "" : "s"}`}
+            </button>
+            <button
+              type="button"
+              onClick={() => setReviewing(false)}
+              className="px-3 py-2 rounded bg-slate-100 text-sm"
+            >
+              Back
+            </button>
+          </div>
+        </div>
+      )}
+
+      {msg && <div className="mt-3 text-sm text-teal-600">{msg}</div>}
+      {err && <div className="mt-3 text-sm text-rose-600">{err}</div>}
+    </Modal>
+  );
+}
@@ -2,6 +2,12 @@
 "use client";
 import React, { useState } from "react";
 import { Modal } from "@/modals/Modal";
+import { PAYMENT_METHODS, type PaymentMethod } from "@/app/types/transactions";
+import { currencySymbol } from "@/utils/locale";
+
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
 
 export default function TransactionModal({
   open,
@@ -11,13 +17,15 @@ export default function TransactionModal({
 }: {
   open: boolean;
   onClose: () => void;
-  onSave: (payload: { amount: number; bucket?: string; category?: string; notes?: string; date?: string }) => Promise<void> | void;
+  onSave: (payload: { amount: number; bucket?: string; category?: string; notes?: string; date?: string; paymentMethod?: PaymentMethod }) => Promise<void> | void;
   defaultBucket?: string;
 }) {
   const [amount, setAmount] = useState<number | string>("");
   const [bucket, setBucket] = useState<string | undefined>(defaultBucket);
   const [category, setCategory] = useState("");
   const [notes, setNotes] = useState("");
+  const [date, setDate] = useState(today);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod | "">("");
   const [saving, setSaving] = useState(false);
   const [err, setErr] = useState("");
 
@@ -26,6 +34,8 @@ export default function TransactionModal({
     setBucket(defaultBucket);
     setCategory("");
     setNotes("");
+    setDate(today());
+    setPaymentMethod("");
     setErr("");
   }
 
@@ -36,7 +46,7 @@ export default function TransactionModal({
     if (!amt || Number.isNaN(amt)) return setErr("Enter a valid amount");
     setSaving(true);
     try {
-      await onSave({ amount: amt, bucket, category, notes, date: new Date().toISOString().slice(0,10) });
+      await onSave({ amount: amt, bucket, category, notes, date: date || today(), paymentMethod: paymentMethod || undefined });
       reset();
       onClose();
     } catch (err: any) {
@@ -50,7 +60,7 @@ export default function TransactionModal({
     <Modal open={open} title="Add transaction" onClose={onClose}>
       <form onSubmit={handleSave} className="grid gap-3">
         <label className="text-sm">
-          Amount (₹)
+          Amount ({currencySymbol()})
           <input
             autoFocus
             value={amount}
@@ -70,6 +80,21 @@ export default function TransactionModal({
           <input value={category} onChange={(e) => setCategory(e.target.value)} className="w-full p-2 border rounded" placeholder="Groceries / Netflix" />
         </label>
 
+        <label className="text-sm">
+          Date
+          <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="w-full p-2 border rounded" />
+        </label>
+
+        <label className="text-sm">
+          Payment method
+          <select value={paymentMethod} onChange={(e) => setPaymentMethod(e.target.value as PaymentMethod | "")} className="w-full p-2 border rounded">
+            <option value="">—</option>
+            {PAYMENT_METHODS.map((m) => (
+              <option key={m.value} value={m.value}>{m.label}</option>
+            ))}
+          </select>
+        </label>
+
         <label className="text-sm">
           Notes
           <input value={notes} onChange={(e) => setNotes(e.target.value)} className="w-full p-2 border rounded" placeholder="Optional note" />
@@ -1,19 +1,34 @@
 // lib/auth-client.tsx
 "use client";
 import React, {createContext, useContext, useEffect, useState} from "react";
+import type {Bucket, RolloverPolicy} from "@/app/types/splits";
+import type {BucketAlert} from "@/app/types/notifications";
+import type {AutomationRun, Payday, SalaryFrequency} from "@/app/types/income";
+import {setDisplayPreferences} from "@/utils/locale";
+import type {Permission, Role} from "@/app/types/household";
 type SplitMap = Record<string, number>;
 
 type UserShape = {
   id: string;
   email?: string;
   name?: string;
-  salary?: number;
+  salary?: number; // per paycheck
+  salaryFrequency?: SalaryFrequency;
+  payAnchorDate?: string | null;
+  cycleStartDay?: number; // budget periods start on this day of the month
   splits?: SplitMap;
+  buckets?: Bucket[];
   distribution?: Record<string, number>;
   preset?: string;
   currency?: string;
+  locale?: string; // number/date formatting, e.g. "en-IN"
+  role?: Role; // in the user's household; owner when not in one
+  permissions?: Permission[]; // what the role allows, see can()
   subscribed?: boolean;
   automate?: boolean;
+  payday?: Payday;
+  nextAutomation?: AutomationRun | null;
+  lastAutomatedMonth?: string;
   activeTracking?: boolean;
   salaryHistory?: Array<{
     salary: number;
@@ -23,6 +38,8 @@ type UserShape = {
   }>;
   salaryLockedMonth?: string;
   startMonth?: string;
+  rolloverPolicies?: Record<string, RolloverPolicy>;
+  bucketAlerts?: Record<string, BucketAlert>;
 };
 
 /**
@@ -120,6 +137,7 @@ export default function AuthProvider({children}: {children: React.ReactNode}) {
 
         if (res.ok) {
           const data = await res.json();
+          setDisplayPreferences(data);
           setUser(data);
           setIsLoading(false);
           return data;
@@ -146,6 +164,7 @@ export default function AuthProvider({children}: {children: React.ReactNode}) {
 
           if (res2.ok) {
             const data2 = await res2.json();
+            setDisplayPreferences(data2);
             setUser(data2);
             setIsLoading(false);
             return data2;
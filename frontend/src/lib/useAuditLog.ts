@@ -0,0 +1,63 @@
+// lib/useAuditLog.ts
+// The account's activity trail (GET /api/audit), newest first, with cursor pagination.
+"use client";
+
+import {useCallback, useEffect, useState} from "react";
+import fetchWithAuth from "./fetchWithAuth";
+import type {AuditAction, AuditEntry} from "@/app/types/audit";
+
+/**
+ * useAuditLog - entries for `action` (all when empty), a page at a time; loadMore() appends the next.
+ * Pass enabled=false to stay idle (e.g. until the Activity tab is opened).
+ */
+export function useAuditLog(
+  enabled: boolean,
+  action: AuditAction | "" = "",
+  pageSize = 30
+) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const load = useCallback(
+    async (cursor: string | null) => {
+      if (!enabled) return;
+      setLoading(true);
+      setError("");
+      try {
+        const params = new URLSearchParams({limit: String(pageSize)});
+        if (action) params.set("action", action);
+        if (cursor) params.set("cursor", cursor);
+        const res = await fetchWithAuth(
+          `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/audit?${params}`,
+          {credentials: "include"}
+        );
+        if (!res.ok) throw new Error("Failed to load activity");
+        const data = await res.json();
+        const page: AuditEntry[] = Array.isArray(data.entries)
+          ? data.entries
+          : [];
+        setEntries((prev) => (cursor ? [...prev, ...page] : page));
+        setNextCursor(data.nextCursor ?? null);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "Failed to load activity");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [enabled, action, pageSize]
+  );
+
+  useEffect(() => {
+    load(null);
+  }, [load]);
+
+  const loadMore = useCallback(() => {
+    if (nextCursor && !loading) load(nextCursor);
+  }, [nextCursor, loading, load]);
+
+  const reload = useCallback(() => load(null), [load]);
+
+  return {entries, hasMore: !!nextCursor, loading, error, loadMore, reload};
+}
@@ -0,0 +1,87 @@
+// lib/useDependents.ts
+// Dependents register (GET /api/dependents) with what each received, plus create / update / delete.
+"use client";
+
+import {useCallback, useEffect, useState} from "react";
+import fetchWithAuth from "./fetchWithAuth";
+import type {Dependent, Relation} from "@/app/types/dependents";
+
+const base = () => `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/dependents`;
+
+async function send(path: string, init: RequestInit) {
+  const res = await fetchWithAuth(`${base()}${path}`, {
+    credentials: "include",
+    headers: {"Content-Type": "application/json"},
+    ...init,
+  });
+  if (!res.ok) {
+    const j = await res.json().catch(() => ({}));
+    throw new Error(j.error || "Request failed");
+  }
+  return res.json();
+}
+
+export type DependentInput = {
+  name: string;
+  relation: Relation;
+  notes?: string;
+  archived?: boolean;
+};
+
+/**
+ * useDependents - active dependents with their all-time totals.
+ * Pass enabled=false to stay idle (e.g. before auth resolves).
+ */
+export function useDependents(enabled: boolean) {
+  const [dependents, setDependents] = useState<Dependent[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const reload = useCallback(async () => {
+    if (!enabled) return;
+    setLoading(true);
+    try {
+      const res = await fetchWithAuth(base(), {credentials: "include"});
+      if (!res.ok) throw new Error("Failed to load dependents");
+      const data = await res.json();
+      setDependents(Array.isArray(data.dependents) ? data.dependents : []);
+    } catch (e) {
+      console.error("load dependents failed:", e);
+    } finally {
+      setLoading(false);
+    }
+  }, [enabled]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const create = useCallback(
+    async (payload: DependentInput) => {
+      const data = await send("", {
+        method: "POST",
+        body: JSON.stringify(payload),
+      });
+      await reload();
+      return data.dependent as Dependent;
+    },
+    [reload]
+  );
+
+  const update = useCallback(
+    async (id: string, patch: Partial<DependentInput>) => {
+      await send(`/${id}`, {method: "PATCH", body: JSON.stringify(patch)});
+      await reload();
+    },
+    [reload]
+  );
+
+  const remove = useCallback(
+    async (id: string) => {
+      await send(`/${id}`, {method: "DELETE"});
+      await reload();
+    },
+    [reload]
+  );
+
+  return {dependents, loading, reload, create, update, remove};
+}
@@ -0,0 +1,94 @@
+// lib/useFxRates.ts
+// The user's FX rates table (GET /api/fx-rates), plus adding, importing and deleting rates.
+"use client";
+
+import {useCallback, useEffect, useState} from "react";
+import fetchWithAuth from "./fetchWithAuth";
+import type {FxRates} from "@/app/types/fx";
+
+const base = () => `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/fx-rates`;
+
+async function send(path: string, init: RequestInit) {
+  const res = await fetchWithAuth(`${base()}${path}`, {
+    credentials: "include",
+    headers: {"Content-Type": "application/json"},
+    ...init,
+  });
+  if (!res.ok) {
+    const j = await res.json().catch(() => ({}));
+    throw new Error(j.error || "Request failed");
+  }
+  return res.json();
+}
+
+export type FxRateInput = {currency: string; rate: number; date?: string};
+
+/**
+ * useFxRates - rates to the home currency, newest first.
+ * Pass enabled=false to stay idle (e.g. before auth resolves).
+ */
+export function useFxRates(enabled: boolean) {
+  const [data, setData] = useState<FxRates>({
+    homeCurrency: "INR",
+    rates: [],
+    latest: {},
+  });
+  const [loading, setLoading] = useState(false);
+
+  const reload = useCallback(async () => {
+    if (!enabled) return;
+    setLoading(true);
+    try {
+      const res = await fetchWithAuth(base(), {credentials: "include"});
+      if (!res.ok) throw new Error("Failed to load rates");
+      const j = await res.json();
+      setData({
+        homeCurrency: j.homeCurrency || "INR",
+        rates: Array.isArray(j.rates) ? j.rates : [],
+        latest: j.latest ?? {},
+      });
+    } catch (e) {
+      console.error("load fx rates failed:", e);
+    } finally {
+      setLoading(false);
+    }
+  }, [enabled]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const save = useCallback(
+    async (payload: FxRateInput) => {
+      await send("", {method: "POST", body: JSON.stringify(payload)});
+      await reload();
+    },
+    [reload]
+  );
+
+  // rows from a rates file; returns how many were saved and the rows that were rejected
+  const importRates = useCallback(
+    async (rates: FxRateInput[]) => {
+      const result = await send("/import", {
+        method: "POST",
+        body: JSON.stringify({rates}),
+      });
+      await reload();
+      return result as {
+        saved: number;
+        errors: {index: number; error: string}[];
+      };
+    },
+    [reload]
+  );
+
+  const remove = useCallback(
+    async (id: string) => {
+      await send(`/${id}`, {method: "DELETE"});
+      await reload();
+    },
+    [reload]
+  );
+
+  return {...data, loading, reload, save, importRates, remove};
+}
@@ -0,0 +1,89 @@
+// lib/useGoals.ts
+// Savings goals (GET /api/goals) with their progress, plus create / update / delete.
+"use client";
+
+import {useCallback, useEffect, useState} from "react";
+import fetchWithAuth from "./fetchWithAuth";
+import type {Goal} from "@/app/types/goals";
+
+const base = () => `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/goals`;
+
+async function send(path: string, init: RequestInit) {
+  const res = await fetchWithAuth(`${base()}${path}`, {
+    credentials: "include",
+    headers: {"Content-Type": "application/json"},
+    ...init,
+  });
+  if (!res.ok) {
+    const j = await res.json().catch(() => ({}));
+    throw new Error(j.error || "Request failed");
+  }
+  return res.json();
+}
+
+export type GoalInput = {
+  name: string;
+  targetAmount: number;
+  deadline?: string | null;
+  bucket?: string;
+  monthlyContribution?: number;
+  archived?: boolean;
+};
+
+/**
+ * useGoals - active savings goals with progress.
+ * Pass enabled=false to stay idle (e.g. before auth resolves).
+ */
+export function useGoals(enabled: boolean) {
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const reload = useCallback(async () => {
+    if (!enabled) return;
+    setLoading(true);
+    try {
+      const res = await fetchWithAuth(base(), {credentials: "include"});
+      if (!res.ok) throw new Error("Failed to load goals");
+      const data = await res.json();
+      setGoals(Array.isArray(data.goals) ? data.goals : []);
+    } catch (e) {
+      console.error("load goals failed:", e);
+    } finally {
+      setLoading(false);
+    }
+  }, [enabled]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const create = useCallback(
+    async (payload: GoalInput) => {
+      const data = await send("", {
+        method: "POST",
+        body: JSON.stringify(payload),
+      });
+      await reload();
+      return data.goal as Goal;
+    },
+    [reload]
+  );
+
+  const update = useCallback(
+    async (id: string, patch: Partial<GoalInput>) => {
+      await send(`/${id}`, {method: "PATCH", body: JSON.stringify(patch)});
+      await reload();
+    },
+    [reload]
+  );
+
+  const remove = useCallback(
+    async (id: string) => {
+      await send(`/${id}`, {method: "DELETE"});
+      await reload();
+    },
+    [reload]
+  );
+
+  return {goals, loading, reload, create, update, remove};
+}
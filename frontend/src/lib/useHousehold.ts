@@ -0,0 +1,134 @@
+// lib/useHousehold.ts
+// The user's household (GET /api/household) and invitations to join one, plus creating,
+// inviting, joining, leaving and changing the shared buckets.
+"use client";
+
+import {useCallback, useEffect, useState} from "react";
+import fetchWithAuth from "./fetchWithAuth";
+import type {Household, HouseholdInvite, Role} from "@/app/types/household";
+
+const base = () => `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/household`;
+
+async function send(path: string, init: RequestInit) {
+  const res = await fetchWithAuth(`${base()}${path}`, {
+    credentials: "include",
+    headers: {"Content-Type": "application/json"},
+    ...init,
+  });
+  if (!res.ok) {
+    const j = await res.json().catch(() => ({}));
+    throw new Error(j.error || "Request failed");
+  }
+  return res.json();
+}
+
+export type HouseholdInput = {name?: string; sharedBuckets?: string[]};
+
+/**
+ * useHousehold - the household the user is in (null when none) and invites addressed to them.
+ * Pass enabled=false to stay idle (e.g. before auth resolves).
+ */
+export function useHousehold(enabled: boolean) {
+  const [household, setHousehold] = useState<Household | null>(null);
+  const [invites, setInvites] = useState<HouseholdInvite[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const reload = useCallback(async () => {
+    if (!enabled) return;
+    setLoading(true);
+    try {
+      const res = await fetchWithAuth(base(), {credentials: "include"});
+      if (!res.ok) throw new Error("Failed to load household");
+      const j = await res.json();
+      setHousehold(j.household ?? null);
+      setInvites(Array.isArray(j.invites) ? j.invites : []);
+    } catch (e) {
+      console.error("load household failed:", e);
+    } finally {
+      setLoading(false);
+    }
+  }, [enabled]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const create = useCallback(
+    async (payload: HouseholdInput) => {
+      await send("", {method: "POST", body: JSON.stringify(payload)});
+      await reload();
+    },
+    [reload]
+  );
+
+  const update = useCallback(
+    async (patch: HouseholdInput) => {
+      await send("", {method: "PATCH", body: JSON.stringify(patch)});
+      await reload();
+    },
+    [reload]
+  );
+
+  const invite = useCallback(
+    async (email: string, role: Role) => {
+      await send("/invites", {
+        method: "POST",
+        body: JSON.stringify({email, role}),
+      });
+      await reload();
+    },
+    [reload]
+  );
+
+  const accept = useCallback(
+    async (inviteId: string) => {
+      await send(`/invites/${inviteId}/accept`, {method: "POST"});
+      await reload();
+    },
+    [reload]
+  );
+
+  // declines an invite addressed to the user, or cancels one the household sent
+  const dismissInvite = useCallback(
+    async (inviteId: string) => {
+      await send(`/invites/${inviteId}`, {method: "DELETE"});
+      await reload();
+    },
+    [reload]
+  );
+
+  // owner only; making someone else owner hands the household over
+  const setRole = useCallback(
+    async (userId: string, role: Role) => {
+      await send(`/members/${userId}`, {
+        method: "PATCH",
+        body: JSON.stringify({role}),
+      });
+      await reload();
+    },
+    [reload]
+  );
+
+  // the user's own id leaves the household; the owner can remove anyone else
+  const removeMember = useCallback(
+    async (userId: string) => {
+      await send(`/members/${userId}`, {method: "DELETE"});
+      await reload();
+    },
+    [reload]
+  );
+
+  return {
+    household,
+    invites,
+    loading,
+    reload,
+    create,
+    update,
+    invite,
+    accept,
+    dismissInvite,
+    setRole,
+    removeMember,
+  };
+}
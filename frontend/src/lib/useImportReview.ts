@@ -0,0 +1,94 @@
+// lib/useImportReview.ts
+// Review step shared by the statement import and the pasted bank messages: a dry run of
+// POST /api/transactions/import for suggestions and duplicate flags, then the real import of
+// the rows the user kept.
+"use client";
+
+import {useCallback, useState} from "react";
+import fetchWithAuth from "./fetchWithAuth";
+import type {
+  ImportPreviewRow,
+  ImportResult,
+  ImportRow,
+} from "@/app/types/imports";
+
+async function postImport(rows: ImportRow[], dryRun: boolean) {
+  const res = await fetchWithAuth(
+    `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/transactions/import`,
+    {
+      method: "POST",
+      credentials: "include",
+      headers: {"Content-Type": "application/json"},
+      body: JSON.stringify({rows, dryRun}),
+    }
+  );
+  const j = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(j.error || "Import failed");
+  return j;
+}
+
+// what the user decided for one preview row
+export type ImportDraft = {include: boolean; bucket: string; category: string};
+
+/**
+ * useImportReview - rows waiting for confirmation, keyed by their index in the loaded batch.
+ * load() and submit() throw with a readable message; callers show it.
+ */
+export function useImportReview() {
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [preview, setPreview] = useState<ImportPreviewRow[]>([]);
+  const [drafts, setDrafts] = useState<Record<number, ImportDraft>>({});
+
+  const load = useCallback(async (next: ImportRow[]) => {
+    const j = await postImport(next, true);
+    const previewRows: ImportPreviewRow[] = j.rows ?? [];
+    setRows(next);
+    setPreview(previewRows);
+    // lines seen before start unticked; suggestions prefill the rest
+    setDrafts(
+      Object.fromEntries(
+        previewRows.map((r) => [
+          r.index,
+          {
+            include: !r.duplicate,
+            bucket: r.suggestion?.bucket ?? "",
+            category: r.suggestion?.category ?? "",
+          },
+        ])
+      )
+    );
+    return previewRows;
+  }, []);
+
+  const update = useCallback((index: number, patch: Partial<ImportDraft>) => {
+    setDrafts((prev) => ({...prev, [index]: {...prev[index], ...patch}}));
+  }, []);
+
+  const chosen = preview.filter((r) => drafts[r.index]?.include);
+  const missingBucket = chosen.filter((r) => !drafts[r.index]?.bucket).length;
+
+  const submit = useCallback(async (): Promise<ImportResult> => {
+    if (!chosen.length) throw new Error("Tick at least one row");
+    if (missingBucket) {
+      throw new Error(
+        `Pick a bucket for ${missingBucket} row${missingBucket === 1 ? "" : "s"}`
+      );
+    }
+    return postImport(
+      chosen.map((r) => ({
+        ...rows[r.index],
+        bucket: drafts[r.index].bucket,
+        category: drafts[r.index].category.trim() || undefined,
+      })),
+      false
+    );
+  }, [chosen, missingBucket, rows, drafts]);
+
+  const reset = useCallback(() => {
+    setRows([]);
+    setPreview([]);
+    setDrafts({});
+  }, []);
+
+  return {preview, drafts, chosen, update, load, submit, reset};
+}
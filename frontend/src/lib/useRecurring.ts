@@ -0,0 +1,102 @@
+// lib/useRecurring.ts
+// Recurring transaction templates (GET /api/recurring) and their upcoming occurrences,
+// with the skip / pause / resume / delete actions the dashboard offers on them.
+"use client";
+
+import {useCallback, useEffect, useState} from "react";
+import fetchWithAuth from "./fetchWithAuth";
+import type {RecurringTxn, UpcomingTxn} from "@/app/types/transactions";
+
+const base = () => `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/recurring`;
+
+async function send(path: string, init: RequestInit) {
+  const res = await fetchWithAuth(`${base()}${path}`, {
+    credentials: "include",
+    headers: {"Content-Type": "application/json"},
+    ...init,
+  });
+  if (!res.ok) {
+    const j = await res.json().catch(() => ({}));
+    throw new Error(j.error || "Request failed");
+  }
+  return res.json();
+}
+
+/**
+ * useRecurring - templates plus occurrences due in the next `days` days.
+ * Pass enabled=false to stay idle (e.g. before auth resolves).
+ */
+export function useRecurring(enabled: boolean, days = 30) {
+  const [recurring, setRecurring] = useState<RecurringTxn[]>([]);
+  const [upcoming, setUpcoming] = useState<UpcomingTxn[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const reload = useCallback(async () => {
+    if (!enabled) return;
+    setLoading(true);
+    try {
+      const res = await fetchWithAuth(`${base()}?days=${days}`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to load recurring transactions");
+      const data = await res.json();
+      setRecurring(Array.isArray(data.recurring) ? data.recurring : []);
+      setUpcoming(Array.isArray(data.upcoming) ? data.upcoming : []);
+    } catch (e) {
+      console.error("load recurring failed:", e);
+    } finally {
+      setLoading(false);
+    }
+  }, [enabled, days]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const create = useCallback(
+    async (payload: Partial<RecurringTxn>) => {
+      const data = await send("", {
+        method: "POST",
+        body: JSON.stringify(payload),
+      });
+      await reload();
+      return data as {recurring: RecurringTxn; created: number};
+    },
+    [reload]
+  );
+
+  const skipNext = useCallback(
+    async (id: string) => {
+      await send(`/${id}/skip`, {method: "POST"});
+      await reload();
+    },
+    [reload]
+  );
+
+  const setPaused = useCallback(
+    async (id: string, paused: boolean) => {
+      await send(`/${id}`, {method: "PATCH", body: JSON.stringify({paused})});
+      await reload();
+    },
+    [reload]
+  );
+
+  const remove = useCallback(
+    async (id: string) => {
+      await send(`/${id}`, {method: "DELETE"});
+      await reload();
+    },
+    [reload]
+  );
+
+  return {
+    recurring,
+    upcoming,
+    loading,
+    reload,
+    create,
+    skipNext,
+    setPaused,
+    remove,
+  };
+}
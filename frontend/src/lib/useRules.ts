@@ -0,0 +1,108 @@
+// lib/useRules.ts
+// Categorization rules (GET /api/rules) and the rules learnt from past spends, plus
+// create / update / delete.
+"use client";
+
+import {useCallback, useEffect, useState} from "react";
+import fetchWithAuth from "./fetchWithAuth";
+import type {PaymentMethod} from "@/app/types/transactions";
+import type {CategoryRule, LearnedRules} from "@/app/types/rules";
+
+const base = () => `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/rules`;
+
+async function send(path: string, init: RequestInit) {
+  const res = await fetchWithAuth(`${base()}${path}`, {
+    credentials: "include",
+    headers: {"Content-Type": "application/json"},
+    ...init,
+  });
+  if (!res.ok) {
+    const j = await res.json().catch(() => ({}));
+    throw new Error(j.error || "Request failed");
+  }
+  return res.json();
+}
+
+export type RuleInput = {
+  contains?: string;
+  minAmount?: number | null;
+  maxAmount?: number | null;
+  paymentMethod?: PaymentMethod | null;
+  bucket: string;
+  category?: string;
+  enabled?: boolean;
+};
+
+/**
+ * useRules - the user's rules in the order they are tried, and suggestions learnt from
+ * how past spends were filed. Pass enabled=false to stay idle (e.g. before auth resolves).
+ */
+export function useRules(enabled: boolean) {
+  const [rules, setRules] = useState<CategoryRule[]>([]);
+  const [learned, setLearned] = useState<LearnedRules>({
+    suggestions: [],
+    categories: {},
+  });
+  const [loading, setLoading] = useState(false);
+
+  const reload = useCallback(async () => {
+    if (!enabled) return;
+    setLoading(true);
+    try {
+      const [rulesRes, learnedRes] = await Promise.all([
+        fetchWithAuth(base(), {credentials: "include"}),
+        fetchWithAuth(`${base()}/learned`, {credentials: "include"}),
+      ]);
+      if (!rulesRes.ok || !learnedRes.ok) {
+        throw new Error("Failed to load rules");
+      }
+      const data = await rulesRes.json();
+      const learnt = await learnedRes.json();
+      setRules(Array.isArray(data.rules) ? data.rules : []);
+      setLearned({
+        suggestions: Array.isArray(learnt.suggestions)
+          ? learnt.suggestions
+          : [],
+        categories: learnt.categories ?? {},
+      });
+    } catch (e) {
+      console.error("load rules failed:", e);
+    } finally {
+      setLoading(false);
+    }
+  }, [enabled]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const create = useCallback(
+    async (payload: RuleInput) => {
+      const data = await send("", {
+        method: "POST",
+        body: JSON.stringify(payload),
+      });
+      await reload();
+      return data.rule as CategoryRule;
+    },
+    [reload]
+  );
+
+  const update = useCallback(
+    async (id: string, patch: Partial<RuleInput>) => {
+      await send(`/${id}`, {method: "PATCH", body: JSON.stringify(patch)});
+      await reload();
+    },
+    [reload]
+  );
+
+  const remove = useCallback(
+    async (id: string) => {
+      await send(`/${id}`, {method: "DELETE"});
+      await reload();
+    },
+    [reload]
+  );
+
+  return {rules, learned, loading, reload, create, update, remove};
+}
@@ -0,0 +1,127 @@
+// lib/useTransactionQuery.ts
+// Server-side transaction querying (GET /api/transactions filters + cursor pagination).
+// `useTransactionQuery` keeps the loaded pages in state and exposes loadMore() for infinite scroll.
+"use client";
+
+import {useCallback, useEffect, useRef, useState} from "react";
+import fetchWithAuth from "./fetchWithAuth";
+import type {Txn} from "@/app/types/transactions";
+
+export type TxnQuery = {
+  from?: string; // YYYY-MM or YYYY-MM-DD
+  to?: string; // inclusive month / day
+  bucket?: string;
+  category?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  q?: string; // free text over category + notes
+  sort?: "date_desc" | "date_asc" | "amount_desc" | "amount_asc";
+};
+
+export type TxnPage = {
+  transactions: Txn[];
+  nextCursor: string | null;
+  total: number;
+  totalAmount: number;
+};
+
+function toSearchParams(query: TxnQuery): string {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([k, v]) => {
+    if (v !== undefined && v !== null && v !== "") params.set(k, String(v));
+  });
+  return params.toString();
+}
+
+async function fetchPage(
+  search: string,
+  limit: number,
+  cursor?: string | null
+): Promise<TxnPage> {
+  const params = new URLSearchParams(search);
+  params.set("limit", String(limit));
+  if (cursor) params.set("cursor", cursor);
+
+  const res = await fetchWithAuth(
+    `${process.env.NEXT_PUBLIC_BACKEND_URL}/api/transactions?${params}`,
+    {credentials: "include"}
+  );
+  if (!res.ok) throw new Error("Failed to load transactions");
+  const data = await res.json();
+  return {
+    transactions: Array.isArray(data.transactions) ? data.transactions : [],
+    nextCursor: data.nextCursor ?? null,
+    total: Number(data.total ?? 0),
+    totalAmount: Number(data.totalAmount ?? 0),
+  };
+}
+
+/**
+ * fetchAllTransactions - every transaction matching `query` in one request (limit=0).
+ * Used for exports, where the paged view only holds what has been scrolled so far.
+ */
+export async function fetchAllTransactions(query: TxnQuery): Promise<Txn[]> {
+  const page = await fetchPage(toSearchParams(query), 0);
+  return page.transactions;
+}
+
+/**
+ * useTransactionQuery - paged results for `query`; pass null to stay idle.
+ * A new query (compared by its serialized params) restarts from the first page.
+ */
+export function useTransactionQuery(query: TxnQuery | null, pageSize = 25) {
+  const search = query ? toSearchParams(query) : null;
+
+  const [items, setItems] = useState<Txn[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [totalAmount, setTotalAmount] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  // ignore responses for queries that were superseded while in flight
+  const requestRef = useRef(0);
+
+  const load = useCallback(
+    async (cursor: string | null) => {
+      if (search === null) return;
+      const requestId = ++requestRef.current;
+      setLoading(true);
+      try {
+        const page = await fetchPage(search, pageSize, cursor);
+        if (requestId !== requestRef.current) return;
+        setItems((prev) =>
+          cursor ? [...prev, ...page.transactions] : page.transactions
+        );
+        setNextCursor(page.nextCursor);
+        setTotal(page.total);
+        setTotalAmount(page.totalAmount);
+      } catch (e) {
+        console.error("transaction query failed:", e);
+      } finally {
+        if (requestId === requestRef.current) setLoading(false);
+      }
+    },
+    [search, pageSize]
+  );
+
+  useEffect(() => {
+    load(null);
+  }, [load]);
+
+  const loadMore = useCallback(() => {
+    if (!nextCursor || loading) return;
+    load(nextCursor);
+  }, [nextCursor, loading, load]);
+
+  const reload = useCallback(() => load(null), [load]);
+
+  return {
+    items,
+    total,
+    totalAmount,
+    loading,
+    hasMore: Boolean(nextCursor),
+    loadMore,
+    reload,
+  };
+}
@@ -0,0 +1,97 @@
+import {describe, expect, it} from "vitest";
+import {parseBankMessage, splitMessages} from "./bankMessages";
+
+const TODAY = "2025-10-20";
+
+describe("parseBankMessage", () => {
+  it("reads a UPI debit", () => {
+    expect(
+      parseBankMessage(
+        "Rs.450.00 debited from A/c XX1234 to VPA swiggy@icici on 12-10-25. UPI Ref 5123456789",
+        TODAY
+      )
+    ).toMatchObject({
+      amount: 450,
+      direction: "debit",
+      merchant: "swiggy",
+      account: "XX1234",
+      date: "2025-10-12",
+      paymentMethod: "upi",
+    });
+  });
+
+  it("takes the earliest verb, so the payee's credit leg stays a debit", () => {
+    expect(
+      parseBankMessage(
+        "ICICI Bank Acct XX567 debited for Rs 1,250.00 on 05-Oct-25; BIGBAZAAR credited. UPI:527812345678",
+        TODAY
+      )
+    ).toMatchObject({
+      amount: 1250,
+      direction: "debit",
+      merchant: "BIGBAZAAR",
+      account: "XX567",
+      date: "2025-10-05",
+    });
+  });
+
+  it("reads amounts without a currency and the payer of a credit", () => {
+    expect(
+      parseBankMessage(
+        "Your a/c no. XXXXXXXX9876 is credited by 50,000.00 on 01/10/2025 by NEFT from ACME CORP",
+        TODAY
+      )
+    ).toMatchObject({
+      amount: 50000,
+      direction: "credit",
+      merchant: "ACME CORP",
+      account: "XX9876",
+      date: "2025-10-01",
+      paymentMethod: "netbanking",
+    });
+  });
+
+  it("falls back to the given date and reads card spends", () => {
+    expect(
+      parseBankMessage(
+        "INR 899 spent on your card ending 4321 at AMAZON",
+        TODAY
+      )
+    ).toMatchObject({
+      amount: 899,
+      direction: "debit",
+      merchant: "AMAZON",
+      account: "XX4321",
+      date: TODAY,
+      paymentMethod: "card",
+    });
+  });
+
+  it("skips OTPs and balance updates", () => {
+    expect(
+      parseBankMessage(
+        "123456 is your OTP for a txn of Rs 500 at FLIPKART",
+        TODAY
+      )
+    ).toBeNull();
+    expect(
+      parseBankMessage("Avl bal in A/c XX1234 is Rs 12,000 as of today", TODAY)
+    ).toBeNull();
+    expect(parseBankMessage("Your a/c XX1234 was debited", TODAY)).toBeNull();
+  });
+});
+
+describe("splitMessages", () => {
+  it("splits on blank lines and joins wrapped lines", () => {
+    expect(
+      splitMessages("Rs.450 debited\nfrom A/c XX1234\n\nRs.99 spent at UBER\n")
+    ).toEqual(["Rs.450 debited from A/c XX1234", "Rs.99 spent at UBER"]);
+  });
+
+  it("reads one alert per line when every line has an amount", () => {
+    expect(splitMessages("Rs.450 debited\nINR 99 spent at UBER")).toEqual([
+      "Rs.450 debited",
+      "INR 99 spent at UBER",
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+// Reads bank SMS and UPI app alerts ("Rs.450 debited from A/c XX1234 to SWIGGY on 12-10-25").
+// Banks word these differently, so instead of one pattern per bank the amount, direction,
+// account, date and counterparty are each picked out by the phrases most banks share.
+import {parseStatementDate} from "./csv";
+import type {PaymentMethod} from "@/app/types/transactions";
+
+export type BankMessage = {
+  amount: number;
+  direction: "debit" | "credit";
+  merchant: string; // who was paid (debits) or who paid (credits); "" when not found
+  account: string; // masked, e.g. "XX1234"; "" when not found
+  date: string; // YYYY-MM-DD; the fallback date when the message has none
+  paymentMethod: PaymentMethod | null;
+  raw: string;
+};
+
+const CURRENCY_AMOUNT = /(?:rs\.?|inr|₹)\s*([\d,]+(?:\.\d+)?)/i;
+// SBI and a few others leave the currency out: "debited by 450.0"
+const VERB_AMOUNT =
+  /(?:debited|credited|deducted)\s+(?:by|with|for)\s+(?:rs\.?|inr|₹)?\s*([\d,]+(?:\.\d+)?)/i;
+
+const DEBIT_WORDS =
+  /\b(debited|spent|paid|sent|withdrawn|deducted|purchase|payment of)\b/i;
+const CREDIT_WORDS = /\b(credited|received|deposited|refund(?:ed)?)\b/i;
+
+// where a counterparty name stops: the next keyword or punctuation
+const STOP =
+  "(?=\\s+(?:on|ref|refno|upi|via|avl|avbl|not|from|by|using|for|at|info|is|has|thru|through)\\b|\\s*[.;,(]|\\s+-|\\s*$)";
+const NAME = "([A-Za-z0-9@&'_*/-]+(?:\\s+[A-Za-z0-9@&'_*/-]+)*?)";
+
+const DEBIT_PARTY = [
+  /UPI\/P2[MA]\/\d+\/([^\s/]+)/i, // Axis: UPI/P2M/5123.../SWIGGY
+  new RegExp(`;\\s*${NAME}\\s+credited`, "i"), // ICICI: "; SWIGGY credited"
+  new RegExp(`\\bvpa\\s+${NAME}${STOP}`, "i"),
+  new RegExp(`\\bto\\s+${NAME}${STOP}`, "i"),
+  new RegExp(`\\bat\\s+${NAME}${STOP}`, "i"),
+  new RegExp(`\\bon\\s+(?!\\d)${NAME}${STOP}`, "i"), // "spent ... on 12-Oct-25 on AMAZON"
+];
+const CREDIT_PARTY = [
+  new RegExp(`\\bvpa\\s+${NAME}${STOP}`, "i"),
+  new RegExp(`\\bfrom\\s+${NAME}${STOP}`, "i"),
+  new RegExp(
+    `\\bby\\s+(?:neft|imps|rtgs|upi)?\\s*(?:from\\s+)?${NAME}${STOP}`,
+    "i"
+  ),
+];
+// a match that names the user's own account, not the other party
+const NOT_A_PARTY = /\b(a\/?c|acct|account|card|bank|date|your|you)\b/i;
+
+const MONTH_DATE =
+  /\b(\d{1,2})[-\/. ]?([A-Za-z]{3})[a-z]*[-\/. ,]*'?(\d{2,4})\b/;
+const NUMERIC_DATE = /\b(\d{1,2})[-\/.](\d{1,2})[-\/.](\d{2,4})\b/;
+const ISO_DATE = /\b(\d{4})-(\d{2})-(\d{2})\b/;
+
+function parseMessageDate(text: string): string | null {
+  const iso = text.match(ISO_DATE);
+  if (iso) return parseStatementDate(iso[0], "YYYY-MM-DD");
+  const named = text.match(MONTH_DATE);
+  if (named) {
+    return parseStatementDate(
+      `${named[1]} ${named[2]} ${named[3]}`,
+      "DD/MM/YYYY"
+    );
+  }
+  // Indian banks write day first
+  const numeric = text.match(NUMERIC_DATE);
+  return numeric ? parseStatementDate(numeric[0], "DD/MM/YYYY") : null;
+}
+
+function parseParty(text: string, direction: BankMessage["direction"]) {
+  for (const re of direction === "debit" ? DEBIT_PARTY : CREDIT_PARTY) {
+    const name = text.match(re)?.[1]?.trim();
+    if (name && !NOT_A_PARTY.test(name)) {
+      // "swiggy@icici" -> "swiggy"
+      return name.includes("@") ? name.split("@")[0] : name;
+    }
+  }
+  return "";
+}
+
+function parseAccount(text: string) {
+  const m = text.match(
+    /\b(?:a\/?c|acct|account|card)\b(?:\s*no\.?)?(?:\s*ending(?:\s*with)?)?[\s:]*([x*]*\d{3,})/i
+  );
+  if (!m) return "";
+  const digits = m[1].replace(/\D/g, "");
+  return `XX${digits.slice(-4)}`;
+}
+
+function parsePaymentMethod(text: string): PaymentMethod | null {
+  if (/\b(upi|vpa)\b/i.test(text) || /@[a-z]+\b/i.test(text)) return "upi";
+  if (/\bcard\b/i.test(text)) return "card";
+  if (/\b(neft|imps|rtgs|net ?banking)\b/i.test(text)) return "netbanking";
+  return null;
+}
+
+// One alert; null when there is no amount or it isn't a debit/credit (OTPs, balance updates).
+// `fallbackDate` (YYYY-MM-DD) is used when the message carries no date.
+export function parseBankMessage(
+  text: string,
+  fallbackDate: string
+): BankMessage | null {
+  const raw = text.replace(/\s+/g, " ").trim();
+  const amountMatch = raw.match(VERB_AMOUNT) ?? raw.match(CURRENCY_AMOUNT);
+  const amount = amountMatch ? Number(amountMatch[1].replace(/,/g, "")) : 0;
+  if (!amount || !Number.isFinite(amount)) return null;
+
+  // the earliest verb decides: "debited ...; SWIGGY credited" is a debit
+  const debitAt = raw.search(DEBIT_WORDS);
+  const creditAt = raw.search(CREDIT_WORDS);
+  if (debitAt < 0 && creditAt < 0) return null;
+  const direction =
+    creditAt < 0 || (debitAt >= 0 && debitAt < creditAt) ? "debit" : "credit";
+
+  return {
+    amount: Math.round(amount * 100) / 100,
+    direction,
+    merchant: parseParty(raw, direction),
+    account: parseAccount(raw),
+    date: parseMessageDate(raw) ?? fallbackDate,
+    paymentMethod: parsePaymentMethod(raw),
+    raw,
+  };
+}
+
+// Pasted text -> single messages: separated by blank lines, or one per line when every line
+// reads as an alert on its own
+export function splitMessages(text: string): string[] {
+  return text
+    .split(/\r?\n\s*\r?\n/)
+    .flatMap((chunk) => {
+      const lines = chunk
+        .split(/\r?\n/)
+        .map((l) => l.trim())
+        .filter(Boolean);
+      if (
+        lines.length > 1 &&
+        lines.every((l) => CURRENCY_AMOUNT.test(l) || VERB_AMOUNT.test(l))
+      ) {
+        return lines;
+      }
+      return [lines.join(" ")];
+    })
+    .filter(Boolean);
+}
@@ -0,0 +1,85 @@
+import {describe, expect, it} from "vitest";
+import {
+  guessMapping,
+  parseAmount,
+  parseCsv,
+  parseSignedAmount,
+  parseStatementDate,
+} from "./csv";
+
+describe("parseSignedAmount", () => {
+  it("reads negatives as money out by default, like OFX and QIF", () => {
+    expect(parseSignedAmount("-450.00")).toBe(450);
+    expect(parseSignedAmount("(1,200.00)")).toBe(1200);
+    expect(parseSignedAmount("50000.00")).toBe(-50000);
+  });
+
+  it("reads negatives as money in when the statement says so", () => {
+    expect(parseSignedAmount("-450.00", "negative_credit")).toBe(-450);
+    expect(parseSignedAmount("(25.00)", "negative_credit")).toBe(-25);
+    expect(parseSignedAmount("₹ 1,234.50", "negative_credit")).toBe(1234.5);
+  });
+
+  it("follows Dr and Cr marks whatever the convention", () => {
+    for (const convention of ["negative_debit", "negative_credit"] as const) {
+      expect(parseSignedAmount("15,000.00 Dr", convention)).toBe(15000);
+      expect(parseSignedAmount("120.00 Cr", convention)).toBe(-120);
+      expect(parseSignedAmount("120.00 CR.", convention)).toBe(-120);
+    }
+  });
+
+  it("reads blanks as nothing", () => {
+    expect(parseSignedAmount("")).toBe(0);
+    expect(parseSignedAmount(null)).toBe(0);
+  });
+});
+
+describe("parseAmount", () => {
+  it("drops currency, grouping and sign", () => {
+    expect(parseAmount("₹ 1,234.50")).toBe(1234.5);
+    expect(parseAmount("-450")).toBe(450);
+    expect(parseAmount("abc")).toBe(0);
+  });
+});
+
+describe("guessMapping", () => {
+  it("leaves credit unmapped for a lone amount column", () => {
+    expect(guessMapping(["Date", "Narration", "Amount"])).toEqual({
+      date: 0,
+      description: 1,
+      debit: 2,
+      credit: -1,
+    });
+  });
+
+  it("maps separate withdrawal and deposit columns", () => {
+    expect(
+      guessMapping(["Txn Date", "Description", "Withdrawal", "Deposit"])
+    ).toEqual({date: 0, description: 1, debit: 2, credit: 3});
+  });
+});
+
+describe("parseCsv", () => {
+  it("keeps quoted commas and trims fields", () => {
+    expect(parseCsv('Date,Amount\n01/10/2025, "15,000.00"\n')).toEqual([
+      ["Date", "Amount"],
+      ["01/10/2025", "15,000.00"],
+    ]);
+  });
+});
+
+describe("parseStatementDate", () => {
+  it("reads the chosen numeric format", () => {
+    expect(parseStatementDate("05/10/2025", "DD/MM/YYYY")).toBe("2025-10-05");
+    expect(parseStatementDate("10/05/25", "MM/DD/YYYY")).toBe("2025-10-05");
+    expect(parseStatementDate("2025-10-05", "YYYY-MM-DD")).toBe("2025-10-05");
+  });
+
+  it("reads month names whatever the format", () => {
+    expect(parseStatementDate("05-OCT-25", "MM/DD/YYYY")).toBe("2025-10-05");
+  });
+
+  it("rejects impossible dates", () => {
+    expect(parseStatementDate("31/02/2025", "DD/MM/YYYY")).toBeNull();
+  });
+});
@@ -0,0 +1,159 @@
+// Bank statement CSV parsing for the import flow. Banks differ in column names, date formats and
+// whether debits are a separate column, so the user maps columns and these helpers do the rest.
+
+// RFC 4180-ish: quoted fields may hold commas, newlines and "" escapes; blank lines are dropped
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      if (row.some((f) => f.trim() !== "")) rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  row.push(field);
+  if (row.some((f) => f.trim() !== "")) rows.push(row);
+  return rows.map((r) => r.map((f) => f.trim()));
+}
+
+// "1,234.50", "₹ 1,234.50", "(120.00)" and "120.00 Dr" -> positive numbers; blank/invalid -> 0
+export function parseAmount(value?: string | null): number {
+  // the trailing dot of a "Dr." / "Cr." mark would otherwise leave "120.00." and read as 0
+  const cleaned = String(value ?? "")
+    .replace(/[^0-9.\-]/g, "")
+    .replace(/\.+$/, "");
+  const n = Math.abs(Number(cleaned));
+  return Number.isFinite(n) ? Math.round(n * 100) / 100 : 0;
+}
+
+// How a single amount column tells the directions apart. Most bank exports write money going out
+// as negative, like OFX and QIF do; some card statements write spends as positive instead.
+export type SignConvention = "negative_debit" | "negative_credit";
+
+export const SIGN_CONVENTIONS: {value: SignConvention; label: string}[] = [
+  {value: "negative_debit", label: "Negative amounts are money out"},
+  {value: "negative_credit", label: "Negative amounts are money in"},
+];
+
+// A single amount column that holds both directions -> positive for money out, negative for money
+// in. "Dr" and "Cr" marks decide on their own; otherwise a negative ("-500" or "(500.00)") is read
+// by `convention` and an unsigned amount the other way.
+export function parseSignedAmount(
+  value?: string | null,
+  convention: SignConvention = "negative_debit"
+): number {
+  const raw = String(value ?? "").trim();
+  const n = parseAmount(raw);
+  if (!n) return 0;
+  if (/\bdr\.?$/i.test(raw)) return n;
+  if (/\bcr\.?$/i.test(raw)) return -n;
+  const negative = /^\(.*\)$/.test(raw) || /^[^0-9]*-/.test(raw);
+  return negative === (convention === "negative_debit") ? n : -n;
+}
+
+export type DateFormat = "DD/MM/YYYY" | "MM/DD/YYYY" | "YYYY-MM-DD";
+
+export const DATE_FORMATS: DateFormat[] = [
+  "DD/MM/YYYY",
+  "MM/DD/YYYY",
+  "YYYY-MM-DD",
+];
+
+const MONTH_NAMES = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+// a statement date as "YYYY-MM-DD", or null. Any separator works, two-digit years are 20xx and
+// month names ("05 Oct 2025", "05-OCT-25") are read regardless of the chosen format.
+export function parseStatementDate(
+  value: string,
+  format: DateFormat
+): string | null {
+  const parts = String(value || "")
+    .trim()
+    .split(/[^0-9a-zA-Z]+/)
+    .filter(Boolean)
+    .slice(0, 3);
+  if (parts.length < 3) return null;
+
+  let y: number, m: number, d: number;
+  const named = parts.findIndex((p) => /^[a-z]{3}/i.test(p));
+  if (named >= 0) {
+    m = MONTH_NAMES.indexOf(parts[named].slice(0, 3).toLowerCase()) + 1;
+    const rest = parts.filter((_, i) => i !== named).map(Number);
+    [d, y] = rest[0] > 31 ? [rest[1], rest[0]] : [rest[0], rest[1]];
+  } else {
+    const [a, b, c] = parts.map(Number);
+    if (format === "YYYY-MM-DD") [y, m, d] = [a, b, c];
+    else if (format === "MM/DD/YYYY") [m, d, y] = [a, b, c];
+    else [d, m, y] = [a, b, c];
+  }
+  if (y < 100) y += 2000;
+
+  const date = new Date(Date.UTC(y, m - 1, d));
+  if (
+    !m ||
+    date.getUTCFullYear() !== y ||
+    date.getUTCMonth() !== m - 1 ||
+    date.getUTCDate() !== d
+  ) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+export type ColumnMapping = {
+  date: number;
+  description: number;
+  debit: number;
+  credit: number; // -1 = the statement has no credit column
+};
+
+// best guess at the columns from a header row; -1 where nothing matched
+export function guessMapping(header: string[]): ColumnMapping {
+  const find = (re: RegExp) => header.findIndex((h) => re.test(h));
+  const debit = find(/debit|withdrawal|\bdr\b|paid out/i);
+  return {
+    date: find(/date/i),
+    description: find(/desc|narration|particular|details|remark/i),
+    // a lone "Amount" column holds both directions on statements without separate columns
+    // (signed, see parseSignedAmount); credit stays -1 so it is read that way
+    debit: debit >= 0 ? debit : find(/^amount/i),
+    credit: find(/credit|deposit|\bcr\b|paid in/i),
+  };
+}
@@ -1,9 +1,26 @@
-export function formatCurrency(amount?: number | null, currency = "INR") {
+import {displayPreferences} from "./locale";
+
+// an amount in the user's currency and locale (see utils/locale), e.g. "₹1,23,457"
+export function formatCurrency(amount?: number | null, currency?: string) {
   const n = Number(amount ?? 0);
   if (!isFinite(n) || Number.isNaN(n)) return "—";
-  return new Intl.NumberFormat("en-IN", {
+  const prefs = displayPreferences();
+  return new Intl.NumberFormat(prefs.locale, {
     style: "currency",
-    currency,
+    currency: currency || prefs.currency,
     maximumFractionDigits: 0,
   }).format(n);
 }
+
+// what a foreign-currency spend originally cost, e.g. "US$12.50"; "" for home-currency spends
+export function formatOriginalAmount(t: {
+  originalAmount?: number | null;
+  originalCurrency?: string | null;
+}) {
+  if (!t.originalCurrency || t.originalAmount == null) return "";
+  return new Intl.NumberFormat(displayPreferences().locale, {
+    style: "currency",
+    currency: t.originalCurrency,
+    maximumFractionDigits: 2,
+  }).format(t.originalAmount);
+}
@@ -0,0 +1,66 @@
+// The user's display currency and locale (from /me), applied by the plain formatting helpers.
+// Kept at module level so formatCurrency and friends work outside React; the auth provider
+// updates it before publishing a new user, so the re-render that follows already uses it.
+
+export type DisplayPreferences = {currency: string; locale: string};
+
+let current: DisplayPreferences = {currency: "INR", locale: "en-IN"};
+
+export const LOCALES: {value: string; label: string}[] = [
+  {value: "en-IN", label: "English (India) — 1,23,456.78"},
+  {value: "en-US", label: "English (US) — 123,456.78"},
+  {value: "en-GB", label: "English (UK) — 123,456.78"},
+  {value: "de-DE", label: "Deutsch — 123.456,78"},
+  {value: "fr-FR", label: "Français — 123 456,78"},
+  {value: "es-ES", label: "Español — 123.456,78"},
+  {value: "ja-JP", label: "日本語 — 123,456.78"},
+];
+
+export function setDisplayPreferences(next: {
+  currency?: string | null;
+  locale?: string | null;
+}) {
+  current = {
+    currency: next.currency || "INR",
+    locale: next.locale || "en-IN",
+  };
+}
+
+export function displayPreferences(): DisplayPreferences {
+  return current;
+}
+
+// "₹", "$", "€" ... for amount labels
+export function currencySymbol(currency = current.currency) {
+  return (
+    new Intl.NumberFormat(current.locale, {style: "currency", currency})
+      .formatToParts(0)
+      .find((p) => p.type === "currency")?.value ?? currency
+  );
+}
+
+// a date in the user's locale, e.g. 19/10/2026 (en-IN) or 10/19/2026 (en-US)
+export function formatDate(
+  value: string | number | Date,
+  options?: Intl.DateTimeFormatOptions
+) {
+  return new Date(value).toLocaleDateString(current.locale, options);
+}
+
+export function formatDateTime(value: string | number | Date) {
+  return new Date(value).toLocaleString(current.locale);
+}
+
+// CSV cells the user's spreadsheet reads as numbers: locales with a decimal comma get ";" between
+// cells and "1234,5" amounts, the rest "," and "1234.5"
+export function csvFormat() {
+  const numbers = new Intl.NumberFormat(current.locale, {
+    useGrouping: false,
+    maximumFractionDigits: 6,
+  });
+  const decimal = numbers.formatToParts(1.5).find((p) => p.type === "decimal");
+  return {
+    separator: decimal?.value === "," ? ";" : ",",
+    number: (n: number) => numbers.format(n),
+  };
+}
@@ -0,0 +1,43 @@
+// Budget periods: a period runs from the user's cycle start day to the day before it in the next
+// month and is keyed by the month it starts in (start day 25: "2025-10" = Oct 25 - Nov 24).
+// Start day 1 gives plain calendar months. Keys are UTC, the same as the server's.
+
+import {displayPreferences} from "./locale";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// the period key (YYYY-MM) a date falls in
+export function periodKeyOf(date: Date | string, startDay = 1): string {
+  const t = new Date(date).getTime() - (startDay - 1) * DAY_MS;
+  return new Date(t).toISOString().slice(0, 7);
+}
+
+// [start, end) of a period
+export function periodRange(month: string, startDay = 1) {
+  const [y, m] = month.split("-").map(Number);
+  return {
+    start: new Date(Date.UTC(y, m - 1, startDay)),
+    end: new Date(Date.UTC(y, m, startDay)),
+  };
+}
+
+// "2025-10" -> "October 2025", or "25 Oct – 24 Nov 2025" for custom periods
+export function periodLabel(month: string, startDay = 1): string {
+  const [y, m] = month.split("-").map(Number);
+  if (!y || !m) return month;
+  if (startDay <= 1) {
+    return new Date(y, m - 1, 1).toLocaleString(displayPreferences().locale, {
+      month: "long",
+      year: "numeric",
+    });
+  }
+  const {start, end} = periodRange(month, startDay);
+  const last = new Date(end.getTime() - DAY_MS);
+  const day = (d: Date) =>
+    d.toLocaleDateString(displayPreferences().locale, {
+      day: "numeric",
+      month: "short",
+      timeZone: "UTC",
+    });
+  return `${day(start)} – ${day(last)} ${last.getUTCFullYear()}`;
+}
@@ -0,0 +1,80 @@
+import {describe, expect, it} from "vitest";
+import {detectStatementFormat, parseOfx, parseQif} from "./statements";
+
+const OFX = `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<BANKACCTFROM><ACCTID>001234</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20251003120000<TRNAMT>-450.00<FITID>T1<NAME>SWIGGY<MEMO>UPI order</STMTTRN>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20251005<TRNAMT>50000.00<FITID>T2<NAME>SALARY</STMTTRN>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>garbled<TRNAMT>-10.00<FITID>T3</STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+const QIF = `!Type:Bank
+D05/10'25
+T-1,250.00
+PBIG BAZAAR
+MGroceries
+^
+D06/10'25
+T3,000.00
+PREFUND
+^
+D99/99'25
+T-5.00
+^`;
+
+describe("detectStatementFormat", () => {
+  it("goes by extension, then content", () => {
+    expect(detectStatementFormat("stmt.qfx", "")).toBe("ofx");
+    expect(detectStatementFormat("stmt.txt", "!Type:Bank\n")).toBe("qif");
+    expect(detectStatementFormat("stmt.xml", "<Document><BkToCstmrStmt>")).toBe(
+      "camt"
+    );
+    expect(detectStatementFormat("stmt.csv", "Date,Amount")).toBe("csv");
+  });
+});
+
+describe("parseOfx", () => {
+  it("reads negative amounts as money out and keys lines by account and FITID", () => {
+    const {entries, unreadable} = parseOfx(OFX);
+    expect(unreadable).toBe(1);
+    expect(entries).toEqual([
+      {
+        date: "2025-10-03",
+        description: "SWIGGY UPI order",
+        amount: 450,
+        direction: "debit",
+        externalId: "ofx:001234:T1",
+      },
+      {
+        date: "2025-10-05",
+        description: "SALARY",
+        amount: 50000,
+        direction: "credit",
+        externalId: "ofx:001234:T2",
+      },
+    ]);
+  });
+});
+
+describe("parseQif", () => {
+  it("reads negative amounts as money out, with dates in the bank's format", () => {
+    const {entries, unreadable} = parseQif(QIF, "DD/MM/YYYY");
+    expect(unreadable).toBe(1);
+    expect(entries).toEqual([
+      {
+        date: "2025-10-05",
+        description: "BIG BAZAAR Groceries",
+        amount: 1250,
+        direction: "debit",
+      },
+      {
+        date: "2025-10-06",
+        description: "REFUND",
+        amount: 3000,
+        direction: "credit",
+      },
+    ]);
+  });
+});
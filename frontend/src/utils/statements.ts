@@ -0,0 +1,164 @@
+// Parsers for the non-CSV statement downloads banks offer: OFX 1.x (SGML) and 2.x (XML), QIF and
+// ISO 20022 CAMT.053. They all produce entries for the same review step as the CSV import.
+import {parseAmount, parseStatementDate, type DateFormat} from "./csv";
+
+export type StatementFormat = "csv" | "ofx" | "qif" | "camt";
+
+export type StatementEntry = {
+  date: string; // YYYY-MM-DD
+  description: string;
+  amount: number; // always positive; see direction
+  direction: "debit" | "credit";
+  // the bank's own id for the line (OFX FITID, CAMT AcctSvcrRef) prefixed with the account;
+  // re-imports are matched on this instead of the line's content
+  externalId?: string;
+};
+
+export type ParsedStatement = {entries: StatementEntry[]; unreadable: number};
+
+export function detectStatementFormat(
+  fileName: string,
+  text: string
+): StatementFormat {
+  const ext = fileName.toLowerCase().split(".").pop();
+  const head = text.slice(0, 2000);
+  if (ext === "ofx" || ext === "qfx" || /OFXHEADER|<OFX>/i.test(head))
+    return "ofx";
+  if (ext === "qif" || /^\s*!(Type|Account)/i.test(head)) return "qif";
+  if (/camt\.053|<BkToCstmrStmt/i.test(head)) return "camt";
+  return "csv";
+}
+
+function decodeEntities(value: string) {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+// OFX 1.x leaves leaf elements unclosed (<TRNAMT>-450.00), 2.x closes them; reading up to the
+// next tag or line break handles both
+function ofxField(block: string, tag: string) {
+  const m = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  return m ? decodeEntities(m[1].trim()) : "";
+}
+
+export function parseOfx(text: string): ParsedStatement {
+  const account = ofxField(text, "ACCTID");
+  const entries: StatementEntry[] = [];
+  let unreadable = 0;
+
+  const blocks = text.split(/<STMTTRN>/i).slice(1);
+  for (const raw of blocks) {
+    const block = raw.split(/<\/STMTTRN>/i)[0];
+    const posted = ofxField(block, "DTPOSTED").match(/^(\d{4})(\d{2})(\d{2})/);
+    const amount = Number(ofxField(block, "TRNAMT").replace(/,/g, ""));
+    if (!posted || !Number.isFinite(amount) || amount === 0) {
+      unreadable++;
+      continue;
+    }
+    const name = ofxField(block, "NAME");
+    const memo = ofxField(block, "MEMO");
+    const fitid = ofxField(block, "FITID");
+    entries.push({
+      date: `${posted[1]}-${posted[2]}-${posted[3]}`,
+      description:
+        name && memo && name !== memo ? `${name} ${memo}` : name || memo,
+      amount: Math.abs(amount),
+      direction: amount < 0 ? "debit" : "credit",
+      externalId: fitid ? `ofx:${account}:${fitid}` : undefined,
+    });
+  }
+  return {entries, unreadable};
+}
+
+// QIF has no transaction ids, so re-imports fall back to matching the line's content.
+// Dates are in the bank's locale ("10/05'25"), hence the format.
+export function parseQif(
+  text: string,
+  dateFormat: DateFormat
+): ParsedStatement {
+  const entries: StatementEntry[] = [];
+  let unreadable = 0;
+  let record: Record<string, string> = {};
+
+  const flush = () => {
+    if (!Object.keys(record).length) return;
+    const date = parseStatementDate(record.D ?? "", dateFormat);
+    const raw = record.T ?? record.U ?? "";
+    const amount = parseAmount(raw);
+    if (!date || !amount) {
+      unreadable++;
+    } else {
+      entries.push({
+        date,
+        description: [record.P, record.M].filter(Boolean).join(" "),
+        amount,
+        direction: raw.trim().startsWith("-") ? "debit" : "credit",
+      });
+    }
+    record = {};
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim() || line.startsWith("!")) continue;
+    if (line.startsWith("^")) {
+      flush();
+      continue;
+    }
+    const code = line[0];
+    // keep the first of repeated codes (split lines reuse S/E/$)
+    if (!(code in record)) record[code] = line.slice(1).trim();
+  }
+  flush();
+  return {entries, unreadable};
+}
+
+// CAMT.053 is namespaced XML; elements are looked up by local name so any schema version works
+export function parseCamt(text: string): ParsedStatement {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length) {
+    return {entries: [], unreadable: 1};
+  }
+  const first = (el: Element | Document, name: string) =>
+    el.getElementsByTagNameNS("*", name)[0];
+  const textOf = (el: Element | Document, name: string) =>
+    first(el, name)?.textContent?.trim() ?? "";
+
+  const entries: StatementEntry[] = [];
+  let unreadable = 0;
+  for (const stmt of Array.from(doc.getElementsByTagNameNS("*", "Stmt"))) {
+    const acct = first(stmt, "Acct");
+    const account = acct ? textOf(acct, "IBAN") || textOf(acct, "Id") : "";
+
+    for (const ntry of Array.from(stmt.getElementsByTagNameNS("*", "Ntry"))) {
+      const booked = first(ntry, "BookgDt") ?? first(ntry, "ValDt");
+      const date = booked
+        ? (textOf(booked, "Dt") || textOf(booked, "DtTm")).slice(0, 10)
+        : "";
+      const amount = parseAmount(textOf(ntry, "Amt"));
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !amount) {
+        unreadable++;
+        continue;
+      }
+      const direction =
+        textOf(ntry, "CdtDbtInd") === "DBIT" ? "debit" : "credit";
+      // the counterparty is the creditor on a debit and the debtor on a credit
+      const party = first(ntry, direction === "debit" ? "Cdtr" : "Dbtr");
+      const ref = textOf(ntry, "AcctSvcrRef") || textOf(ntry, "NtryRef");
+      entries.push({
+        date,
+        description:
+          [party ? textOf(party, "Nm") : "", textOf(ntry, "Ustrd")]
+            .filter(Boolean)
+            .join(" ") || textOf(ntry, "AddtlNtryInf"),
+        amount,
+        direction,
+        externalId: ref ? `camt:${account}:${ref}` : undefined,
+      });
+    }
+  }
+  return {entries, unreadable};
+}